@@ -1,82 +1,284 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Play, Pause, SkipForward, SkipBack, Upload, Music, Shuffle, Repeat, Sparkles, Trash2, Volume2, VolumeX } from 'lucide-react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Play, Pause, SkipForward, SkipBack, Upload, Shuffle, Repeat, Repeat1, Trash2, Volume2, VolumeX, X, ListOrdered, MicVocal, Keyboard, FolderOpen, Loader2, BarChart3 } from 'lucide-react';
 import { VinylDisk } from './components/VinylDisk';
 import { Visualizer } from './components/Visualizer';
+import { PlaylistSwitcher } from './components/PlaylistSwitcher';
+import { TrackList } from './components/TrackList';
+import { QueuePanel } from './components/QueuePanel';
+import { CrossfadeControl } from './components/CrossfadeControl';
+import { SleepTimerControl } from './components/SleepTimerControl';
+import { PracticeControl } from './components/PracticeControl';
+import { EqualizerPanel } from './components/EqualizerPanel';
+import { LoudnessControl } from './components/LoudnessControl';
+import { VisualizerControl } from './components/VisualizerControl';
+import { LyricsView } from './components/LyricsView';
+import { ShortcutsOverlay } from './components/ShortcutsOverlay';
+import { CommandPalette, PaletteCommand } from './components/CommandPalette';
+import { DuplicatesDialog } from './components/DuplicatesDialog';
+import { ImportSummaryBanner } from './components/ImportSummaryBanner';
+import { StatsDialog } from './components/StatsDialog';
+import { SeekBar } from './components/SeekBar';
+import { AiPanel, AiResult } from './components/AiPanel';
+import { SmartPlaylistDialog } from './components/SmartPlaylistDialog';
+import { LanguageControl } from './components/LanguageControl';
 import { formatTime } from './utils/formatTime';
-import { Track } from './types';
+import { AUDIO_ACCEPT } from './utils/audioFormat';
+import { PLAYLIST_ACCEPT, PlaylistFormat } from './utils/playlistFormats';
+import { loadSetting, saveSetting } from './utils/storage';
+import { getTrackTitle, getTrackSubtitle } from './utils/trackInfo';
+import { createShuffleOrder, createNextCycle, reconcileShuffleOrder, smoothOrder } from './utils/shuffle';
+import { getFeatureDistance } from './utils/audioFeatures';
+import { DEFAULT_EFFECTS, normalizeBands } from './utils/equalizer';
+import { computeAlbumGains, getReplayGain } from './utils/replayGain';
+import { LIBRARY_ID, createPlaylist, getCopyName, getListTracks } from './utils/playlists';
+import { arrangeTracks } from './utils/trackQuery';
+import { countPlays, serializeHistory, HistoryFormat } from './utils/playStats';
+import { useLibrary } from './hooks/useLibrary';
+import { useObjectUrl } from './hooks/useObjectUrl';
+import { useLoudnessAnalysis } from './hooks/useLoudnessAnalysis';
+import { useAudioFeatures } from './hooks/useAudioFeatures';
+import { useMediaSession } from './hooks/useMediaSession';
+import { useShortcuts } from './hooks/useShortcuts';
+import { useImporter } from './hooks/useImporter';
+import { useSleepTimer } from './hooks/useSleepTimer';
+import { useWaveform } from './hooks/useWaveform';
+import { useDurationProbe } from './hooks/useDurationProbe';
+import { usePlayHistory } from './hooks/usePlayHistory';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { useLaunchFiles } from './hooks/useLaunchFiles';
+import { useI18n } from './hooks/useI18n';
+import { ShortcutBindings, SHORTCUT_ACTIONS, DEFAULT_BINDINGS, formatCombo } from './utils/shortcuts';
+import { getDroppedFiles } from './services/folderScanner';
+import { createAudioEngine } from './services/audioEngine';
+import { withDurations, downloadPlaylist } from './services/playlistExport';
+import { downloadFile } from './services/download';
+import { createAiService, analyzeTracks, suggestPlaylist } from './services/aiService';
+import { Locale, MessageKey } from './i18n';
+import { Track, Playlist, PlayerSession, PlaybackSettings, EffectsSettings, EqPreset, RepeatMode, VisualizerSettings, SleepTimer, SleepTimerSettings, TempoSettings, LoopRegion, ListViewSettings, AiMode, AiSettings, AiLanguage } from './types';
 
 // NOTE: In a real production app, move API keys to backend proxy.
-// Here we rely on the injected process.env.API_KEY as per instructions.
+// Here we rely on the injected process.env.API_KEY as per instructions;
+// without one the AI panel starts on the offline provider.
+
+const SESSION_KEY = 'session';
+const PLAYBACK_KEY = 'playback';
+const EFFECTS_KEY = 'effects';
+const EQ_PRESETS_KEY = 'eqPresets';
+const VISUALIZER_KEY = 'visualizer';
+const SHORTCUTS_KEY = 'shortcuts';
+const SLEEP_KEY = 'sleepTimer';
+const TEMPO_KEY = 'tempo';
+const LIST_VIEW_KEY = 'listView';
+const AI_KEY = 'ai';
+const SEEK_STEP = 5;
+const VOLUME_STEP = 0.05;
+const DEFAULT_VISUALIZER: VisualizerSettings = {
+  mode: 'radial',
+  fftSize: 256,
+  smoothing: 0.8,
+};
+const DEFAULT_PLAYBACK: PlaybackSettings = {
+  crossfade: 0,
+  replayGain: 'off',
+  preAmp: 0,
+  smoothShuffle: false,
+};
+const DEFAULT_TEMPO: TempoSettings = {
+  rate: 1,
+  preservesPitch: true,
+  semitones: 0,
+};
+const DEFAULT_LIST_VIEW: ListViewSettings = {
+  sort: 'manual',
+  descending: false,
+  group: 'none',
+};
+const DEFAULT_AI: AiSettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'offline',
+  language: 'auto',
+  endpoint: 'http://localhost:11434/v1',
+  model: '',
+  apiKey: '',
+};
+// What 'auto' in the AI settings means for each interface language
+const AI_LANGUAGE_BY_LOCALE: Record<Locale, AiLanguage> = { 'zh-CN': 'zh', en: 'en' };
+const DEFAULT_SLEEP: SleepTimerSettings = {
+  fade: 30,
+  customMinutes: 45,
+};
+const DEFAULT_SESSION: PlayerSession = {
+  trackId: null,
+  listId: LIBRARY_ID,
+  viewId: LIBRARY_ID,
+  cursorId: null,
+  queue: [],
+  repeatMode: 'all',
+  shuffleOrder: [],
+  position: 0,
+  volume: 0.8,
+  isMuted: false,
+  isShuffle: false,
+};
+// How often the playback position is written while a track is playing.
+const POSITION_SAVE_INTERVAL = 5;
+// How many upcoming list tracks the queue panel previews
+const UPCOMING_PREVIEW = 10;
+
+// Shortest A-B loop the marker nudges will leave
+const MIN_LOOP = 0.1;
+
+// SkipBack restarts the current track instead once it has played this long
+const RESTART_THRESHOLD = 3;
+const MAX_HISTORY = 200;
+
+const REPEAT_CYCLE: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+const REPEAT_LABELS: Record<RepeatMode, MessageKey> = { off: 'repeat.off', all: 'repeat.all', one: 'repeat.one' };
 
 export default function App() {
+  const { locale, t } = useI18n();
+  const [initialSession] = useState(() => loadSetting<PlayerSession>(SESSION_KEY, DEFAULT_SESSION));
+  const [playbackSettings, setPlaybackSettings] = useState(() => loadSetting<PlaybackSettings>(PLAYBACK_KEY, DEFAULT_PLAYBACK));
+  const [effects, setEffects] = useState(() => loadSetting<EffectsSettings>(EFFECTS_KEY, DEFAULT_EFFECTS));
+  const [eqPresets, setEqPresets] = useState(() => loadSetting<EqPreset[]>(EQ_PRESETS_KEY, []));
+  const [visualizerSettings, setVisualizerSettings] = useState(() => loadSetting<VisualizerSettings>(VISUALIZER_KEY, DEFAULT_VISUALIZER));
+  const [shortcutBindings, setShortcutBindings] = useState(() => loadSetting<ShortcutBindings>(SHORTCUTS_KEY, DEFAULT_BINDINGS));
+  const [sleepSettings, setSleepSettings] = useState(() => loadSetting<SleepTimerSettings>(SLEEP_KEY, DEFAULT_SLEEP));
+  const [tempo, setTempo] = useState(() => loadSetting<TempoSettings>(TEMPO_KEY, DEFAULT_TEMPO));
+  const [listView, setListView] = useState(() => loadSetting<ListViewSettings>(LIST_VIEW_KEY, DEFAULT_LIST_VIEW));
+  const [aiSettings, setAiSettings] = useState(() => loadSetting<AiSettings>(AI_KEY, DEFAULT_AI));
+
   // State
-  const [playlist, setPlaylist] = useState<Track[]>([]);
-  const [currentTrackIndex, setCurrentTrackIndex] = useState<number>(-1);
+  const {
+    tracks: library,
+    setTracks: setLibrary,
+    playlists,
+    setPlaylists,
+    isRestored,
+    storageError,
+    dismissStorageError,
+    clearLibrary,
+  } = useLibrary();
+  // List shown in the side panel vs. list the current track is playing from;
+  // browsing another playlist must not change what "next" means.
+  const [activeListId, setActiveListId] = useState(initialSession.viewId);
+  const [playingListId, setPlayingListId] = useState(initialSession.listId);
+  const [currentTrackId, setCurrentTrackId] = useState<string | null>(null);
+  const [listCursorId, setListCursorId] = useState<string | null>(initialSession.cursorId);
+  const [queue, setQueue] = useState<string[]>(initialSession.queue);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(initialSession.repeatMode);
+  const [showQueue, setShowQueue] = useState(false);
+  // Lyrics take the record's place in the left panel
+  const [showLyrics, setShowLyrics] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showSmartPlaylist, setShowSmartPlaylist] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // Not restored on launch: a timer left over from last night would stop the music unexpectedly
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  // A-B loop markers for the current track; the loop runs once B is set
+  const [loopMarkers, setLoopMarkers] = useState<Partial<LoopRegion>>({});
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [volume, setVolume] = useState(0.8);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isShuffle, setIsShuffle] = useState(false);
+  const [volume, setVolume] = useState(initialSession.volume);
+  const [isMuted, setIsMuted] = useState(initialSession.isMuted);
+  const [isShuffle, setIsShuffle] = useState(initialSession.isShuffle);
+  const [shuffleOrder, setShuffleOrder] = useState<string[]>(initialSession.shuffleOrder);
   
+  const tracksById = useMemo(() => new Map(library.map(track => [track.id, track])), [library]);
+  const currentTrack = currentTrackId ? tracksById.get(currentTrackId) : undefined;
+  const activePlaylist = playlists.find(p => p.id === activeListId);
+
+  // Listening history, logged locally
+  const { plays, isLoaded: isHistoryLoaded, clearHistory } = usePlayHistory(currentTrack, { isPlaying, currentTime, duration });
+  // Counts for the play-count sort are taken when it is chosen, not on every
+  // play, so the list doesn't reorder under the playing track
+  const playCounts = useMemo(
+    () => (listView.sort === 'playCount' ? countPlays(plays) : undefined),
+    [isHistoryLoaded, listView.sort] // plays left out on purpose
+  );
+
+  // Lists play in the order they are shown, so sorting and grouping apply to both
+  const playlist = useMemo(
+    () => arrangeTracks(getListTracks(activeListId, library, playlists, tracksById), listView, playCounts),
+    [activeListId, library, playlists, tracksById, listView, playCounts]
+  );
+  const playingTracks = useMemo(
+    () => arrangeTracks(getListTracks(playingListId, library, playlists, tracksById), listView, playCounts),
+    [playingListId, library, playlists, tracksById, listView, playCounts]
+  );
+  // Position in the playing list. While queued tracks play it stays on the
+  // last list track, so the list resumes where it left off.
+  const currentTrackIndex = playingTracks.findIndex(track => track.id === listCursorId);
+  const queuedTracks = useMemo(
+    () => queue.map(id => tracksById.get(id)).filter((track): track is Track => track !== undefined),
+    [queue, tracksById]
+  );
+  const playingListName = playlists.find(p => p.id === playingListId)?.name ?? t('library.name');
+  // Smooth shuffle puts tracks with similar tempo, key and energy next to each other
+  const arrangeCycle = (order: string[]) =>
+    playbackSettings.smoothShuffle
+      ? smoothOrder(order, (fromId, toId) => getFeatureDistance(tracksById.get(fromId)?.features, tracksById.get(toId)?.features))
+      : order;
+  // Drawn once per cycle so peeking at "next" is stable until it is used
+  const nextShuffleCycle = useMemo(
+    () => arrangeCycle(createNextCycle(shuffleOrder, shuffleOrder[shuffleOrder.length - 1] ?? null)),
+    [shuffleOrder, playbackSettings.smoothShuffle] // tracksById left out on purpose
+  );
+
   // Audio & AI
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const coverArtUrl = useObjectUrl(currentTrack?.picture);
+
+  const [engine] = useState(createAudioEngine);
+  // Only exists once the AudioContext has been created by a user gesture
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const lastSavedPositionRef = useRef(0);
+  // Tracks that actually played, most recent last, so SkipBack retraces them
+  const historyRef = useRef<string[]>([]);
   
   // AI Analysis State
-  const [aiAnalysis, setAiAnalysis] = useState<string>("");
+  const [aiResult, setAiResult] = useState<AiResult | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   // Initialize Audio Context lazily on user interaction
   const initAudioContext = () => {
-    if (!audioContextRef.current) {
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new AudioContextClass();
-      audioContextRef.current = ctx;
-      
-      const analyser = ctx.createAnalyser();
-      analyser.fftSize = 256;
-      analyserRef.current = analyser;
-
-      if (audioRef.current) {
-        // Fix for CORS issues if we were fetching remote, but for local blobs this is fine
-        const source = ctx.createMediaElementSource(audioRef.current);
-        source.connect(analyser);
-        analyser.connect(ctx.destination);
-        sourceRef.current = source;
-      }
-    } else if (audioContextRef.current.state === 'suspended') {
-      audioContextRef.current.resume();
-    }
+    engine.ensureContext();
+    setAnalyser(engine.analyser);
   };
 
+  // Importing while a playlist is open adds the songs to it as well
+  const handleImported = useCallback((newIds: string[]) => {
+    if (activeListId === LIBRARY_ID) return;
+    setPlaylists(prev => prev.map(p => p.id === activeListId ? { ...p, trackIds: [...p.trackIds, ...newIds] } : p));
+  }, [setPlaylists, activeListId]);
+
+  // We won't auto-select the first import to avoid auto-play blocking policies until user clicks
+  const {
+    importFiles,
+    isImporting,
+    pending: pendingImport,
+    resolveDuplicates,
+    cancelImport,
+    summary: importSummary,
+    dismissSummary: dismissImportSummary,
+    error: importError,
+    dismissError: dismissImportError,
+  } = useImporter(library, setLibrary, setPlaylists, handleImported);
+
+  // Files opened with or shared to the installed app
+  useLaunchFiles(importFiles, isRestored);
+  const { updateReady, applyUpdate, dismissUpdate } = useServiceWorker();
+
   // Drag and Drop Handlers
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const files = Array.from(e.dataTransfer.files) as File[];
-      const newFiles = files.filter(file => file.type.startsWith('audio/'));
-      const newTracks: Track[] = newFiles.map(file => ({
-        file,
-        id: crypto.randomUUID(),
-        name: file.name.replace(/\.[^/.]+$/, "")
-      }));
-      
-      setPlaylist(prev => {
-        const updated = [...prev, ...newTracks];
-        // If it's the first track added, select it but don't play yet
-        if (prev.length === 0 && updated.length > 0) {
-           // We won't auto-set index to avoid auto-play blocking policies until user clicks
-        }
-        return updated;
-      });
-    }
-  }, []);
+    // Folders are walked recursively; entries have to be read before the handler returns
+    importFiles(getDroppedFiles(e.dataTransfer));
+  }, [importFiles]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -85,36 +287,30 @@ export default function App() {
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-       const files = Array.from(e.target.files) as File[];
-       const newFiles = files.filter(file => file.type.startsWith('audio/'));
-       const newTracks: Track[] = newFiles.map(file => ({
-        file,
-        id: crypto.randomUUID(),
-        name: file.name.replace(/\.[^/.]+$/, "")
-      }));
-      setPlaylist(prev => [...prev, ...newTracks]);
+      importFiles(Array.from(e.target.files) as File[]);
+      // Allow picking the same files again later
+      e.target.value = '';
     }
   };
 
   // Playback Control
-  const playTrack = async (index: number) => {
-    initAudioContext();
-    if (index < 0 || index >= playlist.length) return;
-
-    const track = playlist[index];
-    if (!audioRef.current) return;
-
-    // Revoke old URL to avoid memory leaks
-    if (audioRef.current.src) {
-      URL.revokeObjectURL(audioRef.current.src);
+  // Makes `trackId` the current track, remembering the one it replaces
+  const setCurrent = (trackId: string, { fromHistory = false } = {}) => {
+    if (!fromHistory && currentTrackId && currentTrackId !== trackId) {
+      historyRef.current = [...historyRef.current, currentTrackId].slice(-MAX_HISTORY);
     }
+    setCurrentTrackId(trackId);
+  };
 
-    const objectUrl = URL.createObjectURL(track.file);
-    audioRef.current.src = objectUrl;
-    setCurrentTrackIndex(index);
+  const playTrack = async (track: Track | undefined, { fromHistory = false } = {}) => {
+    initAudioContext();
+    if (!track) return;
+
+    engine.load(track);
+    setCurrent(track.id, { fromHistory });
     
     try {
-      await audioRef.current.play();
+      await engine.play();
       setIsPlaying(true);
     } catch (err) {
       console.error("Playback error:", err);
@@ -123,172 +319,746 @@ export default function App() {
   };
 
   const togglePlay = () => {
-    if (!audioRef.current) return;
-    
     // If no track selected, play first
-    if (currentTrackIndex === -1 && playlist.length > 0) {
-      playTrack(0);
+    if (!currentTrack && playlist.length > 0) {
+      playFromList(0);
       return;
     }
+    if (!currentTrack) return;
 
     if (isPlaying) {
-      audioRef.current.pause();
+      engine.pause();
     } else {
       initAudioContext();
-      audioRef.current.play();
+      engine.play().catch(err => console.error("Playback error:", err));
     }
     setIsPlaying(!isPlaying);
   };
 
-  const nextTrack = () => {
-    if (playlist.length === 0) return;
-    let nextIndex;
+  // Starts a track from the list shown in the panel, making it the playing list
+  const playFromList = (index: number) => {
+    const track = playlist[index];
+    if (!track) return;
+    setPlayingListId(activeListId);
+    setListCursorId(track.id);
+    // Picking a song by hand starts a fresh shuffle cycle that begins with it
+    if (isShuffle) setShuffleOrder(arrangeCycle(createShuffleOrder(playlist.map(item => item.id), track.id)));
+    playTrack(track);
+  };
+
+  // Plays a track of the playing list, moving the list cursor to it
+  const playListTrack = (track: Track) => {
+    setListCursorId(track.id);
+    playTrack(track);
+  };
+
+  // The queue always goes first; after it the playing list continues from the
+  // cursor, wrapping only when `wrap` is set.
+  // In shuffle mode the list order is replaced by the current shuffle cycle;
+  // a wrap starts the next cycle, which the caller has to commit.
+  const getNextTrack = (wrap: boolean): { track: Track; fromQueue: boolean; shuffleOrder?: string[] } | null => {
+    if (queuedTracks.length > 0) return { track: queuedTracks[0], fromQueue: true };
+    if (playingTracks.length === 0) return null;
     if (isShuffle) {
-      nextIndex = Math.floor(Math.random() * playlist.length);
+      const nextId = shuffleOrder[shuffleOrder.indexOf(listCursorId ?? '') + 1];
+      const nextInCycle = nextId ? tracksById.get(nextId) : undefined;
+      if (nextInCycle) return { track: nextInCycle, fromQueue: false };
+      const nextCycleStart = wrap ? tracksById.get(nextShuffleCycle[0]) : undefined;
+      return nextCycleStart ? { track: nextCycleStart, fromQueue: false, shuffleOrder: nextShuffleCycle } : null;
+    }
+    const nextIndex = currentTrackIndex + 1;
+    if (nextIndex < playingTracks.length) return { track: playingTracks[nextIndex], fromQueue: false };
+    return wrap ? { track: playingTracks[0], fromQueue: false } : null;
+  };
+
+  // Stop-at-end: leave the last track cued at its start
+  const finishPlayback = () => {
+    setIsPlaying(false);
+    engine.pause();
+    engine.seek(0);
+  };
+
+  // Commits the bookkeeping for moving on to `next` (queue, cursor, shuffle
+  // cycle). The engine may already be playing it after a gapless handover.
+  const advanceTo = (next: NonNullable<ReturnType<typeof getNextTrack>>, { alreadyPlaying = false } = {}) => {
+    if (next.fromQueue) {
+      setQueue(prev => prev.slice(prev.indexOf(next.track.id) + 1));
     } else {
-      nextIndex = (currentTrackIndex + 1) % playlist.length;
+      if (next.shuffleOrder) setShuffleOrder(next.shuffleOrder);
+      setListCursorId(next.track.id);
+    }
+    if (alreadyPlaying) {
+      setCurrent(next.track.id);
+      setIsPlaying(true);
+    } else {
+      playTrack(next.track);
     }
-    playTrack(nextIndex);
   };
 
-  const prevTrack = () => {
-    if (playlist.length === 0) return;
-    let prevIndex = (currentTrackIndex - 1 + playlist.length) % playlist.length;
-    playTrack(prevIndex);
+  const nextTrack = () => {
+    const next = getNextTrack(repeatMode !== 'off');
+    if (!next) {
+      finishPlayback();
+      return;
+    }
+    advanceTo(next);
   };
 
-  const removeTrack = (e: React.MouseEvent, index: number) => {
-    e.stopPropagation();
-    const newPlaylist = [...playlist];
-    newPlaylist.splice(index, 1);
-    setPlaylist(newPlaylist);
-    if (index === currentTrackIndex) {
+  const handleAdvance = (trackId: string) => {
+    const next = getNextTrack(repeatMode !== 'off');
+    if (next && next.track.id === trackId) {
+      advanceTo(next, { alreadyPlaying: true });
+    } else {
+      // The preload went stale between render and handover; trust the engine
+      setCurrent(trackId);
+      if (playingTracks.some(track => track.id === trackId)) setListCursorId(trackId);
+    }
+  };
+
+  // A sleep timer set to the end of this track, or of the queue with nothing
+  // left after this one, stops here instead of moving on (or wrapping around)
+  const sleepStopsAfterCurrent = sleepTimer?.mode === 'track' || (sleepTimer?.mode === 'queue' && getNextTrack(false) === null);
+
+  // What the engine should cue on its second deck. Repeat-one replays the
+  // same deck instead, from the ended handler.
+  const upNextTrack = repeatMode === 'one' || sleepStopsAfterCurrent ? null : getNextTrack(repeatMode !== 'off')?.track ?? null;
+  useEffect(() => {
+    engine.preload(upNextTrack);
+  }, [engine, upNextTrack]);
+
+  const sleepSecondsLeft = useSleepTimer(sleepTimer, {
+    engine,
+    isPlaying,
+    trackSecondsLeft: sleepStopsAfterCurrent && duration > 0 ? Math.max(0, duration - currentTime) / tempo.rate : null,
+    fadeSeconds: sleepSettings.fade,
+    onExpire: () => {
+      setSleepTimer(null);
+      engine.pause();
       setIsPlaying(false);
-      if (audioRef.current) {
-          audioRef.current.pause();
-          audioRef.current.currentTime = 0;
+    },
+  });
+
+  useEffect(() => {
+    saveSetting(SLEEP_KEY, sleepSettings);
+  }, [sleepSettings]);
+
+  // Like every other player: restart the song if it has been playing for a
+  // while, otherwise step back through what actually played.
+  const prevTrack = () => {
+    if (currentTrack && engine.getCurrentTime() > RESTART_THRESHOLD) {
+      engine.seek(0);
+      return;
+    }
+
+    while (historyRef.current.length > 0) {
+      const previousId = historyRef.current[historyRef.current.length - 1];
+      historyRef.current = historyRef.current.slice(0, -1);
+      const previous = tracksById.get(previousId);
+      if (!previous) continue;
+      // Re-align the list (and shuffle cycle, which is keyed on the cursor)
+      // so Next replays what followed it before
+      if (playingTracks.some(track => track.id === previousId)) setListCursorId(previousId);
+      playTrack(previous, { fromHistory: true });
+      return;
+    }
+
+    if (playingTracks.length === 0) return;
+    if (isShuffle) {
+      engine.seek(0);
+      return;
+    }
+    let prevIndex = (currentTrackIndex - 1 + playingTracks.length) % playingTracks.length;
+    playTrack(playingTracks[prevIndex], { fromHistory: true });
+    setListCursorId(playingTracks[prevIndex].id);
+  };
+
+  const toggleShuffle = () => {
+    if (!isShuffle) {
+      setShuffleOrder(arrangeCycle(createShuffleOrder(playingTracks.map(track => track.id), currentTrackId ?? listCursorId)));
+    }
+    setIsShuffle(!isShuffle);
+  };
+
+  // Keep the running cycle in step with tracks added to or removed from the playing list
+  useEffect(() => {
+    if (!isShuffle || !isRestored) return;
+    setShuffleOrder(prev => reconcileShuffleOrder(prev, playingTracks.map(track => track.id), listCursorId));
+  }, [isShuffle, isRestored, playingTracks]); // listCursorId only matters when the list itself changes
+
+  const handleEnded = () => {
+    if (sleepStopsAfterCurrent) {
+      setSleepTimer(null);
+      finishPlayback();
+      return;
+    }
+    if (repeatMode === 'one') {
+      engine.seek(0);
+      engine.play().catch(err => console.error("Playback error:", err));
+      return;
+    }
+    nextTrack();
+  };
+
+  // Queue
+  const playNext = (trackIds: string[]) => {
+    const ids = trackIds.filter(id => id !== currentTrackId);
+    setQueue(prev => [...ids, ...prev.filter(id => !ids.includes(id))]);
+  };
+
+  const addToQueue = (trackIds: string[]) => {
+    setQueue(prev => [...prev, ...trackIds.filter(id => !prev.includes(id))]);
+  };
+
+  // Jumping into the queue drops everything queued before the chosen entry
+  const playQueued = (index: number) => {
+    const track = queuedTracks[index];
+    if (!track) return;
+    setQueue(prev => prev.slice(prev.indexOf(track.id) + 1));
+    playTrack(track);
+  };
+
+  const removeQueued = (index: number) => {
+    const trackId = queuedTracks[index]?.id;
+    setQueue(prev => prev.filter(id => id !== trackId));
+  };
+
+  const upcomingTracks = useMemo(() => {
+    if (playingTracks.length === 0) return [];
+    if (isShuffle) {
+      const rest = shuffleOrder.slice(shuffleOrder.indexOf(listCursorId ?? '') + 1);
+      const wrapped = repeatMode === 'all' ? nextShuffleCycle : [];
+      return [...rest, ...wrapped]
+        .slice(0, UPCOMING_PREVIEW)
+        .map(id => tracksById.get(id))
+        .filter((track): track is Track => track !== undefined);
+    }
+    const rest = playingTracks.slice(currentTrackIndex + 1);
+    const wrapped = repeatMode === 'all' ? playingTracks.slice(0, Math.max(currentTrackIndex, 0)) : [];
+    return [...rest, ...wrapped].slice(0, UPCOMING_PREVIEW);
+  }, [isShuffle, shuffleOrder, nextShuffleCycle, listCursorId, tracksById, playingTracks, currentTrackIndex, repeatMode]);
+
+  const stopPlayback = () => {
+    setIsPlaying(false);
+    engine.pause();
+    engine.seek(0);
+    setCurrentTrackId(null);
+  };
+
+  // In a playlist this only drops the references; in the library view the
+  // tracks themselves are deleted, along with their entries in every playlist
+  // and their stored audio, so that asks first.
+  const removeTracks = (trackIds: string[]) => {
+    if (trackIds.length === 0) return false;
+    if (!activePlaylist && !window.confirm(t('library.deleteConfirm', { count: trackIds.length }))) return false;
+    const removing = new Set(trackIds);
+    const withoutTracks = (p: Playlist) => ({ ...p, trackIds: p.trackIds.filter(id => !removing.has(id)) });
+
+    if (activePlaylist) {
+      setPlaylists(prev => prev.map(p => p.id === activePlaylist.id ? withoutTracks(p) : p));
+    } else {
+      setLibrary(prev => prev.filter(track => !removing.has(track.id)));
+      setPlaylists(prev => prev.map(p => p.trackIds.some(id => removing.has(id)) ? withoutTracks(p) : p));
+      setQueue(prev => prev.filter(id => !removing.has(id)));
+    }
+
+    if (currentTrackId && removing.has(currentTrackId) && (!activePlaylist || playingListId === activeListId)) {
+      stopPlayback();
+    }
+    return true;
+  };
+
+  // Applies a new id order to the library or a playlist. The playing track is
+  // tracked by id, so currentTrackIndex follows it through any reorder.
+  const updateListOrder = (listId: string, update: (ids: string[]) => string[]) => {
+    if (playlists.some(p => p.id === listId)) {
+      setPlaylists(prev => prev.map(p => p.id === listId ? { ...p, trackIds: update(p.trackIds) } : p));
+      return;
+    }
+    setLibrary(prev => {
+      const byId = new Map(prev.map(track => [track.id, track]));
+      return update(prev.map(track => track.id))
+        .map(id => byId.get(id))
+        .filter((track): track is Track => track !== undefined);
+    });
+  };
+
+  const reorderActiveList = (orderedIds: string[]) => {
+    updateListOrder(activeListId, () => orderedIds);
+  };
+
+  // Playlist Management
+  const handleCreatePlaylist = (name: string, trackIds: string[] = []) => {
+    const created = createPlaylist(name, trackIds);
+    setPlaylists(prev => [...prev, created]);
+    setActiveListId(created.id);
+  };
+
+  const handleRenamePlaylist = (id: string, name: string) => {
+    setPlaylists(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleDuplicatePlaylist = (id: string) => {
+    const source = playlists.find(p => p.id === id);
+    if (!source) return;
+    const copy = createPlaylist(getCopyName(source.name, playlists, t), [...source.trackIds]);
+    setPlaylists(prev => [...prev, copy]);
+    setActiveListId(copy.id);
+  };
+
+  const handleDeletePlaylist = (id: string) => {
+    setPlaylists(prev => prev.filter(p => p.id !== id));
+    if (activeListId === id) setActiveListId(LIBRARY_ID);
+    // Keep the current song going, continuing through the library afterwards
+    if (playingListId === id) setPlayingListId(LIBRARY_ID);
+  };
+
+  const toggleTrackInPlaylist = (playlistId: string, trackId: string) => {
+    setPlaylists(prev => prev.map(p => {
+      if (p.id !== playlistId) return p;
+      const trackIds = p.trackIds.includes(trackId)
+        ? p.trackIds.filter(id => id !== trackId)
+        : [...p.trackIds, trackId];
+      return { ...p, trackIds };
+    }));
+  };
+
+  // Missing durations are probed once and kept on the tracks for next time
+  const exportActiveList = async (format: PlaylistFormat) => {
+    if (playlist.length === 0 || isExporting) return;
+    setIsExporting(true);
+    try {
+      const tracks = await withDurations(playlist);
+      const measured = new Map(tracks.filter((track, i) => track !== playlist[i]).map(track => [track.id, track.duration]));
+      if (measured.size > 0) {
+        setLibrary(prev => prev.map(track => measured.has(track.id) ? { ...track, duration: measured.get(track.id) } : track));
       }
-      setCurrentTrackIndex(-1);
-    } else if (index < currentTrackIndex) {
-      setCurrentTrackIndex(currentTrackIndex - 1);
+      downloadPlaylist(format, activePlaylist?.name ?? t('library.name'), tracks);
+    } catch (err) {
+      console.error("Export error:", err);
+    } finally {
+      setIsExporting(false);
     }
   };
 
-  // Audio Event Listeners
+  const createPlaylistWithTrack = (name: string, trackId: string) => {
+    setPlaylists(prev => [...prev, createPlaylist(name, [trackId])]);
+  };
+
+  const handleClearLibrary = async () => {
+    if (library.length === 0) return;
+    if (!window.confirm(t('library.clearConfirm'))) return;
+
+    engine.unload();
+    setIsPlaying(false);
+    setCurrentTrackId(null);
+    setListCursorId(null);
+    setQueue([]);
+    setShuffleOrder([]);
+    historyRef.current = [];
+    setActiveListId(LIBRARY_ID);
+    setPlayingListId(LIBRARY_ID);
+    setCurrentTime(0);
+    setDuration(0);
+    await clearLibrary();
+  };
+
+  // Session Persistence
+  const saveSession = useCallback((position: number) => {
+    lastSavedPositionRef.current = position;
+    saveSetting<PlayerSession>(SESSION_KEY, {
+      trackId: currentTrackId,
+      listId: playingListId,
+      viewId: activeListId,
+      cursorId: listCursorId,
+      queue,
+      repeatMode,
+      position,
+      volume,
+      isMuted,
+      isShuffle,
+      shuffleOrder,
+    });
+  }, [currentTrackId, playingListId, activeListId, listCursorId, queue, repeatMode, volume, isMuted, isShuffle, shuffleOrder]);
+
+  // Once the stored library is back, cue up the track that was playing last
+  // time without starting playback (autoplay would be blocked anyway).
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    if (!isRestored || !initialSession.trackId) return;
+    const track = tracksById.get(initialSession.trackId);
+    if (!track) return;
 
-    const updateTime = () => setCurrentTime(audio.currentTime);
-    const updateDuration = () => setDuration(audio.duration);
-    const onEnded = () => nextTrack();
+    engine.load(track, initialSession.position);
+    setCurrentTrackId(track.id);
+    setCurrentTime(initialSession.position);
+  }, [isRestored]); // Only once, when the stored library arrives
 
-    audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('loadedmetadata', updateDuration);
-    audio.addEventListener('ended', onEnded);
+  useEffect(() => {
+    if (!isRestored) return;
+    saveSession(engine.getCurrentTime());
+  }, [isRestored, saveSession]);
 
+  useEffect(() => {
+    const onPageHide = () => {
+      if (isRestored) saveSession(engine.getCurrentTime());
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') onPageHide();
+    };
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
     return () => {
-      audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('loadedmetadata', updateDuration);
-      audio.removeEventListener('ended', onEnded);
+      window.removeEventListener('pagehide', onPageHide);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
     };
-  }, [playlist, currentTrackIndex, isShuffle]); // Re-bind onEnded because it depends on nextTrack state
+  }, [isRestored, saveSession]);
 
-  // Volume
+  // Engine events. Re-bound after every render so the handlers always see the
+  // current queue, cursor and repeat mode.
   useEffect(() => {
-    if(audioRef.current) {
-        audioRef.current.volume = isMuted ? 0 : volume;
+    engine.setHandlers({
+      onTimeUpdate: (time) => {
+        setCurrentTime(time);
+        if (isRestored && Math.abs(time - lastSavedPositionRef.current) >= POSITION_SAVE_INTERVAL) {
+          saveSession(time);
+        }
+      },
+      onDurationChange: setDuration,
+      onEnded: handleEnded,
+      onAdvance: handleAdvance,
+      onError: (trackId, error) => console.error("Playback error:", trackId, error),
+    });
+  });
+
+  // Lock screen, notification and hardware media keys
+  useMediaSession(
+    { track: currentTrack, artworkUrl: coverArtUrl, isPlaying, currentTime, duration, playbackRate: tempo.rate },
+    {
+      onPlay: () => {
+        if (!isPlaying) togglePlay();
+      },
+      onPause: () => {
+        if (isPlaying) togglePlay();
+      },
+      onPrevious: prevTrack,
+      onNext: nextTrack,
+      onSeek: (time) => engine.seek(Math.min(time, engine.getDuration() || time)),
+      getCurrentTime: engine.getCurrentTime,
     }
-  }, [volume, isMuted]);
+  );
+
+  // Keyboard
+  const seekBy = (delta: number) => {
+    const duration = engine.getDuration();
+    engine.seek(Math.max(0, Math.min(duration || Infinity, engine.getCurrentTime() + delta)));
+  };
+
+  const changeVolume = (delta: number) => {
+    setIsMuted(false);
+    setVolume(prev => Math.round(Math.max(0, Math.min(1, prev + delta)) * 100) / 100);
+  };
 
+  const shortcutHandlers = {
+    togglePlay,
+    seekBackward: () => seekBy(-SEEK_STEP),
+    seekForward: () => seekBy(SEEK_STEP),
+    volumeUp: () => changeVolume(VOLUME_STEP),
+    volumeDown: () => changeVolume(-VOLUME_STEP),
+    next: nextTrack,
+    previous: prevTrack,
+    mute: () => setIsMuted(prev => !prev),
+    shuffle: toggleShuffle,
+    repeat: () => setRepeatMode(prev => REPEAT_CYCLE[prev]),
+    toggleLyrics: () => setShowLyrics(prev => !prev),
+    toggleQueue: () => setShowQueue(prev => !prev),
+    loopStart: () => setLoopMarker('start'),
+    loopEnd: () => setLoopMarker('end'),
+    clearLoop: () => setLoopMarkers({}),
+    commandPalette: () => setShowPalette(true),
+    showShortcuts: () => setShowShortcuts(true),
+  };
+  // Modals own the keyboard while open
+  useShortcuts(shortcutBindings, shortcutHandlers, !showShortcuts && !showPalette && !showStats && !showSmartPlaylist && !pendingImport);
+
+  useEffect(() => {
+    saveSetting(SHORTCUTS_KEY, shortcutBindings);
+  }, [shortcutBindings]);
+
+  const paletteCommands: PaletteCommand[] = [
+    ...SHORTCUT_ACTIONS.filter(action => action.id !== 'commandPalette').map(action => ({
+      id: action.id,
+      label: t(action.labelKey),
+      hint: shortcutBindings[action.id] ? formatCombo(shortcutBindings[action.id], t) : undefined,
+      run: shortcutHandlers[action.id],
+    })),
+    { id: 'clearQueue', label: t('command.clearQueue'), run: () => setQueue([]) },
+    { id: 'showLibrary', label: t('command.showLibrary'), run: () => setActiveListId(LIBRARY_ID) },
+    { id: 'showStats', label: t('command.showStats'), run: () => setShowStats(true) },
+    { id: 'smartPlaylist', label: t('command.smartPlaylist'), run: () => setShowSmartPlaylist(true) },
+    ...playlists.map(p => ({ id: `playlist:${p.id}`, label: t('command.openPlaylist', { name: p.name }), run: () => setActiveListId(p.id) })),
+  ];
+
+  const exportHistory = (format: HistoryFormat) => {
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(new Blob([serializeHistory(format, plays)], { type: `${type};charset=utf-8` }), `${t('stats.exportFileName', { date })}.${format}`);
+  };
+
+  // Tracks picked outside any list view play in the context of the library
+  const playFromLibrary = (track: Track) => {
+    setPlayingListId(LIBRARY_ID);
+    setListCursorId(track.id);
+    if (isShuffle) setShuffleOrder(arrangeCycle(createShuffleOrder(library.map(item => item.id), track.id)));
+    playTrack(track);
+  };
+
+  // Volume
+  useEffect(() => {
+    engine.setVolume(isMuted ? 0 : volume);
+  }, [engine, volume, isMuted]);
+
+  useEffect(() => {
+    engine.setCrossfade(playbackSettings.crossfade);
+    saveSetting(PLAYBACK_KEY, playbackSettings);
+  }, [engine, playbackSettings]);
+
+  // Loudness normalization: measure untagged tracks only while it is in use
+  const { pendingCount: loudnessPending } = useLoudnessAnalysis(library, setLibrary, playbackSettings.replayGain !== 'off');
+  const albumGains = useMemo(() => computeAlbumGains(library), [library]);
+
+  // Tempo, key and energy for sorting, smooth shuffle and the AI; paused while importing
+  useAudioFeatures(library, setLibrary, !isImporting);
+
+  // Seek bar waveform, decoded once per track and kept on it
+  useWaveform(currentTrack, setLibrary);
+
+  useEffect(() => {
+    const { replayGain, preAmp } = playbackSettings;
+    // Resolve by id: the engine holds the Track it loaded, which predates any analysis result
+    engine.setTrackGain(replayGain === 'off' ? null : (track) => getReplayGain(tracksById.get(track.id) ?? track, replayGain, preAmp, albumGains));
+  }, [engine, playbackSettings, tracksById, albumGains]);
+
+  useEffect(() => {
+    engine.setEffects(effects);
+    saveSetting(EFFECTS_KEY, effects);
+  }, [engine, effects]);
+
+  useEffect(() => {
+    saveSetting(EQ_PRESETS_KEY, eqPresets);
+  }, [eqPresets]);
+
+  useEffect(() => {
+    const { fftSize, smoothing } = visualizerSettings;
+    engine.setAnalyserOptions({ fftSize, smoothing });
+    saveSetting(VISUALIZER_KEY, visualizerSettings);
+  }, [engine, visualizerSettings]);
+
+  useEffect(() => {
+    engine.setTempo(tempo);
+    saveSetting(TEMPO_KEY, tempo);
+  }, [engine, tempo]);
+
+  useEffect(() => {
+    saveSetting(LIST_VIEW_KEY, listView);
+  }, [listView]);
+
+  useEffect(() => {
+    saveSetting(AI_KEY, aiSettings);
+  }, [aiSettings]);
+
+  // Lengths for the list and the duration sort
+  useDurationProbe(library, setLibrary);
+
+  // A-B loop: markers belong to one track
+  useEffect(() => {
+    setLoopMarkers({});
+  }, [currentTrackId]);
+
+  useEffect(() => {
+    const { start = 0, end } = loopMarkers;
+    engine.setLoop(end !== undefined ? { start, end } : null);
+  }, [engine, loopMarkers]);
+
+  // Marks the current (or a clicked) position; a B before A swaps the two
+  const setLoopMarker = (marker: keyof LoopRegion, time = engine.getCurrentTime()) => {
+    if (!currentTrack) return;
+    setLoopMarkers(prev => {
+      if (marker === 'start') return { start: time, end: prev.end !== undefined && prev.end > time ? prev.end : undefined };
+      const start = prev.start ?? 0;
+      return time > start ? { start, end: time } : { start: time, end: start };
+    });
+  };
 
-  // Gemini Analysis
-  const analyzePlaylist = async () => {
+  const nudgeLoopMarker = (marker: keyof LoopRegion, delta: number) => {
+    setLoopMarkers(prev => {
+      const value = prev[marker];
+      if (value === undefined) return prev;
+      const min = marker === 'start' ? 0 : (prev.start ?? 0) + MIN_LOOP;
+      const max = marker === 'start' ? (prev.end ?? duration) - MIN_LOOP : duration;
+      return { ...prev, [marker]: Math.max(min, Math.min(max, value + delta)) };
+    });
+  };
+
+  const saveEqPreset = (name: string) => {
+    const preset: EqPreset = { id: crypto.randomUUID(), name, bands: normalizeBands(effects.bands) };
+    setEqPresets(prev => [...prev, preset]);
+    setEffects(prev => ({ ...prev, presetId: preset.id }));
+  };
+
+  const deleteEqPreset = (presetId: string) => {
+    setEqPresets(prev => prev.filter(p => p.id !== presetId));
+    // Keep the curve but show it as custom
+    setEffects(prev => (prev.presetId === presetId ? { ...prev, presetId: null } : prev));
+  };
+
+
+  // AI Analysis
+  const aiLanguage = aiSettings.language === 'auto' ? AI_LANGUAGE_BY_LOCALE[locale] : aiSettings.language;
+
+  const analyzePlaylist = async (mode: AiMode) => {
     if (playlist.length === 0) return;
+    const service = createAiService(aiSettings, process.env.API_KEY);
+    if (!service) {
+      setAiError(t('ai.noGeminiKey'));
+      return;
+    }
+    const listId = activeListId;
     setIsAnalyzing(true);
-    setAiAnalysis("");
+    setAiError(null);
 
     try {
-      // Check for API Key validity before call
-      if (!process.env.API_KEY) {
-        setAiAnalysis("API Key Missing. Cannot analyze.");
-        setIsAnalyzing(false);
-        return;
+      const { analysis, fromCache } = await analyzeTracks(service, mode, playlist, aiLanguage);
+      if (analysis.mode === 'tags') {
+        const tagsById = new Map(analysis.tracks.map(item => [item.trackId, item.tags]));
+        setLibrary(prev => prev.map(track => {
+          const aiTags = tagsById.get(track.id);
+          return aiTags ? { ...track, aiTags } : track;
+        }));
       }
-
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const trackNames = playlist.map(t => t.name).join(", ");
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Analysing the following song list: ${trackNames}. 
-        Provide a short, poetic, and cool description in Chinese (Simple Chinese) about the "vibe" or atmosphere of this playlist. 
-        Are we in a jazz club, a cyberpunk city, or a quiet rainy day? Keep it under 60 words.`,
-      });
-      
-      setAiAnalysis(response.text as string);
+      setAiResult({ listId, analysis, fromCache });
     } catch (error) {
-      console.error("Gemini Error:", error);
-      setAiAnalysis("无法连接到 AI 大脑进行分析 (Connection Error).");
+      console.error("AI Error:", error);
+      setAiError(t('ai.failed', { message: error instanceof Error ? error.message : String(error) }));
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const generateSmartPlaylist = (description: string) => {
+    const service = createAiService(aiSettings, process.env.API_KEY);
+    if (!service) return Promise.reject(new Error(t('ai.noGeminiKey')));
+    return suggestPlaylist(service, description, library, aiLanguage);
+  };
+
+  const saveSmartPlaylist = (name: string, trackIds: string[]) => {
+    handleCreatePlaylist(name, trackIds);
+    setShowSmartPlaylist(false);
+  };
+
+  // The suggested order covers at most MAX_AI_TRACKS; the rest follow as they were
+  const applyAiOrder = (order: string[]) => {
+    const placed = new Set(order);
+    reorderActiveList([...order, ...playlist.filter(track => !placed.has(track.id)).map(track => track.id)]);
+    setListView(prev => ({ ...prev, sort: 'manual', group: 'none' }));
+  };
+
   return (
     <div 
       className="min-h-screen bg-slate-900 text-white overflow-hidden flex flex-col md:flex-row pb-safe" // pb-safe ensures content isn't hidden by iPhone home bar
       onDrop={handleDrop}
       onDragOver={handleDragOver}
     >
-      <audio ref={audioRef} crossOrigin="anonymous" />
-      
+      {showShortcuts && (
+        <ShortcutsOverlay bindings={shortcutBindings} onChange={setShortcutBindings} onClose={() => setShowShortcuts(false)} />
+      )}
+      {pendingImport && (
+        <DuplicatesDialog
+          duplicates={pendingImport.duplicates}
+          total={pendingImport.scanned.audio.length}
+          onSkip={() => resolveDuplicates(false)}
+          onKeepBoth={() => resolveDuplicates(true)}
+          onCancel={cancelImport}
+        />
+      )}
+      {showPalette && (
+        <CommandPalette commands={paletteCommands} tracks={library} onPlayTrack={playFromLibrary} onClose={() => setShowPalette(false)} />
+      )}
+      {showStats && (
+        <StatsDialog
+          plays={plays}
+          tracksById={tracksById}
+          onPlayTrack={playFromLibrary}
+          onExport={exportHistory}
+          onClear={clearHistory}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {showSmartPlaylist && (
+        <SmartPlaylistDialog
+          library={library}
+          tracksById={tracksById}
+          plays={plays}
+          onGenerate={generateSmartPlaylist}
+          onSave={saveSmartPlaylist}
+          onClose={() => setShowSmartPlaylist(false)}
+        />
+      )}
+
       {/* LEFT PANEL: Player & Visuals */}
       <div className="flex-1 relative flex flex-col items-center justify-center p-4 md:p-8 bg-gradient-to-b from-slate-900 via-slate-800 to-black overflow-hidden shrink-0 min-h-[50vh]">
         
         {/* Background Visualizer Layer */}
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-            {analyserRef.current && (
-                <Visualizer analyser={analyserRef.current} isPlaying={isPlaying} />
+            {analyser && (
+                <Visualizer analyser={analyser} isPlaying={isPlaying} mode={visualizerSettings.mode} />
             )}
         </div>
 
-        {/* Vinyl Player - Smaller on mobile */}
-        <div className="z-10 transform scale-75 sm:scale-90 md:scale-100 transition-all">
-          <VinylDisk isPlaying={isPlaying} />
-        </div>
+        {showLyrics ? (
+          <div className="z-10 w-64 h-64 sm:w-80 sm:h-80 md:w-96 md:h-96">
+            <LyricsView lyrics={currentTrack?.lyrics} currentTime={currentTime} onSeek={(time) => engine.seek(time)} />
+          </div>
+        ) : (
+          /* Vinyl Player - Smaller on mobile */
+          <div className="z-10 transform scale-75 sm:scale-90 md:scale-100 transition-all">
+            <VinylDisk isPlaying={isPlaying} coverArt={coverArtUrl} />
+          </div>
+        )}
 
         {/* Track Info (Overlay) */}
         <div className="z-20 mt-4 md:mt-12 text-center max-w-xs md:max-w-md w-full">
             <h1 className="text-xl md:text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-cyan-400 to-purple-400 truncate px-4">
-                {currentTrackIndex !== -1 ? playlist[currentTrackIndex].name : "选择音乐 (Select Music)"}
+                {currentTrack ? getTrackTitle(currentTrack) : t('player.selectMusic')}
             </h1>
+            {currentTrack && getTrackSubtitle(currentTrack) && (
+                <p className="text-sm md:text-base text-gray-300 truncate px-4 mt-1">
+                    {getTrackSubtitle(currentTrack)}
+                </p>
+            )}
             <p className="text-gray-400 mt-2 font-mono text-xs md:text-sm">
-                {currentTrackIndex !== -1 ? `${formatTime(currentTime)} / ${formatTime(duration)}` : "--:-- / --:--"}
+                {currentTrack ? `${formatTime(currentTime)} / ${formatTime(duration)}` : "--:-- / --:--"}
             </p>
         </div>
 
         {/* Main Controls */}
         <div className="z-20 mt-6 md:mt-8 flex flex-col items-center w-full max-w-xs md:max-w-md gap-4 md:gap-6">
             
-            {/* Progress Bar */}
-            <input 
-                type="range" 
-                min="0" 
-                max={duration || 100} 
-                value={currentTime} 
-                onChange={(e) => {
-                    if(audioRef.current) {
-                        audioRef.current.currentTime = Number(e.target.value);
-                    }
-                }}
-                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all touch-none"
+            {/* Seek Bar */}
+            <SeekBar
+                currentTime={currentTime}
+                duration={duration}
+                waveform={currentTrack?.waveform}
+                buffered={engine.getBuffered()}
+                chapters={currentTrack?.chapters}
+                loop={loopMarkers}
+                onSeek={(time) => engine.seek(time)}
+                onSetLoopMarker={setLoopMarker}
             />
 
             {/* Buttons */}
             <div className="flex items-center gap-4 md:gap-8">
                 <button 
-                    onClick={() => setIsShuffle(!isShuffle)}
+                    onClick={toggleShuffle}
                     className={`p-2 rounded-full transition-colors ${isShuffle ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
                 >
                     <Shuffle size={20} />
@@ -309,6 +1079,14 @@ export default function App() {
                     <SkipForward size={28} fill="currentColor" />
                 </button>
 
+                <button 
+                    onClick={() => setRepeatMode(REPEAT_CYCLE[repeatMode])}
+                    title={t(REPEAT_LABELS[repeatMode])}
+                    className={`p-2 rounded-full transition-colors ${repeatMode !== 'off' ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+                >
+                    {repeatMode === 'one' ? <Repeat1 size={20} /> : <Repeat size={20} />}
+                </button>
+
                  <div className="flex items-center gap-2 group relative">
                     <button 
                         onClick={() => setIsMuted(!isMuted)}
@@ -316,8 +1094,8 @@ export default function App() {
                     >
                         {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
                     </button>
-                    {/* Volume Slider visible on hover (desktop) or tap (mobile needs care but good enough for now) */}
-                    <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 hidden group-hover:block bg-gray-800 p-2 rounded shadow-lg z-50">
+                    {/* Volume Slider visible on hover or keyboard focus (desktop) or tap (mobile needs care but good enough for now) */}
+                    <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 hidden group-hover:block group-focus-within:block bg-gray-800 p-2 rounded shadow-lg z-50">
                         <input 
                             type="range" 
                             min="0" 
@@ -331,6 +1109,71 @@ export default function App() {
                     </div>
                  </div>
             </div>
+
+            {/* Secondary Controls */}
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <PracticeControl
+                    tempo={tempo}
+                    onTempoChange={setTempo}
+                    loop={loopMarkers}
+                    onSetMarker={setLoopMarker}
+                    onNudgeMarker={nudgeLoopMarker}
+                    onClearLoop={() => setLoopMarkers({})}
+                />
+                <SleepTimerControl
+                    timer={sleepTimer}
+                    secondsLeft={sleepSecondsLeft}
+                    settings={sleepSettings}
+                    onStart={setSleepTimer}
+                    onCancel={() => setSleepTimer(null)}
+                    onSettingsChange={setSleepSettings}
+                />
+                <CrossfadeControl
+                    seconds={playbackSettings.crossfade}
+                    onChange={(crossfade) => setPlaybackSettings(prev => ({ ...prev, crossfade }))}
+                    smoothShuffle={playbackSettings.smoothShuffle}
+                    onSmoothShuffleChange={(smoothShuffle) => setPlaybackSettings(prev => ({ ...prev, smoothShuffle }))}
+                />
+                <LoudnessControl
+                    mode={playbackSettings.replayGain}
+                    preAmp={playbackSettings.preAmp}
+                    pendingCount={loudnessPending}
+                    onModeChange={(replayGain) => setPlaybackSettings(prev => ({ ...prev, replayGain }))}
+                    onPreAmpChange={(preAmp) => setPlaybackSettings(prev => ({ ...prev, preAmp }))}
+                />
+                <EqualizerPanel
+                    settings={effects}
+                    userPresets={eqPresets}
+                    onChange={setEffects}
+                    onSavePreset={saveEqPreset}
+                    onDeletePreset={deleteEqPreset}
+                />
+                <VisualizerControl settings={visualizerSettings} onChange={setVisualizerSettings} />
+                <button
+                    onClick={() => setShowLyrics(!showLyrics)}
+                    title={showLyrics ? t('player.showVinyl') : t('player.showLyrics')}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${showLyrics ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+                >
+                    <MicVocal size={14} />
+                    {t('player.lyrics')}
+                </button>
+                <button
+                    onClick={() => setShowStats(true)}
+                    title={t('stats.title')}
+                    className="flex items-center gap-1 px-2 py-1 rounded-full text-xs text-gray-500 hover:text-white transition-colors"
+                >
+                    <BarChart3 size={14} />
+                    {t('player.stats')}
+                </button>
+                <button
+                    onClick={() => setShowShortcuts(true)}
+                    title={`${t('shortcuts.title')} (?)`}
+                    className="hidden md:flex items-center px-2 py-1 rounded-full text-xs text-gray-500 hover:text-white transition-colors"
+                >
+                    <Keyboard size={14} />
+                </button>
+                <LanguageControl />
+            </div>
         </div>
       </div>
 
@@ -339,17 +1182,61 @@ export default function App() {
         
         {/* Header */}
         <div className="p-4 md:p-6 border-b border-slate-800 flex justify-between items-center bg-slate-900 sticky top-0 z-40">
-            <h2 className="text-lg md:text-xl font-bold flex items-center gap-2 text-white">
-                <Music size={20} className="text-cyan-400" />
-                播放列表
-            </h2>
-            <div className="flex gap-2">
-                 <label className="cursor-pointer px-3 py-2 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors text-xs font-bold text-white flex items-center gap-1 shadow-md active:scale-95">
-                    <Upload size={14} />
-                    导入歌曲
+            <PlaylistSwitcher
+                playlists={playlists}
+                activeListId={activePlaylist ? activePlaylist.id : LIBRARY_ID}
+                libraryCount={library.length}
+                onSelect={setActiveListId}
+                onCreate={handleCreatePlaylist}
+                onCreateSmart={() => setShowSmartPlaylist(true)}
+                onRename={handleRenamePlaylist}
+                onDuplicate={handleDuplicatePlaylist}
+                onDelete={handleDeletePlaylist}
+                onExport={exportActiveList}
+                isExporting={isExporting}
+                onImportFiles={importFiles}
+            />
+            <div className="flex gap-2 shrink-0">
+                 <button
+                    onClick={() => setShowQueue(!showQueue)}
+                    title={t('queue.title')}
+                    className={`relative px-2 py-2 rounded-md transition-colors ${showQueue ? 'text-cyan-400 bg-white/10' : 'text-gray-400 hover:text-white'}`}
+                 >
+                    <ListOrdered size={14} />
+                    {queue.length > 0 && (
+                        <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-cyan-500 text-[10px] leading-4 text-black font-bold">
+                            {queue.length}
+                        </span>
+                    )}
+                 </button>
+                 {library.length > 0 && (
+                    <button
+                        onClick={handleClearLibrary}
+                        title={t('library.clear')}
+                        className="px-2 py-2 text-gray-500 hover:text-red-400 rounded-md transition-colors"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                 )}
+                 <label
+                    title={t('library.importFolder')}
+                    className="cursor-pointer px-2 py-2 text-gray-400 hover:text-white rounded-md transition-colors"
+                 >
+                    <FolderOpen size={14} />
+                    <input
+                        type="file"
+                        multiple
+                        onChange={handleFileSelect}
+                        className="hidden"
+                        {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+                    />
+                 </label>
+                 <label className={`cursor-pointer px-3 py-2 bg-cyan-600 hover:bg-cyan-500 rounded-md transition-colors text-xs font-bold text-white flex items-center gap-1 shadow-md active:scale-95 ${isImporting ? 'opacity-60 pointer-events-none' : ''}`}>
+                    {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                    {isImporting ? t('library.importing') : t('library.import')}
                     <input 
                         type="file" 
-                        accept="audio/*" 
+                        accept={`${AUDIO_ACCEPT},.lrc,${PLAYLIST_ACCEPT}`}
                         multiple 
                         onChange={handleFileSelect} 
                         className="hidden" 
@@ -358,69 +1245,104 @@ export default function App() {
             </div>
         </div>
 
-        {/* Gemini AI Zone */}
-        <div className="p-3 md:p-4 bg-gradient-to-r from-indigo-900/50 to-purple-900/50 border-b border-white/5 shrink-0">
-            <div className="flex justify-between items-center mb-1 md:mb-2">
-                <span className="text-xs font-bold text-indigo-300 uppercase tracking-widest flex items-center gap-1">
-                    <Sparkles size={12} /> AI 氛围
-                </span>
-                <button 
-                    onClick={analyzePlaylist}
-                    disabled={isAnalyzing || playlist.length === 0}
-                    className="text-[10px] md:text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-2 py-1 rounded text-white transition-colors"
-                >
-                    {isAnalyzing ? "分析中..." : "AI 分析"}
+        {importSummary && <ImportSummaryBanner summary={importSummary} onDismiss={dismissImportSummary} />}
+
+        {updateReady && (
+            <div className="px-4 py-2 bg-cyan-900/40 border-b border-cyan-700/40 text-cyan-100 text-xs flex items-center gap-2 shrink-0">
+                <span className="flex-1 leading-relaxed">{t('update.ready')}</span>
+                <button onClick={applyUpdate} className="px-2 py-0.5 rounded bg-cyan-600 hover:bg-cyan-500 font-bold text-white">
+                    {t('update.reload')}
+                </button>
+                <button onClick={dismissUpdate} className="text-cyan-300 hover:text-white">
+                    <X size={14} />
                 </button>
             </div>
-            <p className="text-xs md:text-sm text-gray-300 italic min-h-[30px] md:min-h-[40px] leading-relaxed line-clamp-2 md:line-clamp-none">
-                {aiAnalysis || (playlist.length === 0 ? "添加音乐以启用 AI 分析..." : "点击 AI 按钮解读歌单。")}
-            </p>
-        </div>
+        )}
+
+        {importError && (
+            <div className="px-4 py-2 bg-amber-900/40 border-b border-amber-700/40 text-amber-200 text-xs flex items-start gap-2 shrink-0">
+                <span className="flex-1 leading-relaxed">{t(importError)}</span>
+                <button onClick={dismissImportError} className="text-amber-300 hover:text-white">
+                    <X size={14} />
+                </button>
+            </div>
+        )}
+
+        {storageError && (
+            <div className="px-4 py-2 bg-amber-900/40 border-b border-amber-700/40 text-amber-200 text-xs flex items-start gap-2 shrink-0">
+                <span className="flex-1 leading-relaxed">{t(storageError)}</span>
+                <button onClick={dismissStorageError} className="text-amber-300 hover:text-white">
+                    <X size={14} />
+                </button>
+            </div>
+        )}
+
+        {/* AI Zone */}
+        <AiPanel
+            settings={aiSettings}
+            onSettingsChange={setAiSettings}
+            result={aiResult?.listId === activeListId ? aiResult : null}
+            error={aiError}
+            isAnalyzing={isAnalyzing}
+            trackCount={playlist.length}
+            onAnalyze={analyzePlaylist}
+            onApplyOrder={applyAiOrder}
+        />
 
         {/* List */}
-        <div className="flex-1 overflow-y-auto no-scrollbar p-2">
-            {playlist.length === 0 ? (
+        {showQueue ? (
+            <QueuePanel
+                currentTrack={currentTrack}
+                queue={queuedTracks}
+                upcoming={upcomingTracks}
+                listName={playingListName}
+                onPlayQueued={playQueued}
+                onRemoveQueued={removeQueued}
+                onClearQueue={() => setQueue([])}
+                onPlayUpcoming={(trackId) => {
+                    const track = tracksById.get(trackId);
+                    if (track) playListTrack(track);
+                }}
+            />
+        ) : playlist.length === 0 ? (
+            <div className="flex-1 overflow-y-auto no-scrollbar p-2">
                 <div className="h-full flex flex-col items-center justify-center text-gray-500 border-2 border-dashed border-gray-700 rounded-xl m-4 p-4 text-center">
                     <Upload size={32} className="mb-2 opacity-50" />
-                    <p className="text-sm">点击右上角“导入”</p>
-                    <p className="text-xs mt-1 text-gray-600">或在电脑上拖入文件</p>
+                    {activePlaylist && library.length > 0 ? (
+                        <>
+                            <p className="text-sm">{t('empty.playlist')}</p>
+                            <p className="text-xs mt-1 text-gray-600">{t('empty.playlistHint')}</p>
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-sm">{t('empty.library')}</p>
+                            <p className="text-xs mt-1 text-gray-600">{t('empty.libraryHint')}</p>
+                        </>
+                    )}
                 </div>
-            ) : (
-                <ul className="space-y-1 pb-4">
-                    {playlist.map((track, index) => (
-                        <li 
-                            key={track.id}
-                            onClick={() => playTrack(index)}
-                            className={`
-                                group flex items-center justify-between p-3 rounded-lg cursor-pointer transition-all border border-transparent
-                                ${currentTrackIndex === index 
-                                    ? 'bg-white/10 border-cyan-500/30 shadow-[0_0_15px_rgba(0,0,0,0.3)]' 
-                                    : 'hover:bg-white/5 hover:border-white/10'}
-                            `}
-                        >
-                            <div className="flex items-center gap-3 overflow-hidden">
-                                <span className={`text-xs font-mono w-4 text-center ${currentTrackIndex === index ? 'text-cyan-400' : 'text-gray-600'}`}>
-                                    {currentTrackIndex === index ? <div className="w-2 h-2 rounded-full bg-cyan-400 animate-pulse mx-auto"/> : index + 1}
-                                </span>
-                                <span className={`truncate text-sm font-medium ${currentTrackIndex === index ? 'text-white' : 'text-gray-300'}`}>
-                                    {track.name}
-                                </span>
-                            </div>
-                            <button 
-                                onClick={(e) => removeTrack(e, index)}
-                                className="md:opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-opacity p-2 md:p-1"
-                            >
-                                <Trash2 size={16} />
-                            </button>
-                        </li>
-                    ))}
-                </ul>
-            )}
-        </div>
+            </div>
+        ) : (
+            <TrackList
+                key={activeListId}
+                tracks={playlist}
+                view={listView}
+                onViewChange={setListView}
+                currentTrackId={currentTrackId}
+                playlists={playlists}
+                removeLabel={activePlaylist ? t('library.removeFromPlaylist') : t('library.deleteFromLibrary')}
+                onPlay={playFromList}
+                onReorder={reorderActiveList}
+                onRemove={removeTracks}
+                onPlayNext={playNext}
+                onAddToQueue={addToQueue}
+                onTogglePlaylist={toggleTrackInPlaylist}
+                onCreatePlaylistWith={createPlaylistWithTrack}
+            />
+        )}
         
         {/* Footer info */}
         <div className="p-2 text-center text-[10px] text-gray-600 border-t border-slate-800 bg-slate-900 shrink-0">
-             {playlist.length} 首歌曲
+             {t('library.trackCount', { count: playlist.length })}
         </div>
 
       </div>
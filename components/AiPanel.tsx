@@ -0,0 +1,245 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Sparkles, Settings2 } from 'lucide-react';
+import { AiMode, AiLanguage, AiProviderId, AiSettings, PlaylistAnalysis, TrackEnergy } from '../types';
+import { MAX_AI_TRACKS } from '../services/aiService';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+export interface AiResult {
+  /** List the analysis was made for */
+  listId: string;
+  analysis: PlaylistAnalysis;
+  fromCache: boolean;
+}
+
+interface AiPanelProps {
+  settings: AiSettings;
+  onSettingsChange: (settings: AiSettings) => void;
+  /** Result for the list on screen, if any */
+  result: AiResult | null;
+  error: string | null;
+  isAnalyzing: boolean;
+  trackCount: number;
+  onAnalyze: (mode: AiMode) => void;
+  onApplyOrder: (order: string[]) => void;
+}
+
+const MODES: { mode: AiMode; labelKey: MessageKey; titleKey: MessageKey }[] = [
+  { mode: 'vibe', labelKey: 'ai.mode.vibe', titleKey: 'ai.mode.vibeHint' },
+  { mode: 'tags', labelKey: 'ai.mode.tags', titleKey: 'ai.mode.tagsHint' },
+  { mode: 'flow', labelKey: 'ai.mode.flow', titleKey: 'ai.mode.flowHint' },
+];
+
+const PROVIDERS: { id: AiProviderId; labelKey: MessageKey }[] = [
+  { id: 'gemini', labelKey: 'ai.provider.gemini' },
+  { id: 'openai', labelKey: 'ai.provider.openai' },
+  { id: 'offline', labelKey: 'ai.provider.offline' },
+];
+
+// Language names are written in their own language, so they stay the same whatever the interface uses
+const LANGUAGES: { id: AiLanguage; label: string }[] = [
+  { id: 'zh', label: "中文" },
+  { id: 'en', label: "English" },
+  { id: 'ja', label: "日本語" },
+];
+
+const TOP_TAGS = 8;
+
+const inputClass =
+  "w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500";
+
+const Chips: React.FC<{ items: string[]; className: string }> = ({ items, className }) => (
+  <>
+    {items.map(item => (
+      <span key={item} className={`px-1.5 py-0.5 rounded text-[10px] ${className}`}>{item}</span>
+    ))}
+  </>
+);
+
+const EnergyCurve: React.FC<{ points: TrackEnergy[]; label: string }> = ({ points, label }) => {
+  if (points.length < 2) return null;
+  const coords = points.map((point, i) => `${(i / (points.length - 1)) * 100},${(1 - point.energy) * 22 + 1}`).join(' ');
+  return (
+    <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="w-full h-6 mt-2" aria-label={label}>
+      <polyline points={coords} fill="none" stroke="currentColor" strokeWidth="1.5" vectorEffect="non-scaling-stroke" className="text-indigo-300" />
+    </svg>
+  );
+};
+
+const topTags = (tracks: { tags: string[] }[]) => {
+  const counts = new Map<string, number>();
+  for (const track of tracks) for (const tag of track.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, TOP_TAGS).map(([tag]) => tag);
+};
+
+/** The AI strip at the top of the side panel: mode, provider settings and the result. */
+export const AiPanel: React.FC<AiPanelProps> = ({
+  settings,
+  onSettingsChange,
+  result,
+  error,
+  isAnalyzing,
+  trackCount,
+  onAnalyze,
+  onApplyOrder,
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<AiMode>(result?.analysis.mode ?? 'vibe');
+  const [showSettings, setShowSettings] = useState(false);
+  const settingsRef = useRef<HTMLDivElement>(null);
+
+  const closeSettings = useCallback(() => setShowSettings(false), []);
+  useClickOutside(settingsRef, showSettings, closeSettings);
+
+  const update = (patch: Partial<AiSettings>) => onSettingsChange({ ...settings, ...patch });
+  const analysis = result?.analysis;
+
+  const renderResult = () => {
+    if (error) return <p className="text-xs text-red-300">{error}</p>;
+    if (!analysis) {
+      return (
+        <p className="text-xs md:text-sm text-gray-300 italic">
+          {trackCount === 0 ? t('ai.emptyLibrary') : t('ai.prompt')}
+        </p>
+      );
+    }
+    switch (analysis.mode) {
+      case 'vibe':
+        return (
+          <>
+            <p className="text-xs md:text-sm text-gray-300 italic leading-relaxed line-clamp-2 md:line-clamp-none">{analysis.summary}</p>
+            <div className="mt-2 flex flex-wrap gap-1">
+              <Chips items={analysis.mood} className="bg-indigo-500/20 text-indigo-200" />
+              <Chips items={analysis.genres} className="bg-purple-500/20 text-purple-200" />
+            </div>
+            <EnergyCurve points={analysis.energyCurve} label={t('ai.energyCurve')} />
+          </>
+        );
+      case 'tags':
+        return (
+          <>
+            <p className="text-xs text-gray-300">{t('ai.tagged', { count: analysis.tracks.length })}</p>
+            <div className="mt-2 flex flex-wrap gap-1">
+              <Chips items={topTags(analysis.tracks)} className="bg-indigo-500/20 text-indigo-200" />
+            </div>
+          </>
+        );
+      case 'flow':
+        return (
+          <>
+            <p className="text-xs md:text-sm text-gray-300 italic leading-relaxed line-clamp-2 md:line-clamp-none">{analysis.summary}</p>
+            <button
+              onClick={() => onApplyOrder(analysis.order)}
+              className="mt-2 text-[10px] md:text-xs bg-indigo-600/60 hover:bg-indigo-500 px-2 py-1 rounded text-white transition-colors"
+            >
+              {t('ai.applyOrder', { count: analysis.order.length })}
+            </button>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="p-3 md:p-4 bg-gradient-to-r from-indigo-900/50 to-purple-900/50 border-b border-white/5 shrink-0">
+      <div className="flex justify-between items-center gap-2 mb-1 md:mb-2">
+        <span className="text-xs font-bold text-indigo-300 uppercase tracking-widest flex items-center gap-1 shrink-0">
+          <Sparkles size={12} /> {t('ai.title')}
+        </span>
+        <div className="flex items-center gap-1">
+          <div className="flex rounded bg-black/20 p-0.5">
+            {MODES.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                title={t(option.titleKey)}
+                className={`px-1.5 py-0.5 rounded text-[10px] transition-colors ${mode === option.mode ? 'bg-indigo-600 text-white' : 'text-indigo-200/70 hover:text-white'}`}
+              >
+                {t(option.labelKey)}
+              </button>
+            ))}
+          </div>
+
+          <div ref={settingsRef} className="relative">
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              title={t('ai.settings')}
+              className={`p-1 rounded transition-colors ${showSettings ? 'text-white bg-white/10' : 'text-indigo-200/70 hover:text-white'}`}
+            >
+              <Settings2 size={14} />
+            </button>
+            {showSettings && (
+              <div className="absolute top-full mt-2 right-0 w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 p-3 space-y-3 text-xs text-gray-300">
+                <div className="space-y-1">
+                  <div className="text-gray-400">{t('ai.service')}</div>
+                  {PROVIDERS.map(provider => (
+                    <label key={provider.id} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={settings.provider === provider.id}
+                        onChange={() => update({ provider: provider.id })}
+                        className="accent-cyan-500"
+                      />
+                      {t(provider.labelKey)}
+                    </label>
+                  ))}
+                </div>
+                {settings.provider === 'openai' && (
+                  <div className="space-y-1.5">
+                    <input
+                      value={settings.endpoint}
+                      onChange={(e) => update({ endpoint: e.target.value })}
+                      placeholder={t('ai.endpointPlaceholder')}
+                      className={inputClass}
+                    />
+                    <input
+                      value={settings.model}
+                      onChange={(e) => update({ model: e.target.value })}
+                      placeholder={t('ai.modelPlaceholder')}
+                      className={inputClass}
+                    />
+                    <input
+                      type="password"
+                      value={settings.apiKey}
+                      onChange={(e) => update({ apiKey: e.target.value })}
+                      placeholder={t('ai.apiKeyPlaceholder')}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <label className="flex items-center justify-between">
+                  <span className="text-gray-400">{t('ai.outputLanguage')}</span>
+                  <select
+                    value={settings.language}
+                    onChange={(e) => update({ language: e.target.value as AiSettings['language'] })}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-cyan-500"
+                  >
+                    <option value="auto">{t('ai.followInterface')}</option>
+                    {LANGUAGES.map(language => (
+                      <option key={language.id} value={language.id}>{language.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={() => onAnalyze(mode)}
+            disabled={isAnalyzing || trackCount === 0}
+            className="text-[10px] md:text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-2 py-1 rounded text-white transition-colors"
+          >
+            {isAnalyzing ? t('ai.analyzing') : t('ai.analyze')}
+          </button>
+        </div>
+      </div>
+
+      <div className="min-h-[30px] md:min-h-[40px]">{renderResult()}</div>
+      {(trackCount > MAX_AI_TRACKS || result?.fromCache) && !error && (
+        <p className="mt-1 text-[10px] text-indigo-200/50">
+          {[trackCount > MAX_AI_TRACKS && t('ai.limited', { count: MAX_AI_TRACKS }), result?.fromCache && t('ai.cached')].filter(Boolean).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, Music, Command } from 'lucide-react';
+import { Track } from '../types';
+import { fuzzyScore } from '../utils/fuzzy';
+import { getTrackTitle } from '../utils/trackInfo';
+import { useI18n } from '../hooks/useI18n';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** Shown on the right, e.g. the key binding */
+  hint?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  tracks: Track[];
+  onPlayTrack: (track: Track) => void;
+  onClose: () => void;
+}
+
+type Result =
+  | { kind: 'command'; key: string; score: number; command: PaletteCommand }
+  | { kind: 'track'; key: string; score: number; track: Track };
+
+const MAX_RESULTS = 50;
+
+/** Ctrl+K palette: fuzzy search over actions and library tracks. */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, tracks, onPlayTrack, onClose }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    const matches: Result[] = [];
+    for (const command of commands) {
+      const score = fuzzyScore(query, command.label);
+      if (score !== null) matches.push({ kind: 'command', key: `c:${command.id}`, score, command });
+    }
+    // Without a query the palette lists actions only; tracks need a search
+    if (query.trim()) {
+      for (const track of tracks) {
+        const text = [getTrackTitle(track), track.artist, track.album].filter(Boolean).join(' · ');
+        const score = fuzzyScore(query, text);
+        if (score !== null) matches.push({ kind: 'track', key: `t:${track.id}`, score, track });
+      }
+      matches.sort((a, b) => b.score - a.score);
+    }
+    return matches.slice(0, MAX_RESULTS);
+  }, [query, commands, tracks]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const run = (result: Result | undefined) => {
+    if (!result) return;
+    onClose();
+    if (result.kind === 'command') result.command.run();
+    else onPlayTrack(result.track);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      setActiveIndex(i => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      setActiveIndex(i => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      run(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-lg flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-slate-700">
+          <Search size={16} className="text-gray-500 shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 bg-transparent py-3 text-sm text-white outline-none placeholder:text-gray-500"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-center text-xs text-gray-500">{t('palette.noResults')}</p>
+        ) : (
+          <ul ref={listRef} className="max-h-[50vh] overflow-y-auto no-scrollbar py-1">
+            {results.map((result, index) => (
+              <li
+                key={result.key}
+                onClick={() => run(result)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-sm ${index === activeIndex ? 'bg-white/10 text-white' : 'text-gray-300'}`}
+              >
+                {result.kind === 'command' ? (
+                  <>
+                    <Command size={14} className="text-gray-500 shrink-0" />
+                    <span className="flex-1 truncate">{result.command.label}</span>
+                    {result.command.hint && <span className="font-mono text-[10px] text-gray-500">{result.command.hint}</span>}
+                  </>
+                ) : (
+                  <>
+                    <Music size={14} className="text-cyan-500 shrink-0" />
+                    <span className="flex-1 truncate">
+                      {getTrackTitle(result.track)}
+                      {result.track.artist && <span className="text-gray-500"> · {result.track.artist}</span>}
+                    </span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
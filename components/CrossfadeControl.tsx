@@ -0,0 +1,71 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Blend } from 'lucide-react';
+import { MAX_CROSSFADE } from '../services/audioEngine';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+
+interface CrossfadeControlProps {
+  seconds: number;
+  onChange: (seconds: number) => void;
+  smoothShuffle: boolean;
+  onSmoothShuffleChange: (enabled: boolean) => void;
+}
+
+/**
+ * Popover for the transition between tracks: a slider where 0 is gapless and
+ * anything else an equal-power crossfade, and whether shuffle keeps neighbours alike.
+ */
+export const CrossfadeControl: React.FC<CrossfadeControlProps> = ({ seconds, onChange, smoothShuffle, onSmoothShuffleChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const label = seconds > 0 ? t('crossfade.fading', { count: seconds }) : t('crossfade.gapless');
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={label}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${seconds > 0 ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        <Blend size={14} />
+        {seconds > 0 ? `${seconds}s` : t('crossfade.gaplessShort')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-56 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 p-3">
+          <div className="flex justify-between text-xs text-gray-300 mb-2">
+            <span>{t('crossfade.title')}</span>
+            <span className="font-mono text-cyan-400">{label}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={MAX_CROSSFADE}
+            step="1"
+            value={seconds}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+          <p className="mt-2 text-[10px] text-gray-500 leading-relaxed">{t('crossfade.hint')}</p>
+          <label className="mt-3 pt-3 border-t border-slate-700 flex items-start gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={smoothShuffle}
+              onChange={(e) => onSmoothShuffleChange(e.target.checked)}
+              className="mt-0.5 accent-cyan-500"
+            />
+            <span>
+              {t('crossfade.smoothShuffle')}
+              <span className="block mt-0.5 text-[10px] text-gray-500 leading-relaxed">{t('crossfade.smoothShuffleHint')}</span>
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { DuplicateMatch } from '../services/importer';
+import { getTrackTitle } from '../utils/trackInfo';
+import { useI18n } from '../hooks/useI18n';
+
+interface DuplicatesDialogProps {
+  duplicates: DuplicateMatch[];
+  /** Audio files in the import, duplicates included */
+  total: number;
+  onSkip: () => void;
+  onKeepBoth: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 20;
+
+/** Asks whether files already in the library (or repeated in the import) should be skipped or imported again. */
+export const DuplicatesDialog: React.FC<DuplicatesDialogProps> = ({ duplicates, total, onSkip, onKeepBoth, onCancel }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-md max-h-[80vh] flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-700">
+          <Copy size={16} className="text-amber-400" />
+          <h2 className="text-sm font-bold text-white">{t('duplicates.title', { count: duplicates.length })}</h2>
+        </div>
+
+        <p className="px-4 pt-3 text-xs text-gray-400 leading-relaxed">
+          {t('duplicates.description', { count: total })}
+        </p>
+        <ul className="flex-1 overflow-y-auto no-scrollbar px-4 py-2 space-y-1">
+          {duplicates.slice(0, PREVIEW_LIMIT).map(({ file, existing }) => (
+            <li key={`${file.name}-${file.size}-${file.lastModified}`} className="text-xs">
+              <div className="truncate text-gray-200">{file.name}</div>
+              <div className="truncate text-gray-500">{existing ? t('duplicates.inLibrary', { title: getTrackTitle(existing) }) : t('duplicates.inImport')}</div>
+            </li>
+          ))}
+          {duplicates.length > PREVIEW_LIMIT && (
+            <li className="text-xs text-gray-500">{t('duplicates.more', { count: duplicates.length - PREVIEW_LIMIT })}</li>
+          )}
+        </ul>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-slate-700">
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-md text-xs text-gray-400 hover:text-white">
+            {t('duplicates.cancel')}
+          </button>
+          <button onClick={onKeepBoth} className="px-3 py-1.5 rounded-md text-xs text-gray-200 bg-slate-700 hover:bg-slate-600">
+            {t('duplicates.keepAll')}
+          </button>
+          <button onClick={onSkip} className="px-3 py-1.5 rounded-md text-xs font-bold text-white bg-cyan-600 hover:bg-cyan-500">
+            {t('duplicates.skip')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
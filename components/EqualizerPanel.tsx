@@ -0,0 +1,209 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { SlidersHorizontal, Power, Save, Trash2, RotateCcw } from 'lucide-react';
+import { EffectsSettings, EqPreset } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+import {
+  EQ_FREQUENCIES,
+  EQ_RANGE,
+  TONE_RANGE,
+  BUILT_IN_PRESETS,
+  DEFAULT_EFFECTS,
+  formatFrequency,
+  normalizeBands,
+} from '../utils/equalizer';
+
+interface EqualizerPanelProps {
+  settings: EffectsSettings;
+  userPresets: EqPreset[];
+  onChange: (settings: EffectsSettings) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (presetId: string) => void;
+}
+
+const formatGain = (db: number) => `${db > 0 ? '+' : ''}${db}`;
+
+const ToneSlider: React.FC<{ label: string; value: number; min: number; max: number; step: number; display: string; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  display,
+  onChange,
+}) => (
+  <label className="flex items-center gap-2 text-xs text-gray-400">
+    <span className="w-8 shrink-0">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      onDoubleClick={() => onChange(0)}
+      className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+    />
+    <span className="w-10 text-right font-mono text-gray-300">{display}</span>
+  </label>
+);
+
+/** Popover with the 10-band EQ, presets, tone, balance, limiter and a bypass switch. */
+export const EqualizerPanel: React.FC<EqualizerPanelProps> = ({ settings, userPresets, onChange, onSavePreset, onDeletePreset }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const bands = normalizeBands(settings.bands);
+  const update = (changes: Partial<EffectsSettings>) => onChange({ ...settings, ...changes });
+
+  const setBand = (index: number, gain: number) => {
+    update({ bands: bands.map((value, i) => (i === index ? gain : value)), presetId: null });
+  };
+
+  const selectPreset = (presetId: string) => {
+    const preset = [...BUILT_IN_PRESETS, ...userPresets].find(p => p.id === presetId);
+    if (preset) update({ bands: normalizeBands(preset.bands), presetId: preset.id });
+  };
+
+  const savePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    onSavePreset(name);
+    setPresetName('');
+  };
+
+  const isUserPreset = userPresets.some(p => p.id === settings.presetId);
+  const isActive = settings.enabled && (bands.some(gain => gain !== 0) || settings.bass !== 0 || settings.treble !== 0 || settings.balance !== 0 || settings.limiter);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('eq.title')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${isActive ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        <SlidersHorizontal size={14} />
+        EQ
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-80 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-300">{t('eq.heading')}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onChange({ ...DEFAULT_EFFECTS, enabled: settings.enabled })}
+                title={t('eq.reset')}
+                className="p-1 text-gray-500 hover:text-white"
+              >
+                <RotateCcw size={14} />
+              </button>
+              <button
+                onClick={() => update({ enabled: !settings.enabled })}
+                title={settings.enabled ? t('eq.disable') : t('eq.enable')}
+                className={`p-1 rounded-full transition-colors ${settings.enabled ? 'text-cyan-400' : 'text-gray-500 hover:text-white'}`}
+              >
+                <Power size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className={`space-y-3 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            <div className="flex items-center gap-2">
+              <select
+                value={settings.presetId ?? ''}
+                onChange={(e) => selectPreset(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-cyan-500"
+              >
+                {settings.presetId === null && <option value="">{t('eq.custom')}</option>}
+                <optgroup label={t('eq.builtIn')}>
+                  {BUILT_IN_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{t(preset.nameKey)}</option>
+                  ))}
+                </optgroup>
+                {userPresets.length > 0 && (
+                  <optgroup label={t('eq.myPresets')}>
+                    {userPresets.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              {isUserPreset && settings.presetId && (
+                <button
+                  onClick={() => onDeletePreset(settings.presetId as string)}
+                  title={t('eq.deletePreset')}
+                  className="p-1 text-gray-500 hover:text-red-400"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+
+            <div className="flex justify-between">
+              {EQ_FREQUENCIES.map((frequency, i) => (
+                <div key={frequency} className="flex flex-col items-center gap-1 w-6">
+                  <span className="text-[9px] font-mono text-gray-400">{formatGain(bands[i])}</span>
+                  <input
+                    type="range"
+                    min={-EQ_RANGE}
+                    max={EQ_RANGE}
+                    step="1"
+                    value={bands[i]}
+                    onChange={(e) => setBand(i, Number(e.target.value))}
+                    onDoubleClick={() => setBand(i, 0)}
+                    title={`${formatFrequency(frequency)}Hz`}
+                    className="h-24 w-1 appearance-none bg-gray-600 rounded accent-cyan-500 cursor-pointer"
+                    style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                  />
+                  <span className="text-[9px] text-gray-500">{formatFrequency(frequency)}</span>
+                </div>
+              ))}
+            </div>
+
+            <form onSubmit={savePreset} className="flex gap-2">
+              <input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder={t('eq.savePlaceholder')}
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500"
+              />
+              <button type="submit" disabled={!presetName.trim()} title={t('eq.savePreset')} className="p-1 text-gray-400 hover:text-cyan-400 disabled:opacity-40">
+                <Save size={14} />
+              </button>
+            </form>
+
+            <div className="border-t border-slate-700 pt-3 space-y-2">
+              <ToneSlider label={t('eq.bass')} value={settings.bass} min={-TONE_RANGE} max={TONE_RANGE} step={1} display={`${formatGain(settings.bass)}dB`} onChange={(bass) => update({ bass })} />
+              <ToneSlider label={t('eq.treble')} value={settings.treble} min={-TONE_RANGE} max={TONE_RANGE} step={1} display={`${formatGain(settings.treble)}dB`} onChange={(treble) => update({ treble })} />
+              <ToneSlider
+                label={t('eq.balance')}
+                value={settings.balance}
+                min={-1}
+                max={1}
+                step={0.05}
+                display={settings.balance === 0 ? t('eq.centered') : `${settings.balance < 0 ? 'L' : 'R'}${Math.round(Math.abs(settings.balance) * 100)}`}
+                onChange={(balance) => update({ balance })}
+              />
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.limiter}
+                  onChange={(e) => update({ limiter: e.target.checked })}
+                  className="accent-cyan-500"
+                />
+                {t('eq.limiter')}
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ImportSummary } from '../hooks/useImporter';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImportSummaryBannerProps {
+  summary: ImportSummary;
+  onDismiss: () => void;
+}
+
+/** One-line report after an import, with unreadable files and unmatched playlist entries listed on demand. */
+export const ImportSummaryBanner: React.FC<ImportSummaryBannerProps> = ({ summary, onDismiss }) => {
+  const { t } = useI18n();
+  const parts = summary.imported > 0 || summary.playlists.length === 0 ? [t('import.imported', { count: summary.imported })] : [];
+  if (summary.duplicatesSkipped > 0) parts.push(t('import.duplicatesSkipped', { count: summary.duplicatesSkipped }));
+  if (summary.duplicatesKept > 0) parts.push(t('import.duplicatesKept', { count: summary.duplicatesKept }));
+  if (summary.lyricsAttached > 0) parts.push(t('import.lyricsAttached', { count: summary.lyricsAttached }));
+  if (summary.unsupported.length > 0) parts.push(t('import.unsupported', { count: summary.unsupported.length }));
+  if (summary.ignoredCount > 0) parts.push(t('import.ignored', { count: summary.ignoredCount }));
+  for (const result of summary.playlists) {
+    if (!result.created) {
+      parts.push(t('import.playlistEmpty', { name: result.name }));
+    } else if (result.unresolved.length > 0) {
+      parts.push(t('import.playlistPartial', { name: result.name, count: result.matched, missing: result.unresolved.length }));
+    } else {
+      parts.push(t('import.playlist', { name: result.name, count: result.matched }));
+    }
+  }
+  // The parts run on as one sentence, so only its first letter is capitalised
+  const text = parts.join(t('common.listSeparator'));
+  const sentence = text.charAt(0).toUpperCase() + text.slice(1);
+
+  return (
+    <div className="px-4 py-2 bg-cyan-900/30 border-b border-cyan-700/30 text-cyan-100 text-xs flex items-start gap-2 shrink-0">
+      <div className="flex-1 leading-relaxed">
+        <span>{t('import.summary', { parts: sentence })}</span>
+        {summary.unsupported.length > 0 && (
+          <details className="mt-1 text-cyan-200/70">
+            <summary className="cursor-pointer">{t('import.showUnsupported')}</summary>
+            <ul className="mt-1 max-h-24 overflow-y-auto no-scrollbar">
+              {summary.unsupported.map((name, i) => (
+                <li key={i} className="truncate">{name}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {summary.playlists.filter(result => result.unresolved.length > 0).map((result, i) => (
+          <details key={i} className="mt-1 text-cyan-200/70">
+            <summary className="cursor-pointer">{t('import.showUnresolved', { name: result.name })}</summary>
+            <ul className="mt-1 max-h-24 overflow-y-auto no-scrollbar">
+              {result.unresolved.map((entry, j) => (
+                <li key={j} className="truncate">{entry}</li>
+              ))}
+            </ul>
+          </details>
+        ))}
+      </div>
+      <button onClick={onDismiss} className="text-cyan-300 hover:text-white">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Languages, Check } from 'lucide-react';
+import { LOCALES, LocalePreference, resolveLocale } from '../i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+/** Popover for the interface language: follow the browser, or one of the shipped locales. */
+export const LanguageControl: React.FC = () => {
+  const { preference, setPreference, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  // Names what 'auto' would pick, which differs from the current locale once one is chosen by hand
+  const detected = resolveLocale('auto');
+  const options: { id: LocalePreference; label: string }[] = [
+    { id: 'auto', label: t('language.auto', { language: LOCALES.find(option => option.id === detected)?.label ?? detected }) },
+    ...LOCALES,
+  ];
+
+  const select = (id: LocalePreference) => {
+    setPreference(id);
+    close();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('language.title')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${isOpen ? 'text-white bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        <Languages size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 right-0 w-48 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 py-1">
+          {options.map(option => (
+            <button
+              key={option.id}
+              onClick={() => select(option.id)}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-left text-gray-200 hover:bg-white/5"
+            >
+              {option.label}
+              {preference === option.id && <Check size={14} className="text-cyan-400" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Gauge, Loader2 } from 'lucide-react';
+import { ReplayGainMode } from '../types';
+import { PRE_AMP_RANGE } from '../utils/replayGain';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+interface LoudnessControlProps {
+  mode: ReplayGainMode;
+  preAmp: number;
+  /** Tracks still waiting for loudness analysis */
+  pendingCount: number;
+  onModeChange: (mode: ReplayGainMode) => void;
+  onPreAmpChange: (preAmp: number) => void;
+}
+
+const MODES: { value: ReplayGainMode; labelKey: MessageKey }[] = [
+  { value: 'off', labelKey: 'common.off' },
+  { value: 'track', labelKey: 'loudness.track' },
+  { value: 'album', labelKey: 'loudness.album' },
+];
+
+/** Popover for ReplayGain: off / per-track / per-album normalization plus a pre-amp. */
+export const LoudnessControl: React.FC<LoudnessControlProps> = ({ mode, preAmp, pendingCount, onModeChange, onPreAmpChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const isAnalyzing = mode !== 'off' && pendingCount > 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('loudness.title')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${mode !== 'off' ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Gauge size={14} />}
+        {mode === 'album' ? t('loudness.album') : mode === 'track' ? t('loudness.track') : t('loudness.button')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-60 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 p-3 space-y-3">
+          <div className="text-xs text-gray-300">{t('loudness.heading')}</div>
+          <div className="grid grid-cols-3 gap-1 bg-slate-900 rounded-md p-1">
+            {MODES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onModeChange(option.value)}
+                className={`py-1 rounded text-xs transition-colors ${mode === option.value ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {t(option.labelKey)}
+              </button>
+            ))}
+          </div>
+          <label className="block text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+              <span>{t('loudness.preAmp')}</span>
+              <span className="font-mono text-gray-300">{preAmp > 0 ? '+' : ''}{preAmp} dB</span>
+            </div>
+            <input
+              type="range"
+              min={-PRE_AMP_RANGE}
+              max={PRE_AMP_RANGE}
+              step="0.5"
+              value={preAmp}
+              disabled={mode === 'off'}
+              onChange={(e) => onPreAmpChange(Number(e.target.value))}
+              onDoubleClick={() => onPreAmpChange(0)}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
+            />
+          </label>
+          <p className="text-[10px] text-gray-500 leading-relaxed">
+            {isAnalyzing
+              ? t('loudness.analyzing', { count: pendingCount })
+              : t('loudness.hint')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useRef, useEffect, useMemo } from 'react';
+import { parseLyrics, findActiveLine } from '../utils/lrc';
+import { useI18n } from '../hooks/useI18n';
+
+interface LyricsViewProps {
+  lyrics?: string;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// After the user scrolls by hand, leave the view alone for a while
+const MANUAL_SCROLL_PAUSE = 3000;
+
+/** Scrolling lyrics for the current track. Synced lines follow playback and seek on click. */
+export const LyricsView: React.FC<LyricsViewProps> = ({ lyrics, currentTime, onSeek }) => {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<(HTMLParagraphElement | null)[]>([]);
+  const manualScrollUntilRef = useRef(0);
+
+  const parsed = useMemo(() => (lyrics ? parseLyrics(lyrics) : null), [lyrics]);
+  const activeIndex = parsed?.synced ? findActiveLine(parsed.lines, currentTime) : -1;
+
+  // New lyrics start from the top
+  useEffect(() => {
+    containerRef.current?.scrollTo({ top: 0 });
+    manualScrollUntilRef.current = 0;
+  }, [parsed]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = lineRefs.current[activeIndex];
+    if (!container || !line || Date.now() < manualScrollUntilRef.current) return;
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [activeIndex]);
+
+  const pauseAutoScroll = () => {
+    manualScrollUntilRef.current = Date.now() + MANUAL_SCROLL_PAUSE;
+  };
+
+  if (!parsed || parsed.lines.length === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-center text-gray-500">
+        <p className="text-sm">{t('lyrics.empty')}</p>
+        <p className="text-xs mt-1 text-gray-600">{t('lyrics.hint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onWheel={pauseAutoScroll}
+      onTouchMove={pauseAutoScroll}
+      className="relative w-full h-full overflow-y-auto no-scrollbar py-[45%] text-center [mask-image:linear-gradient(to_bottom,transparent,black_20%,black_80%,transparent)]"
+    >
+      {parsed.lines.map((line, index) => {
+        const isActive = index === activeIndex;
+        return (
+          <p
+            key={index}
+            ref={(el) => {
+              lineRefs.current[index] = el;
+            }}
+            onClick={parsed.synced ? () => onSeek(line.time) : undefined}
+            className={`px-4 py-1.5 leading-relaxed transition-all duration-300 ${
+              parsed.synced ? 'cursor-pointer hover:text-white' : ''
+            } ${isActive ? 'text-lg md:text-xl font-bold text-white' : 'text-sm md:text-base text-gray-400'}`}
+          >
+            {isActive && line.words
+              ? line.words.map((word, i) => (
+                  <span key={i} className={word.time <= currentTime ? 'text-cyan-300' : undefined}>
+                    {word.text}
+                  </span>
+                ))
+              : line.text || ' '}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
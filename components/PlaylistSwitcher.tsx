@@ -0,0 +1,213 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Music, ChevronDown, Library, ListMusic, Plus, Pencil, Copy, Trash2, Check, Download, FileUp, Loader2, WandSparkles } from 'lucide-react';
+import { Playlist } from '../types';
+import { LIBRARY_ID } from '../utils/playlists';
+import { PLAYLIST_ACCEPT, PLAYLIST_FORMATS, PlaylistFormat } from '../utils/playlistFormats';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+
+interface PlaylistSwitcherProps {
+  playlists: Playlist[];
+  activeListId: string;
+  libraryCount: number;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  /** Opens the smart playlist builder */
+  onCreateSmart: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Exports the list currently shown */
+  onExport: (format: PlaylistFormat) => void;
+  isExporting: boolean;
+  onImportFiles: (files: File[]) => void;
+}
+
+// Sentinel for the "new playlist" input, which shares the rename editor
+const NEW_PLAYLIST = '__new__';
+
+export const PlaylistSwitcher: React.FC<PlaylistSwitcherProps> = ({
+  playlists,
+  activeListId,
+  libraryCount,
+  onSelect,
+  onCreate,
+  onCreateSmart,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  isExporting,
+  onImportFiles,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setEditingId(null);
+  }, []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const activePlaylist = playlists.find(playlist => playlist.id === activeListId);
+
+  const startEditing = (id: string, initialName: string) => {
+    setEditingId(id);
+    setDraftName(initialName);
+  };
+
+  const commitEdit = () => {
+    const name = draftName.trim();
+    if (name) {
+      if (editingId === NEW_PLAYLIST) onCreate(name);
+      else if (editingId) onRename(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  const select = (id: string) => {
+    onSelect(id);
+    close();
+  };
+
+  const renderEditor = () => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        commitEdit();
+      }}
+      className="flex items-center gap-1 px-2 py-1"
+    >
+      <input
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+        placeholder={t('playlist.namePlaceholder')}
+        className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white outline-none focus:border-cyan-500"
+      />
+      <button type="submit" className="p-1 text-cyan-400 hover:text-cyan-300">
+        <Check size={16} />
+      </button>
+    </form>
+  );
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-lg md:text-xl font-bold flex items-center gap-2 text-white min-w-0 hover:text-cyan-100"
+      >
+        <Music size={20} className="text-cyan-400 shrink-0" />
+        <span className="truncate">{activePlaylist ? activePlaylist.name : t('playlist.defaultTitle')}</span>
+        <ChevronDown size={16} className={`shrink-0 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-64 max-h-80 overflow-y-auto no-scrollbar bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 py-1">
+          <button
+            onClick={() => select(LIBRARY_ID)}
+            className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-white/5 ${!activePlaylist ? 'text-cyan-400' : 'text-gray-200'}`}
+          >
+            <Library size={16} />
+            <span className="flex-1">{t('playlist.library')}</span>
+            <span className="text-xs text-gray-500">{libraryCount}</span>
+          </button>
+
+          {playlists.length > 0 && <div className="my-1 border-t border-slate-700" />}
+
+          {playlists.map(playlist =>
+            editingId === playlist.id ? (
+              <div key={playlist.id}>{renderEditor()}</div>
+            ) : (
+              <div
+                key={playlist.id}
+                className={`group flex items-center gap-2 px-3 py-2 text-sm hover:bg-white/5 ${playlist.id === activeListId ? 'text-cyan-400' : 'text-gray-200'}`}
+              >
+                <button onClick={() => select(playlist.id)} className="flex-1 flex items-center gap-2 min-w-0 text-left">
+                  <ListMusic size={16} className="shrink-0" />
+                  <span className="truncate">{playlist.name}</span>
+                  <span className="text-xs text-gray-500">{playlist.trackIds.length}</span>
+                </button>
+                <div className="flex items-center gap-1 md:opacity-0 group-hover:opacity-100 transition-opacity text-gray-400">
+                  <button title={t('playlist.rename')} onClick={() => startEditing(playlist.id, playlist.name)} className="p-1 hover:text-white">
+                    <Pencil size={13} />
+                  </button>
+                  <button title={t('playlist.duplicate')} onClick={() => onDuplicate(playlist.id)} className="p-1 hover:text-white">
+                    <Copy size={13} />
+                  </button>
+                  <button
+                    title={t('playlist.delete')}
+                    onClick={() => {
+                      if (window.confirm(t('playlist.deleteConfirm', { name: playlist.name }))) onDelete(playlist.id);
+                    }}
+                    className="p-1 hover:text-red-400"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+
+          <div className="my-1 border-t border-slate-700" />
+          {editingId === NEW_PLAYLIST ? (
+            renderEditor()
+          ) : (
+            <button
+              onClick={() => startEditing(NEW_PLAYLIST, '')}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-300 hover:bg-white/5 hover:text-white"
+            >
+              <Plus size={16} />
+              {t('playlist.new')}
+            </button>
+          )}
+          <button
+            onClick={() => {
+              close();
+              onCreateSmart();
+            }}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-300 hover:bg-white/5 hover:text-white"
+          >
+            <WandSparkles size={16} />
+            {t('playlist.smart')}
+          </button>
+          <label className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-300 hover:bg-white/5 hover:text-white cursor-pointer">
+            <FileUp size={16} />
+            {t('playlist.importFile')}
+            <input
+              type="file"
+              accept={PLAYLIST_ACCEPT}
+              multiple
+              onChange={(e) => {
+                if (e.target.files && e.target.files.length > 0) {
+                  onImportFiles(Array.from(e.target.files));
+                  e.target.value = '';
+                  close();
+                }
+              }}
+              className="hidden"
+            />
+          </label>
+          <div className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300">
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            <span className="flex-1">{t('playlist.export')}</span>
+            {PLAYLIST_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                disabled={isExporting || (activePlaylist ? activePlaylist.trackIds.length === 0 : libraryCount === 0)}
+                className="px-1.5 py-0.5 rounded border border-slate-600 text-[10px] font-mono text-gray-300 hover:border-cyan-500 hover:text-cyan-400 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
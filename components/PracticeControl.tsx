@@ -0,0 +1,170 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Gauge, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { TempoSettings, LoopRegion } from '../types';
+import { MIN_RATE, MAX_RATE, MAX_SEMITONES } from '../services/audioEngine';
+import { formatLrcTime } from '../utils/lrc';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+
+interface PracticeControlProps {
+  tempo: TempoSettings;
+  onTempoChange: (tempo: TempoSettings) => void;
+  /** Markers set so far; the loop runs once B is set */
+  loop: Partial<LoopRegion>;
+  onSetMarker: (marker: keyof LoopRegion) => void;
+  onNudgeMarker: (marker: keyof LoopRegion, delta: number) => void;
+  onClearLoop: () => void;
+}
+
+const RATE_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// Marker nudge; with Shift held the step is ten times larger
+const NUDGE_STEP = 0.05;
+
+const formatRate = (rate: number) => `${Number(rate.toFixed(2))}×`;
+const formatSemitones = (semitones: number) => (semitones > 0 ? `+${semitones}` : `${semitones}`);
+
+/** Popover for practising along: speed, pitch and the A-B loop. */
+export const PracticeControl: React.FC<PracticeControlProps> = ({
+  tempo,
+  onTempoChange,
+  loop,
+  onSetMarker,
+  onNudgeMarker,
+  onClearLoop,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const isChanged = tempo.rate !== 1 || tempo.semitones !== 0;
+  const isLooping = loop.end !== undefined;
+  const label = [tempo.rate !== 1 && formatRate(tempo.rate), tempo.semitones !== 0 && t('practice.pitchBadge', { semitones: formatSemitones(tempo.semitones) }), isLooping && 'A-B']
+    .filter(Boolean)
+    .join(' ');
+
+  const renderMarker = (marker: keyof LoopRegion, name: string) => (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onSetMarker(marker)}
+        title={t('practice.setMarker', { name })}
+        className="w-7 py-1 rounded bg-slate-900 text-xs font-bold text-gray-200 hover:bg-slate-700"
+      >
+        {name}
+      </button>
+      <button
+        onClick={(e) => onNudgeMarker(marker, e.shiftKey ? -NUDGE_STEP * 10 : -NUDGE_STEP)}
+        disabled={loop[marker] === undefined}
+        title={t('practice.nudgeEarlier')}
+        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+      >
+        <ChevronLeft size={14} />
+      </button>
+      <span className="flex-1 text-center font-mono text-xs text-cyan-400">
+        {loop[marker] !== undefined ? formatLrcTime(loop[marker] as number) : '--:--.--'}
+      </span>
+      <button
+        onClick={(e) => onNudgeMarker(marker, e.shiftKey ? NUDGE_STEP * 10 : NUDGE_STEP)}
+        disabled={loop[marker] === undefined}
+        title={t('practice.nudgeLater')}
+        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+      >
+        <ChevronRight size={14} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('practice.title')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${isChanged || isLooping ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        <Gauge size={14} />
+        {label ? <span className="font-mono">{label}</span> : t('practice.button')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 p-3 space-y-3">
+          <div>
+            <div className="flex justify-between text-xs text-gray-300 mb-2">
+              <span>{t('practice.speed')}</span>
+              <span className="font-mono text-cyan-400">{formatRate(tempo.rate)}</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_RATE}
+              max={MAX_RATE}
+              step="0.05"
+              value={tempo.rate}
+              onChange={(e) => onTempoChange({ ...tempo, rate: Number(e.target.value) })}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+            <div className="mt-2 grid grid-cols-6 gap-1">
+              {RATE_PRESETS.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => onTempoChange({ ...tempo, rate })}
+                  className={`py-0.5 rounded text-[10px] font-mono transition-colors ${tempo.rate === rate ? 'bg-cyan-600 text-white' : 'bg-slate-900 text-gray-400 hover:bg-slate-700'}`}
+                >
+                  {rate}
+                </button>
+              ))}
+            </div>
+            <label className="mt-2 flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={tempo.preservesPitch}
+                onChange={(e) => onTempoChange({ ...tempo, preservesPitch: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              {t('practice.preservePitch')}
+            </label>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-300 mb-2">
+              <span>{t('practice.transpose')}</span>
+              <span className="font-mono text-cyan-400">{t('practice.semitones', { semitones: formatSemitones(tempo.semitones), count: Math.abs(tempo.semitones) })}</span>
+            </div>
+            <input
+              type="range"
+              min={-MAX_SEMITONES}
+              max={MAX_SEMITONES}
+              step="1"
+              value={tempo.semitones}
+              onChange={(e) => onTempoChange({ ...tempo, semitones: Number(e.target.value) })}
+              onDoubleClick={() => onTempoChange({ ...tempo, semitones: 0 })}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-300">
+              <span>{t('practice.loop')}</span>
+              {(loop.start !== undefined || isLooping) && (
+                <button onClick={onClearLoop} title={t('practice.clearLoop')} className="text-gray-500 hover:text-red-400">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+            {renderMarker('start', 'A')}
+            {renderMarker('end', 'B')}
+          </div>
+
+          {isChanged && (
+            <button
+              onClick={() => onTempoChange({ rate: 1, preservesPitch: tempo.preservesPitch, semitones: 0 })}
+              className="w-full py-1 rounded bg-slate-900 text-xs text-gray-300 hover:bg-slate-700"
+            >
+              {t('practice.reset')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { X, ListX } from 'lucide-react';
+import { Track } from '../types';
+import { getTrackTitle } from '../utils/trackInfo';
+import { useI18n } from '../hooks/useI18n';
+
+interface QueuePanelProps {
+  currentTrack?: Track;
+  queue: Track[];
+  // Tracks the playing list will continue with once the queue is empty
+  upcoming: Track[];
+  listName: string;
+  onPlayQueued: (index: number) => void;
+  onRemoveQueued: (index: number) => void;
+  onClearQueue: () => void;
+  onPlayUpcoming: (trackId: string) => void;
+}
+
+const QueueRow: React.FC<{ track: Track; onClick: () => void; children?: React.ReactNode }> = ({ track, onClick, children }) => (
+  <li
+    onClick={onClick}
+    className="group flex items-center justify-between gap-2 p-2 pl-3 rounded-lg cursor-pointer border border-transparent hover:bg-white/5 hover:border-white/10"
+  >
+    <div className="flex flex-col overflow-hidden">
+      <span className="truncate text-sm text-gray-300">{getTrackTitle(track)}</span>
+      {track.artist && <span className="truncate text-xs text-gray-500">{track.artist}</span>}
+    </div>
+    {children}
+  </li>
+);
+
+/** "Up next": the current track, the manual queue, then the rest of the playing list. */
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  currentTrack,
+  queue,
+  upcoming,
+  listName,
+  onPlayQueued,
+  onRemoveQueued,
+  onClearQueue,
+  onPlayUpcoming,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-2 space-y-4">
+      <section>
+        <h3 className="px-3 py-1 text-[10px] uppercase tracking-widest text-gray-500">{t('queue.nowPlaying')}</h3>
+        {currentTrack ? (
+          <div className="p-3 rounded-lg bg-white/10 border border-cyan-500/30">
+            <div className="truncate text-sm font-medium text-white">{getTrackTitle(currentTrack)}</div>
+            {currentTrack.artist && <div className="truncate text-xs text-gray-400">{currentTrack.artist}</div>}
+          </div>
+        ) : (
+          <p className="px-3 text-xs text-gray-600">{t('queue.nothing')}</p>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between px-3 py-1">
+          <h3 className="text-[10px] uppercase tracking-widest text-gray-500">{t('queue.title')} · {queue.length}</h3>
+          {queue.length > 0 && (
+            <button onClick={onClearQueue} title={t('queue.clear')} className="text-gray-500 hover:text-red-400">
+              <ListX size={14} />
+            </button>
+          )}
+        </div>
+        {queue.length === 0 ? (
+          <p className="px-3 text-xs text-gray-600">{t('queue.hint')}</p>
+        ) : (
+          <ul className="space-y-1">
+            {queue.map((track, index) => (
+              <QueueRow key={`${track.id}-${index}`} track={track} onClick={() => onPlayQueued(index)}>
+                <button
+                  title={t('queue.remove')}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemoveQueued(index);
+                  }}
+                  className="md:opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 p-1"
+                >
+                  <X size={14} />
+                </button>
+              </QueueRow>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {upcoming.length > 0 && (
+        <section>
+          <h3 className="px-3 py-1 text-[10px] uppercase tracking-widest text-gray-500 truncate">{t('queue.upNext')} · {listName}</h3>
+          <ul className="space-y-1">
+            {upcoming.map((track, index) => (
+              <QueueRow key={`${track.id}-${index}`} track={track} onClick={() => onPlayUpcoming(track.id)} />
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
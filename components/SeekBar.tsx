@@ -0,0 +1,213 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Chapter, LoopRegion } from '../types';
+import { formatTime } from '../utils/formatTime';
+import { useI18n } from '../hooks/useI18n';
+
+interface SeekBarProps {
+  currentTime: number;
+  /** 0 while nothing is loaded; the bar is inert until the length is known */
+  duration: number;
+  /** Peaks from useWaveform; a flat bar is drawn until they arrive */
+  waveform?: number[];
+  buffered: [number, number][];
+  chapters?: Chapter[];
+  loop: Partial<LoopRegion>;
+  onSeek: (time: number) => void;
+  /** Shift / Alt + click */
+  onSetLoopMarker: (marker: keyof LoopRegion, time: number) => void;
+}
+
+// Bar pitch in CSS pixels: 2px bars with a 1px gap
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+// Quietest slices still get a visible sliver
+const MIN_BAR = 0.08;
+const KEY_STEP = 5;
+
+const PLAYED = '#22d3ee'; // cyan-400
+const BUFFERED = '#64748b'; // slate-500
+const UNBUFFERED = '#334155'; // slate-700
+
+const chapterAt = (chapters: Chapter[] | undefined, time: number) => {
+  let found: Chapter | undefined;
+  for (const chapter of chapters ?? []) {
+    if (chapter.time > time) break;
+    found = chapter;
+  }
+  return found;
+};
+
+/**
+ * Waveform seek bar. Dragging previews the position and seeks on release, so
+ * scrubbing doesn't flood the decoder; hovering shows the time (and chapter)
+ * under the pointer. Also reachable by keyboard as a slider.
+ */
+export const SeekBar: React.FC<SeekBarProps> = ({
+  currentTime,
+  duration,
+  waveform,
+  buffered,
+  chapters,
+  loop,
+  onSeek,
+  onSetLoopMarker,
+}) => {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0, dpr: 1 });
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  // Position under the finger / mouse while dragging, shown instead of currentTime
+  const [dragTime, setDragTime] = useState<number | null>(null);
+
+  const isReady = duration > 0;
+  const position = dragTime ?? currentTime;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      setSize({ width, height, dpr: window.devicePixelRatio || 1 });
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Cheap enough to redraw on every render (a few hundred rects)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height, dpr } = size;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const barCount = Math.max(1, Math.floor(width / (BAR_WIDTH + BAR_GAP)));
+    const playedUntil = isReady ? position / duration : 0;
+    const isBuffered = (fraction: number) =>
+      buffered.some(([start, end]) => fraction * duration >= start && fraction * duration <= end);
+
+    for (let bar = 0; bar < barCount; bar++) {
+      const from = bar / barCount;
+      const to = (bar + 1) / barCount;
+      let level = MIN_BAR;
+      if (waveform && waveform.length > 0) {
+        const first = Math.floor(from * waveform.length);
+        const last = Math.max(first + 1, Math.ceil(to * waveform.length));
+        for (let i = first; i < last && i < waveform.length; i++) level = Math.max(level, waveform[i]);
+      } else {
+        // No waveform (yet): a thin flat line, like a plain progress bar
+        level = 0.15;
+      }
+      const barHeight = Math.max(2, level * height);
+      ctx.fillStyle = from < playedUntil ? PLAYED : isReady && isBuffered(from) ? BUFFERED : UNBUFFERED;
+      ctx.fillRect(bar * (BAR_WIDTH + BAR_GAP), (height - barHeight) / 2, BAR_WIDTH, barHeight);
+    }
+  });
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isReady || e.button !== 0) return;
+    if (e.shiftKey || e.altKey) {
+      onSetLoopMarker(e.shiftKey ? 'start' : 'end', timeAt(e.clientX));
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!isReady) return;
+    const time = timeAt(e.clientX);
+    if (dragTime !== null) setDragTime(time);
+    // Touch has no hover; the tooltip follows the drag instead
+    if (e.pointerType === 'mouse' || dragTime !== null) setHoverTime(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragTime === null) return;
+    onSeek(timeAt(e.clientX));
+    setDragTime(null);
+    if (e.pointerType !== 'mouse') setHoverTime(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isReady) return;
+    let time: number;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') time = currentTime - KEY_STEP;
+    else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') time = currentTime + KEY_STEP;
+    else if (e.key === 'Home') time = 0;
+    else if (e.key === 'End') time = duration;
+    else return;
+    // Keep the global seek shortcuts from acting on the same key
+    e.preventDefault();
+    onSeek(Math.max(0, Math.min(duration, time)));
+  };
+
+  const percent = (time: number) => `${(time / duration) * 100}%`;
+  const tooltipChapter = hoverTime !== null ? chapterAt(chapters, hoverTime) : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      role="slider"
+      tabIndex={isReady ? 0 : -1}
+      aria-label={t('seek.label')}
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(position)}
+      aria-valuetext={`${formatTime(position)} / ${formatTime(duration)}`}
+      title={isReady ? t('seek.loopHint') : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDragTime(null)}
+      onPointerLeave={() => dragTime === null && setHoverTime(null)}
+      onKeyDown={handleKeyDown}
+      className={`relative w-full h-10 md:h-12 touch-none select-none outline-none rounded focus-visible:ring-1 focus-visible:ring-cyan-500 ${isReady ? 'cursor-pointer' : 'opacity-50'}`}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      {isReady && loop.end !== undefined && (
+        <div
+          className="absolute inset-y-0 bg-amber-400/15 border-x-2 border-amber-400 pointer-events-none"
+          style={{ left: percent(loop.start ?? 0), width: percent(loop.end - (loop.start ?? 0)) }}
+        />
+      )}
+      {isReady && loop.start !== undefined && loop.end === undefined && (
+        <div className="absolute inset-y-0 w-0.5 bg-amber-400 pointer-events-none" style={{ left: percent(loop.start) }} />
+      )}
+
+      {isReady && chapters?.filter(chapter => chapter.time > 0 && chapter.time < duration).map((chapter, i) => (
+        <div
+          key={i}
+          className="absolute -top-1 w-px h-2 bg-white/70 pointer-events-none"
+          style={{ left: percent(chapter.time) }}
+        />
+      ))}
+
+      {isReady && hoverTime !== null && (
+        <>
+          <div className="absolute inset-y-0 w-px bg-white/60 pointer-events-none" style={{ left: percent(hoverTime) }} />
+          <div
+            className="absolute bottom-full mb-1 -translate-x-1/2 px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-[10px] text-gray-200 whitespace-nowrap pointer-events-none"
+            style={{ left: `clamp(2rem, ${percent(hoverTime)}, calc(100% - 2rem))` }}
+          >
+            <span className="font-mono">{formatTime(hoverTime)}</span>
+            {tooltipChapter?.title && <span className="ml-1 text-gray-400">{tooltipChapter.title}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { ShortcutAction, ShortcutBindings, SHORTCUT_ACTIONS, DEFAULT_BINDINGS, eventToCombo, formatCombo } from '../utils/shortcuts';
+import { useI18n } from '../hooks/useI18n';
+
+interface ShortcutsOverlayProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+/** The "?" overlay: lists every shortcut and lets the user rebind them. */
+export const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ bindings, onChange, onClose }) => {
+  const { t } = useI18n();
+  // Action waiting for its new key
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      // A key can only do one thing: take it away from whichever action had it
+      const next = { ...bindings };
+      (Object.keys(next) as ShortcutAction[]).forEach(action => {
+        if (next[action] === combo) next[action] = '';
+      });
+      next[recording] = combo;
+      onChange(next);
+      setRecording(null);
+    };
+    // Capture phase, so the global shortcuts don't also react to the key being recorded
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[80vh] flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h2 className="text-sm font-bold text-white">{t('shortcuts.title')}</h2>
+          <div className="flex items-center gap-1">
+            <button onClick={() => onChange(DEFAULT_BINDINGS)} title={t('shortcuts.reset')} className="p-1 text-gray-500 hover:text-white">
+              <RotateCcw size={14} />
+            </button>
+            <button onClick={onClose} title={t('common.close')} className="p-1 text-gray-500 hover:text-white">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto no-scrollbar py-1">
+          {SHORTCUT_ACTIONS.map(({ id, labelKey }) => (
+            <li key={id} className="flex items-center justify-between px-4 py-2 text-sm text-gray-300">
+              <span>{t(labelKey)}</span>
+              <button
+                onClick={() => setRecording(recording === id ? null : id)}
+                title={t('shortcuts.rebindHint')}
+                className={`min-w-[64px] px-2 py-1 rounded border font-mono text-xs transition-colors ${
+                  recording === id
+                    ? 'border-cyan-500 text-cyan-400 animate-pulse'
+                    : 'border-slate-600 bg-slate-900 text-gray-200 hover:border-slate-400'
+                }`}
+              >
+                {recording === id ? t('shortcuts.recording') : bindings[id] ? formatCombo(bindings[id], t) : t('shortcuts.unset')}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <p className="px-4 py-2 border-t border-slate-700 text-[10px] text-gray-500">
+          {t('shortcuts.footer')}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { Moon } from 'lucide-react';
+import { SleepTimer, SleepTimerSettings } from '../types';
+import { formatTime } from '../utils/formatTime';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+
+interface SleepTimerControlProps {
+  timer: SleepTimer | null;
+  /** From useSleepTimer; null until the stopping track is playing */
+  secondsLeft: number | null;
+  settings: SleepTimerSettings;
+  onStart: (timer: SleepTimer) => void;
+  onCancel: () => void;
+  onSettingsChange: (settings: SleepTimerSettings) => void;
+}
+
+const PRESET_MINUTES = [15, 30, 60];
+const MAX_FADE = 60;
+const MAX_CUSTOM_MINUTES = 600;
+
+const presetClass = (isActive: boolean) =>
+  `px-2 py-1.5 rounded text-xs transition-colors ${isActive ? 'bg-cyan-600 text-white' : 'bg-slate-900 text-gray-300 hover:bg-slate-700'}`;
+
+/** Popover for the sleep timer; the button doubles as the countdown. */
+export const SleepTimerControl: React.FC<SleepTimerControlProps> = ({
+  timer,
+  secondsLeft,
+  settings,
+  onStart,
+  onCancel,
+  onSettingsChange,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState(String(settings.customMinutes));
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const startIn = (minutes: number) => {
+    onStart({ mode: 'duration', endsAt: Date.now() + minutes * 60_000 });
+    close();
+  };
+
+  const startCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minutes = Math.round(Number(customMinutes));
+    if (!(minutes > 0 && minutes <= MAX_CUSTOM_MINUTES)) return;
+    onSettingsChange({ ...settings, customMinutes: minutes });
+    startIn(minutes);
+  };
+
+  let badge: string | null = null;
+  if (timer) {
+    if (timer.mode === 'duration' || secondsLeft !== null) badge = formatTime(secondsLeft ?? 0);
+    else badge = timer.mode === 'track' ? t('sleep.afterTrackBadge') : t('sleep.afterQueueBadge');
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('sleep.title')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${timer ? 'text-cyan-400 bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        <Moon size={14} />
+        {badge !== null ? <span className="font-mono">{badge}</span> : t('sleep.button')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-60 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 p-3 space-y-3">
+          <div className="flex justify-between text-xs text-gray-300">
+            <span>{t('sleep.title')}</span>
+            {timer && (
+              <button onClick={() => { onCancel(); close(); }} className="text-gray-500 hover:text-red-400">
+                {t('sleep.cancel')}
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-1">
+            {PRESET_MINUTES.map(minutes => (
+              <button key={minutes} onClick={() => startIn(minutes)} className={presetClass(false)}>
+                {t('common.minutes', { count: minutes })}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={() => { onStart({ mode: 'track' }); close(); }} className={presetClass(timer?.mode === 'track')}>
+              {t('sleep.afterTrack')}
+            </button>
+            <button onClick={() => { onStart({ mode: 'queue' }); close(); }} className={presetClass(timer?.mode === 'queue')}>
+              {t('sleep.afterQueue')}
+            </button>
+          </div>
+
+          <form onSubmit={startCustom} className="flex items-center gap-1 text-xs text-gray-300">
+            <input
+              type="number"
+              min="1"
+              max={MAX_CUSTOM_MINUTES}
+              value={customMinutes}
+              onChange={(e) => setCustomMinutes(e.target.value)}
+              className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white outline-none focus:border-cyan-500"
+            />
+            <span className="flex-1">{t('sleep.minutesFromNow')}</span>
+            <button type="submit" className="px-2 py-1 rounded bg-slate-900 hover:bg-slate-700">
+              {t('sleep.start')}
+            </button>
+          </form>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-300 mb-2">
+              <span>{t('sleep.fade')}</span>
+              <span className="font-mono text-cyan-400">{settings.fade > 0 ? t('common.seconds', { count: settings.fade }) : t('common.off')}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={MAX_FADE}
+              step="5"
+              value={settings.fade}
+              onChange={(e) => onSettingsChange({ ...settings, fade: Number(e.target.value) })}
+              className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+            />
+          </div>
+          <p className="text-[10px] text-gray-500 leading-relaxed">{t('sleep.queueHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, WandSparkles, Loader2 } from 'lucide-react';
+import { Track, GeneratedPlaylist, SmartRules, PlayRecord } from '../types';
+import { MAX_PROMPT_TRACKS } from '../services/aiService';
+import { DEFAULT_SMART_RULES, applySmartRules, describeSmartRules, getGenres } from '../utils/smartRules';
+import { lastPlayedAt } from '../utils/playStats';
+import { getTrackTitle, getTrackSubtitle } from '../utils/trackInfo';
+import { formatTime } from '../utils/formatTime';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+interface SmartPlaylistDialogProps {
+  library: Track[];
+  tracksById: Map<string, Track>;
+  /** For the "not played in" rule */
+  plays: PlayRecord[];
+  onGenerate: (description: string) => Promise<GeneratedPlaylist>;
+  onSave: (name: string, trackIds: string[]) => void;
+  onClose: () => void;
+}
+
+type Source = 'ai' | 'rules';
+
+const EXAMPLES: MessageKey[] = ['smart.example.rainyNight', 'smart.example.running', 'smart.example.weekendCafe'];
+
+const inputClass =
+  "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-cyan-500";
+
+// '' in a number field means the rule is off
+const parseLimit = (value: string): number | null => {
+  const number = parseInt(value, 10);
+  return isFinite(number) && number > 0 ? number : null;
+};
+
+/**
+ * Builds a playlist from a description (through the configured AI service) or
+ * from simple rules, then lets the tracks be reviewed before saving.
+ */
+export const SmartPlaylistDialog: React.FC<SmartPlaylistDialogProps> = ({
+  library,
+  tracksById,
+  plays,
+  onGenerate,
+  onSave,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [source, setSource] = useState<Source>('ai');
+  const [description, setDescription] = useState('');
+  const [rules, setRules] = useState<SmartRules>(DEFAULT_SMART_RULES);
+  const [draft, setDraft] = useState<GeneratedPlaylist | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignores answers to a request that was superseded
+  const requestRef = useRef(0);
+
+  const genres = useMemo(() => getGenres(library), [library]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const generate = async () => {
+    if (!description.trim()) return;
+    const request = ++requestRef.current;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result = await onGenerate(description);
+      if (request !== requestRef.current) return;
+      setDraft(result);
+      if (result.trackIds.length === 0) setError(t('smart.noMatchesForDescription'));
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      setError(t('smart.generateFailed', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      if (request === requestRef.current) setIsGenerating(false);
+    }
+  };
+
+  const previewRules = () => {
+    requestRef.current++;
+    setIsGenerating(false);
+    const matches = applySmartRules(library, rules, lastPlayedAt(plays));
+    setDraft({
+      name: describeSmartRules(rules, t),
+      summary: t('smart.rulesSummary', { count: matches.length }),
+      trackIds: matches.map(track => track.id),
+    });
+    setError(matches.length === 0 ? t('smart.noMatchesForRules') : null);
+  };
+
+  const removeTrack = (trackId: string) => {
+    setDraft(prev => (prev ? { ...prev, trackIds: prev.trackIds.filter(id => id !== trackId) } : prev));
+  };
+
+  // Tracks deleted from the library while the dialog is open drop out
+  const draftTracks = (draft?.trackIds ?? [])
+    .map(id => tracksById.get(id))
+    .filter((track): track is Track => track !== undefined);
+  const canSave = draft !== null && draft.name.trim() !== '' && draftTracks.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h2 className="flex items-center gap-2 text-sm font-bold text-white">
+            <WandSparkles size={16} className="text-indigo-400" /> {t('smart.title')}
+          </h2>
+          <div className="flex items-center gap-1">
+            {([['ai', 'smart.fromDescription'], ['rules', 'smart.fromRules']] as [Source, MessageKey][]).map(([id, labelKey]) => (
+              <button
+                key={id}
+                onClick={() => setSource(id)}
+                className={`px-2 py-0.5 rounded text-xs ${source === id ? 'bg-slate-700 text-white' : 'text-gray-500 hover:text-white'}`}
+              >
+                {t(labelKey)}
+              </button>
+            ))}
+            <button onClick={onClose} title={t('common.close')} className="p-1 text-gray-500 hover:text-white">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-4 py-3 space-y-2 border-b border-slate-700">
+          {source === 'ai' ? (
+            <>
+              <div className="flex gap-2">
+                <input
+                  autoFocus
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') generate();
+                  }}
+                  placeholder={t('smart.descriptionPlaceholder')}
+                  className={`flex-1 ${inputClass}`}
+                />
+                <button
+                  onClick={generate}
+                  disabled={isGenerating || !description.trim() || library.length === 0}
+                  className="flex items-center gap-1 px-3 py-1 rounded text-xs text-white bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50"
+                >
+                  {isGenerating && <Loader2 size={12} className="animate-spin" />}
+                  {isGenerating ? t('smart.generating') : t('smart.generate')}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1 text-[10px]">
+                {EXAMPLES.map(example => (
+                  <button
+                    key={example}
+                    onClick={() => setDescription(t(example))}
+                    className="px-1.5 py-0.5 rounded border border-slate-700 text-gray-400 hover:text-white hover:border-slate-500"
+                  >
+                    {t(example)}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-500">
+                {library.length > MAX_PROMPT_TRACKS
+                  ? t('smart.privacyNoteLimited', { count: MAX_PROMPT_TRACKS })
+                  : t('smart.privacyNote')}
+              </p>
+            </>
+          ) : (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-400">
+              <label className="flex items-center gap-2">
+                {t('smart.genre')}
+                <select
+                  value={rules.genre}
+                  onChange={(e) => setRules({ ...rules, genre: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">{t('smart.anyGenre')}</option>
+                  {genres.map(genre => (
+                    <option key={genre} value={genre}>{genre}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                {t('smart.maxMinutesBefore')}
+                <input
+                  type="number"
+                  min={1}
+                  value={rules.maxMinutes ?? ''}
+                  onChange={(e) => setRules({ ...rules, maxMinutes: parseLimit(e.target.value) })}
+                  placeholder={t('smart.noLimit')}
+                  className={`w-16 ${inputClass}`}
+                />
+                {t('smart.maxMinutesAfter')}
+              </label>
+              <label className="flex items-center gap-2">
+                {t('smart.notPlayedBefore')}
+                <input
+                  type="number"
+                  min={1}
+                  value={rules.notPlayedDays ?? ''}
+                  onChange={(e) => setRules({ ...rules, notPlayedDays: parseLimit(e.target.value) })}
+                  placeholder={t('smart.noLimit')}
+                  className={`w-16 ${inputClass}`}
+                />
+                {t('smart.notPlayedAfter')}
+              </label>
+              <button
+                onClick={previewRules}
+                disabled={library.length === 0}
+                className="ml-auto px-3 py-1 rounded text-xs text-white bg-slate-700 hover:bg-slate-600 disabled:opacity-50"
+              >
+                {t('smart.preview')}
+              </button>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-300">{error}</p>}
+        </div>
+
+        {draft && draftTracks.length > 0 && (
+          <>
+            <div className="px-4 pt-3 space-y-1">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t('playlist.namePlaceholder')}
+                className={`w-full ${inputClass} text-sm`}
+              />
+              <p className="text-[11px] text-gray-400 leading-relaxed">
+                {draft.summary}{t('smart.draftNote', { count: draftTracks.length })}
+              </p>
+            </div>
+            <ul className="flex-1 overflow-y-auto no-scrollbar px-4 py-2 space-y-0.5">
+              {draftTracks.map(track => (
+                <li key={track.id} className="group flex items-center gap-2 py-1 text-xs">
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-gray-200">{getTrackTitle(track)}</div>
+                    <div className="truncate text-gray-500">{getTrackSubtitle(track)}</div>
+                  </div>
+                  {track.duration !== undefined && <span className="text-gray-500 tabular-nums">{formatTime(track.duration)}</span>}
+                  <button
+                    onClick={() => removeTrack(track.id)}
+                    title={t('smart.remove')}
+                    className="p-1 text-gray-500 hover:text-red-400 md:opacity-0 group-hover:opacity-100"
+                  >
+                    <X size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-slate-700">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md text-xs text-gray-400 hover:text-white">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => draft && onSave(draft.name.trim(), draftTracks.map(t => t.id))}
+            disabled={!canSave}
+            className="px-3 py-1.5 rounded-md text-xs font-bold text-white bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40"
+          >
+            {t('smart.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
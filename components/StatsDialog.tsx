@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Trash2, Download } from 'lucide-react';
+import { PlayRecord, Track } from '../types';
+import { computeStats, HistoryFormat, PeriodStat } from '../utils/playStats';
+import { useI18n } from '../hooks/useI18n';
+import { Locale, Translate } from '../i18n';
+
+interface StatsDialogProps {
+  plays: PlayRecord[];
+  tracksById: Map<string, Track>;
+  onPlayTrack: (track: Track) => void;
+  onExport: (format: HistoryFormat) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type Period = 'days' | 'weeks';
+
+const formatListened = (seconds: number, t: Translate) => {
+  if (seconds < 60) return t('stats.seconds', { count: Math.round(seconds) });
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return t('stats.minutes', { count: minutes });
+  return t('stats.hoursMinutes', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+const formatDay = (time: number, locale: Locale) =>
+  new Date(time).toLocaleDateString(locale, { month: 'numeric', day: 'numeric' });
+
+const formatPlayedAt = (time: number, locale: Locale) =>
+  new Date(time).toLocaleString(locale, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const Summary: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="rounded-lg bg-slate-900/60 px-3 py-2">
+    <div className="text-[10px] text-gray-500">{label}</div>
+    <div className="mt-0.5 text-sm font-bold text-white">{value}</div>
+  </div>
+);
+
+const PeriodChart: React.FC<{ periods: PeriodStat[]; period: Period }> = ({ periods, period }) => {
+  const { locale, t } = useI18n();
+  const max = Math.max(1, ...periods.map(p => p.listened));
+  return (
+    <div className="flex items-end gap-1 h-28">
+      {periods.map(p => (
+        <div
+          key={p.start}
+          title={t(period === 'weeks' ? 'stats.weekTooltip' : 'stats.dayTooltip', {
+            day: formatDay(p.start, locale),
+            listened: formatListened(p.listened, t),
+          })}
+          className="flex-1 flex flex-col items-center justify-end h-full gap-1"
+        >
+          <div
+            className="w-full rounded-t bg-cyan-500/70 hover:bg-cyan-400"
+            style={{ height: `${(p.listened / max) * 100}%`, minHeight: p.listened > 0 ? 2 : 0 }}
+          />
+          <span className="text-[9px] text-gray-500">{formatDay(p.start, locale)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** Listening history: totals, listening time per day / week, top tracks and artists, recent plays. */
+export const StatsDialog: React.FC<StatsDialogProps> = ({ plays, tracksById, onPlayTrack, onExport, onClear, onClose }) => {
+  const { locale, t } = useI18n();
+  const [period, setPeriod] = useState<Period>('days');
+  const stats = useMemo(() => computeStats(plays, tracksById), [plays, tracksById]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const playTrack = (trackId: string) => {
+    const track = tracksById.get(trackId);
+    if (track) onPlayTrack(track);
+  };
+
+  const topCount = stats.topTracks[0]?.count ?? 1;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+          <h2 className="text-sm font-bold text-white">{t('stats.title')}</h2>
+          <div className="flex items-center gap-1">
+            {(['json', 'csv'] as HistoryFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                disabled={plays.length === 0}
+                title={t('stats.exportAs', { format: format.toUpperCase() })}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+              >
+                <Download size={12} /> {format.toUpperCase()}
+              </button>
+            ))}
+            <button
+              onClick={() => {
+                if (window.confirm(t('stats.clearConfirm'))) onClear();
+              }}
+              disabled={plays.length === 0}
+              title={t('stats.clear')}
+              className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30"
+            >
+              <Trash2 size={14} />
+            </button>
+            <button onClick={onClose} title={t('common.close')} className="p-1 text-gray-500 hover:text-white">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {plays.length === 0 ? (
+          <p className="px-4 py-12 text-center text-xs text-gray-500">{t('stats.empty')}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-5">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <Summary label={t('stats.totalListened')} value={formatListened(stats.totalListened, t)} />
+              <Summary label={t('stats.playCount')} value={stats.playCount.toLocaleString(locale)} />
+              <Summary label={t('stats.skipRate')} value={`${Math.round(stats.skipRate * 100)}%`} />
+              <Summary label={t('stats.tracksHeard')} value={t('common.trackCount', { count: stats.trackCount })} />
+            </div>
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-bold text-gray-300">{t('stats.listeningTime')}</h3>
+                <div className="flex gap-1">
+                  {(['days', 'weeks'] as Period[]).map(p => (
+                    <button
+                      key={p}
+                      onClick={() => setPeriod(p)}
+                      className={`px-2 py-0.5 rounded text-[10px] transition-colors ${period === p ? 'bg-cyan-600 text-white' : 'bg-slate-900 text-gray-400 hover:bg-slate-700'}`}
+                    >
+                      {p === 'days' ? t('stats.byDay') : t('stats.byWeek')}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <PeriodChart periods={stats[period]} period={period} />
+            </section>
+
+            <div className="grid sm:grid-cols-2 gap-5">
+              <section>
+                <h3 className="text-xs font-bold text-gray-300 mb-2">{t('stats.topTracks')}</h3>
+                <ol className="space-y-1">
+                  {stats.topTracks.map((track, i) => (
+                    <li key={track.trackId}>
+                      <button
+                        onClick={() => playTrack(track.trackId)}
+                        disabled={!tracksById.has(track.trackId)}
+                        className="relative w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs hover:bg-white/5 disabled:hover:bg-transparent disabled:cursor-default overflow-hidden"
+                      >
+                        <div className="absolute inset-y-0 left-0 bg-cyan-500/10" style={{ width: `${(track.count / topCount) * 100}%` }} />
+                        <span className="relative w-4 text-gray-500 font-mono">{i + 1}</span>
+                        <span className="relative flex-1 truncate text-gray-200">
+                          {track.title}
+                          {track.artist && <span className="text-gray-500"> · {track.artist}</span>}
+                        </span>
+                        <span className="relative shrink-0 font-mono text-cyan-400">{track.count}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+
+              <section>
+                <h3 className="text-xs font-bold text-gray-300 mb-2">{t('stats.topArtists')}</h3>
+                {stats.topArtists.length === 0 ? (
+                  <p className="text-xs text-gray-500">{t('stats.noArtists')}</p>
+                ) : (
+                  <ol className="space-y-1">
+                    {stats.topArtists.map((artist, i) => (
+                      <li key={artist.artist} className="flex items-center gap-2 px-2 py-1 text-xs">
+                        <span className="w-4 text-gray-500 font-mono">{i + 1}</span>
+                        <span className="flex-1 truncate text-gray-200">{artist.artist}</span>
+                        <span className="shrink-0 text-gray-500">{formatListened(artist.listened, t)}</span>
+                        <span className="shrink-0 w-6 text-right font-mono text-cyan-400">{artist.count}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </div>
+
+            <section>
+              <h3 className="text-xs font-bold text-gray-300 mb-2">{t('stats.recent')}</h3>
+              <ul className="space-y-1">
+                {stats.recent.map(play => {
+                  const track = tracksById.get(play.trackId);
+                  return (
+                    <li key={`${play.trackId}:${play.startedAt}`}>
+                      <button
+                        onClick={() => playTrack(play.trackId)}
+                        disabled={!track}
+                        className="w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs hover:bg-white/5 disabled:hover:bg-transparent disabled:cursor-default"
+                      >
+                        <span className="shrink-0 w-24 text-gray-500">{formatPlayedAt(play.startedAt, locale)}</span>
+                        <span className="flex-1 truncate text-gray-200">
+                          {play.title}
+                          {play.artist && <span className="text-gray-500"> · {play.artist}</span>}
+                        </span>
+                        <span className={`shrink-0 text-[10px] ${play.completed ? 'text-gray-500' : 'text-amber-400/80'}`}>
+                          {play.completed ? formatListened(play.listened, t) : t('stats.skipped')}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,546 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { GripVertical, Trash2, ArrowUpToLine, ListStart, ListEnd, CheckSquare, X } from 'lucide-react';
+import { Track, Playlist, ListViewSettings } from '../types';
+import { getTrackTitle } from '../utils/trackInfo';
+import { formatTime } from '../utils/formatTime';
+import { formatKey, formatCamelot } from '../utils/audioFeatures';
+import { moveIds } from '../utils/playlists';
+import { filterTracks, getTrackGroup, UNKNOWN_GROUP_LABELS } from '../utils/trackQuery';
+import { useI18n } from '../hooks/useI18n';
+import { TrackMenu } from './TrackMenu';
+import { TrackListToolbar } from './TrackListToolbar';
+
+interface TrackListProps {
+  /** The list already arranged by `view` (see arrangeTracks) */
+  tracks: Track[];
+  view: ListViewSettings;
+  onViewChange: (view: ListViewSettings) => void;
+  currentTrackId: string | null;
+  playlists: Playlist[];
+  removeLabel: string;
+  /** Index into `tracks` */
+  onPlay: (index: number) => void;
+  onReorder: (orderedIds: string[]) => void;
+  /** False when nothing was removed (the user backed out of the confirmation) */
+  onRemove: (ids: string[]) => boolean;
+  onPlayNext: (ids: string[]) => void;
+  onAddToQueue: (ids: string[]) => void;
+  onTogglePlaylist: (playlistId: string, trackId: string) => void;
+  onCreatePlaylistWith: (name: string, trackId: string) => void;
+}
+
+interface DragState {
+  ids: string[];
+  // Row whose grip holds the pointer capture; kept mounted while scrolled away
+  handleId: string;
+  // Insertion point in the current order, 0..tracks.length
+  insertIndex: number;
+}
+
+// Rows are virtualized, so every row has the same height and a fixed gap
+type ListItem =
+  | { type: 'header'; key: string; label: string; count: number; top: number }
+  | { type: 'track'; track: Track; index: number; top: number };
+
+const ROW_HEIGHT = 60;
+const ROW_GAP = 4;
+const HEADER_HEIGHT = 32;
+// Extra height rendered above and below the viewport
+const OVERSCAN = 480;
+
+const LONG_PRESS_MS = 500;
+// Distance from the scroll container's edge that starts auto-scrolling a drag
+const AUTO_SCROLL_EDGE = 48;
+
+const itemHeight = (item: ListItem) => (item.type === 'header' ? HEADER_HEIGHT : ROW_HEIGHT);
+
+/**
+ * The side-panel track list. Click plays; Ctrl/Cmd-click, Shift-click or a
+ * long press on touch screens select. Rows are reordered by dragging the grip
+ * (pointer events, so mouse and touch behave the same) or with Alt+↑/↓, but
+ * only in list order with no search or grouping. Only rows near the viewport
+ * are rendered, so thousands of tracks scroll smoothly.
+ */
+export const TrackList: React.FC<TrackListProps> = ({
+  tracks,
+  view,
+  onViewChange,
+  currentTrackId,
+  playlists,
+  removeLabel,
+  onPlay,
+  onReorder,
+  onRemove,
+  onPlayNext,
+  onAddToQueue,
+  onTogglePlaylist,
+  onCreatePlaylistWith,
+}) => {
+  const { t } = useI18n();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [query, setQuery] = useState('');
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  // Focused row stays mounted so scrolling it out of view doesn't drop focus
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const rowRefs = useRef(new Map<string, HTMLLIElement>());
+  const longPressRef = useRef<{ timer: number; x: number; y: number } | null>(null);
+  const suppressClickRef = useRef(false);
+  const pendingFocusRef = useRef<string | null>(null);
+
+  const visibleTracks = useMemo(() => filterTracks(tracks, query), [tracks, query]);
+  const ids = visibleTracks.map(track => track.id);
+  const isSelecting = selectedIds.size > 0;
+  const canReorder = view.sort === 'manual' && view.group === 'none' && !query.trim();
+  const unknownGroupLabel = view.group === 'none' ? '' : t(UNKNOWN_GROUP_LABELS[view.group]);
+  const listPosition = useMemo(() => new Map(tracks.map((track, i) => [track.id, i])), [tracks]);
+
+  const { items, totalHeight } = useMemo(() => {
+    const items: ListItem[] = [];
+    let top = 0;
+    let header: Extract<ListItem, { type: 'header' }> | null = null;
+    visibleTracks.forEach((track, index) => {
+      const group = getTrackGroup(track, view.group);
+      if (group && group.key !== header?.key) {
+        header = { type: 'header', key: group.key, label: group.label, count: 0, top };
+        items.push(header);
+        top += HEADER_HEIGHT + ROW_GAP;
+      }
+      if (header) header.count++;
+      items.push({ type: 'track', track, index, top });
+      top += ROW_HEIGHT + ROW_GAP;
+    });
+    return { items, totalHeight: Math.max(0, top - ROW_GAP) };
+  }, [visibleTracks, view.group]);
+
+  const topById = useMemo(
+    () => new Map(items.flatMap(item => (item.type === 'track' ? [[item.track.id, item.top] as const] : []))),
+    [items]
+  );
+
+  // Drop selections that are no longer shown (removed elsewhere, filtered out)
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const present = new Set(visibleTracks.map(track => track.id));
+      const next = new Set([...prev].filter(id => present.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [visibleTracks]);
+
+  // A row being focused may only mount once it is scrolled into range, and
+  // React moves DOM nodes on reorder, which can drop focus; put it back
+  useEffect(() => {
+    if (!pendingFocusRef.current) return;
+    const row = rowRefs.current.get(pendingFocusRef.current);
+    if (row) {
+      row.focus({ preventScroll: true });
+      pendingFocusRef.current = null;
+    }
+  });
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const measure = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    container.addEventListener('scroll', measure, { passive: true });
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('scroll', measure);
+    };
+  }, []);
+
+  // Scrolls a row into view (if needed) and focuses it once it is rendered
+  const focusTrack = (id: string) => {
+    const container = scrollRef.current;
+    const top = topById.get(id);
+    if (container && top !== undefined) {
+      const listTop = listRef.current?.offsetTop ?? 0;
+      if (listTop + top < container.scrollTop) container.scrollTop = listTop + top;
+      else if (listTop + top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+        container.scrollTop = listTop + top + ROW_HEIGHT - container.clientHeight;
+      }
+    }
+    pendingFocusRef.current = id;
+    rowRefs.current.get(id)?.focus({ preventScroll: true });
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    setAnchorId(id);
+  };
+
+  const selectRange = (toId: string, additive: boolean) => {
+    const from = anchorId ? ids.indexOf(anchorId) : -1;
+    const to = ids.indexOf(toId);
+    if (from === -1) {
+      toggleSelected(toId);
+      return;
+    }
+    const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+    setSelectedIds(prev => new Set(additive ? [...prev, ...range] : range));
+  };
+
+  // Selected rows when acting on a row that is part of the selection, otherwise just that row
+  const idsForAction = (id: string) => (selectedIds.has(id) ? ids.filter(i => selectedIds.has(i)) : [id]);
+
+  const moveSelection = (id: string, direction: -1 | 1) => {
+    if (!canReorder) return;
+    const moving = idsForAction(id);
+    const positions = moving.map(m => ids.indexOf(m));
+    const insertIndex = direction === -1
+      ? Math.max(0, Math.min(...positions) - 1)
+      : Math.min(ids.length, Math.max(...positions) + 2);
+    pendingFocusRef.current = id;
+    onReorder(moveIds(ids, moving, insertIndex));
+  };
+
+  const playVisible = (index: number) => {
+    const position = listPosition.get(ids[index]);
+    if (position !== undefined) onPlay(position);
+  };
+
+  const handleRowClick = (e: React.MouseEvent, index: number) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    const id = ids[index];
+    if (e.shiftKey) {
+      selectRange(id, e.ctrlKey || e.metaKey);
+    } else if (e.ctrlKey || e.metaKey || isSelecting) {
+      toggleSelected(id);
+    } else {
+      playVisible(index);
+    }
+  };
+
+  const handleRowKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const id = ids[index];
+    const focusRow = (i: number) => focusTrack(ids[i]);
+
+    if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && e.altKey) {
+      moveSelection(id, e.key === 'ArrowUp' ? -1 : 1);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      const target = Math.max(0, Math.min(ids.length - 1, index + (e.key === 'ArrowUp' ? -1 : 1)));
+      if (e.shiftKey) {
+        if (!anchorId) setAnchorId(id);
+        selectRange(ids[target], false);
+      }
+      focusRow(target);
+    } else if (e.key === 'Enter') {
+      playVisible(index);
+    } else if (e.key === ' ') {
+      toggleSelected(id);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      const removing = idsForAction(id);
+      if (onRemove(removing)) {
+        // Keep keyboard users in the list: focus the nearest surviving row
+        pendingFocusRef.current =
+          ids.slice(index + 1).find(i => !removing.includes(i)) ??
+          ids.slice(0, index).reverse().find(i => !removing.includes(i)) ??
+          null;
+      }
+    } else if (e.key === 'a' && (e.ctrlKey || e.metaKey)) {
+      setSelectedIds(new Set(ids));
+    } else if (e.key === 'Escape' && isSelecting) {
+      clearSelection();
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  // Touch long-press enters selection mode
+  const cancelLongPress = () => {
+    if (longPressRef.current) {
+      window.clearTimeout(longPressRef.current.timer);
+      longPressRef.current = null;
+    }
+  };
+
+  const handleRowPointerDown = (e: React.PointerEvent, id: string) => {
+    if (e.pointerType !== 'touch') return;
+    cancelLongPress();
+    const timer = window.setTimeout(() => {
+      longPressRef.current = null;
+      suppressClickRef.current = true;
+      toggleSelected(id);
+      navigator.vibrate?.(15);
+    }, LONG_PRESS_MS);
+    longPressRef.current = { timer, x: e.clientX, y: e.clientY };
+  };
+
+  const handleRowPointerMove = (e: React.PointerEvent) => {
+    const press = longPressRef.current;
+    if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > 10) cancelLongPress();
+  };
+
+  // Drag handle. Dragging only happens in list order, where row i sits at i * (height + gap)
+  const getInsertIndex = (clientY: number) => {
+    const listTop = listRef.current?.getBoundingClientRect().top ?? 0;
+    const index = Math.ceil((clientY - listTop - ROW_HEIGHT / 2) / (ROW_HEIGHT + ROW_GAP));
+    return Math.max(0, Math.min(ids.length, index));
+  };
+
+  const handleGripPointerDown = (e: React.PointerEvent, id: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ ids: idsForAction(id), handleId: id, insertIndex: ids.indexOf(id) });
+  };
+
+  const handleGripPointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const container = scrollRef.current;
+    if (container) {
+      const bounds = container.getBoundingClientRect();
+      if (e.clientY < bounds.top + AUTO_SCROLL_EDGE) container.scrollBy(0, -12);
+      else if (e.clientY > bounds.bottom - AUTO_SCROLL_EDGE) container.scrollBy(0, 12);
+    }
+    const insertIndex = getInsertIndex(e.clientY);
+    if (insertIndex !== drag.insertIndex) setDrag({ ...drag, insertIndex });
+  };
+
+  const handleGripPointerUp = () => {
+    if (!drag) return;
+    const reordered = moveIds(ids, drag.ids, drag.insertIndex);
+    if (reordered.some((id, i) => id !== ids[i])) onReorder(reordered);
+    setDrag(null);
+  };
+
+  const selectedInOrder = ids.filter(id => selectedIds.has(id));
+
+  // Items overlapping the viewport (plus overscan), found by binary search on their tops
+  const listTop = listRef.current?.offsetTop ?? 0;
+  const rangeTop = viewport.scrollTop - listTop - OVERSCAN;
+  const rangeBottom = viewport.scrollTop - listTop + viewport.height + OVERSCAN;
+  let first = 0;
+  let last = items.length;
+  while (first < last) {
+    const middle = (first + last) >> 1;
+    if (items[middle].top + itemHeight(items[middle]) < rangeTop) first = middle + 1;
+    else last = middle;
+  }
+  const rendered: ListItem[] = [];
+  for (let i = first; i < items.length && items[i].top <= rangeBottom; i++) rendered.push(items[i]);
+  for (const keepId of [drag?.handleId, focusedId]) {
+    const item = keepId ? items.find(i => i.type === 'track' && i.track.id === keepId) : undefined;
+    if (item && !rendered.includes(item)) rendered.push(item);
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <TrackListToolbar
+        query={query}
+        onQueryChange={setQuery}
+        view={view}
+        onViewChange={onViewChange}
+        matchCount={visibleTracks.length}
+      />
+
+      <div ref={scrollRef} className="relative flex-1 overflow-y-auto no-scrollbar p-2">
+        {isSelecting && (
+          <div className="sticky top-0 z-20 mb-2 flex items-center gap-1 rounded-lg bg-slate-800/95 border border-cyan-500/30 px-2 py-1.5 text-xs shadow-lg backdrop-blur">
+            <span className="flex-1 text-cyan-300 font-medium">{t('trackList.selected', { count: selectedIds.size })}</span>
+            <button
+              title={t('trackList.selectAll')}
+              onClick={() => setSelectedIds(new Set(ids))}
+              className="p-1.5 text-gray-300 hover:text-white"
+            >
+              <CheckSquare size={15} />
+            </button>
+            <button
+              title={t('track.playNext')}
+              onClick={() => {
+                onPlayNext(selectedInOrder);
+                clearSelection();
+              }}
+              className="p-1.5 text-gray-300 hover:text-white"
+            >
+              <ListStart size={15} />
+            </button>
+            <button
+              title={t('track.addToQueue')}
+              onClick={() => {
+                onAddToQueue(selectedInOrder);
+                clearSelection();
+              }}
+              className="p-1.5 text-gray-300 hover:text-white"
+            >
+              <ListEnd size={15} />
+            </button>
+            {canReorder && (
+              <button
+                title={t('trackList.moveToTop')}
+                onClick={() => onReorder(moveIds(ids, selectedInOrder, 0))}
+                className="p-1.5 text-gray-300 hover:text-white"
+              >
+                <ArrowUpToLine size={15} />
+              </button>
+            )}
+            <button
+              title={removeLabel}
+              onClick={() => {
+                if (onRemove(selectedInOrder)) clearSelection();
+              }}
+              className="p-1.5 text-gray-300 hover:text-red-400"
+            >
+              <Trash2 size={15} />
+            </button>
+            <button title={t('trackList.clearSelection')} onClick={clearSelection} className="p-1.5 text-gray-400 hover:text-white">
+              <X size={15} />
+            </button>
+          </div>
+        )}
+
+
+        {visibleTracks.length === 0 && (
+          <p className="py-8 text-center text-xs text-gray-500">{t('trackList.noMatches')}</p>
+        )}
+
+        <ul
+          ref={listRef}
+          className="relative mb-4"
+          style={{ height: totalHeight }}
+          aria-multiselectable="true"
+          role="listbox"
+        >
+          {rendered.map(item => {
+            if (item.type === 'header') {
+              return (
+                <li
+                  key={`group:${item.key}`}
+                  role="presentation"
+                  className="absolute inset-x-0 flex items-end justify-between gap-2 px-2 pb-1 border-b border-white/5 text-xs"
+                  style={{ top: item.top, height: HEADER_HEIGHT }}
+                >
+                  <span className="truncate font-bold text-cyan-300/80">{item.label || unknownGroupLabel}</span>
+                  <span className="shrink-0 text-gray-600">{t('common.trackCount', { count: item.count })}</span>
+                </li>
+              );
+            }
+
+            const { track, index } = item;
+            const isCurrent = track.id === currentTrackId;
+            const isSelected = selectedIds.has(track.id);
+            const isDragged = drag?.ids.includes(track.id);
+            const dropBefore = drag && drag.insertIndex === index;
+            const dropAfter = drag && drag.insertIndex === ids.length && index === ids.length - 1;
+
+            return (
+              <li
+                key={track.id}
+                ref={(el) => {
+                  if (el) rowRefs.current.set(track.id, el);
+                  else rowRefs.current.delete(track.id);
+                }}
+                role="option"
+                aria-selected={isSelected}
+                aria-setsize={ids.length}
+                aria-posinset={index + 1}
+                tabIndex={0}
+                onClick={(e) => handleRowClick(e, index)}
+                onKeyDown={(e) => handleRowKeyDown(e, index)}
+                onFocus={() => setFocusedId(track.id)}
+                onBlur={() => setFocusedId(prev => (prev === track.id ? null : prev))}
+                onPointerDown={(e) => handleRowPointerDown(e, track.id)}
+                onPointerMove={handleRowPointerMove}
+                onPointerUp={cancelLongPress}
+                onPointerCancel={cancelLongPress}
+                onContextMenu={(e) => isSelecting && e.preventDefault()}
+                style={{ top: item.top, height: ROW_HEIGHT }}
+                className={`
+                  group absolute inset-x-0 flex items-center justify-between px-3 rounded-lg cursor-pointer transition-colors border border-transparent outline-none focus-visible:ring-1 focus-visible:ring-cyan-400 select-none
+                  ${isSelected
+                    ? 'bg-cyan-500/15 border-cyan-500/40'
+                    : isCurrent
+                      ? 'bg-white/10 border-cyan-500/30 shadow-[0_0_15px_rgba(0,0,0,0.3)]'
+                      : 'hover:bg-white/5 hover:border-white/10'}
+                  ${isDragged ? 'opacity-40' : ''}
+                `}
+              >
+                {dropBefore && <div className="absolute -top-[3px] left-2 right-2 h-0.5 rounded bg-cyan-400 pointer-events-none" />}
+                {dropAfter && <div className="absolute -bottom-[3px] left-2 right-2 h-0.5 rounded bg-cyan-400 pointer-events-none" />}
+
+                <div className="flex items-center gap-2 overflow-hidden">
+                  {canReorder && (
+                    <span
+                      title={t('trackList.dragToReorder')}
+                      onPointerDown={(e) => handleGripPointerDown(e, track.id)}
+                      onPointerMove={handleGripPointerMove}
+                      onPointerUp={handleGripPointerUp}
+                      onPointerCancel={() => setDrag(null)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-gray-600 hover:text-gray-300 cursor-grab active:cursor-grabbing touch-none p-1 -ml-1"
+                    >
+                      <GripVertical size={14} />
+                    </span>
+                  )}
+                  <span className={`text-xs font-mono min-w-[1rem] text-center ${isCurrent ? 'text-cyan-400' : 'text-gray-600'}`}>
+                    {isCurrent ? <div className="w-2 h-2 rounded-full bg-cyan-400 animate-pulse mx-auto"/> : (listPosition.get(track.id) ?? index) + 1}
+                  </span>
+                  <div className="flex flex-col overflow-hidden">
+                    <span className={`truncate text-sm font-medium ${isCurrent ? 'text-white' : 'text-gray-300'}`}>
+                      {getTrackTitle(track)}
+                    </span>
+                    {track.artist && (
+                      <span className="truncate text-xs text-gray-500">{track.artist}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center shrink-0">
+                  {track.features && (
+                    <span
+                      title={`${track.features.bpm} BPM · ${formatKey(track.features)} (${formatCamelot(track.features)}) · ${t('trackList.energy', { percent: Math.round(track.features.energy * 100) })}`}
+                      className="mr-2 text-[10px] font-mono text-gray-600"
+                    >
+                      {Math.round(track.features.bpm)} · {formatCamelot(track.features)}
+                    </span>
+                  )}
+                  {track.duration !== undefined && (
+                    <span className="mr-1 text-[10px] font-mono text-gray-600">{formatTime(track.duration)}</span>
+                  )}
+                  <TrackMenu
+                    trackId={track.id}
+                    playlists={playlists}
+                    onPlayNext={(id) => onPlayNext([id])}
+                    onAddToQueue={(id) => onAddToQueue([id])}
+                    onToggle={onTogglePlaylist}
+                    onCreateWith={onCreatePlaylistWith}
+                  />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove([track.id]);
+                    }}
+                    title={removeLabel}
+                    className="md:opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-opacity p-2 md:p-1"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Search, X, ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
+import { ListViewSettings, TrackSortKey, TrackGroupKey } from '../types';
+import { SORT_OPTIONS, GROUP_OPTIONS } from '../utils/trackQuery';
+import { useI18n } from '../hooks/useI18n';
+
+interface TrackListToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  view: ListViewSettings;
+  onViewChange: (view: ListViewSettings) => void;
+  /** Tracks left after filtering, shown while searching */
+  matchCount: number;
+}
+
+const selectClass =
+  "bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-xs text-gray-200 outline-none focus:border-cyan-500";
+
+/** Search box and sort / group pickers above the track list. */
+export const TrackListToolbar: React.FC<TrackListToolbarProps> = ({
+  query,
+  onQueryChange,
+  view,
+  onViewChange,
+  matchCount,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="px-2 pt-2 space-y-1.5 shrink-0">
+      <div className="flex items-center gap-2 rounded-lg bg-slate-800/80 border border-slate-700 px-2 focus-within:border-cyan-500">
+        <Search size={14} className="text-gray-500 shrink-0" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape' && query) {
+              e.stopPropagation();
+              onQueryChange('');
+            }
+          }}
+          placeholder={t('toolbar.searchPlaceholder')}
+          className="flex-1 min-w-0 bg-transparent py-1.5 text-xs text-white outline-none placeholder:text-gray-500 [&::-webkit-search-cancel-button]:hidden"
+        />
+        {query && (
+          <>
+            <span className="text-[10px] text-gray-500 shrink-0">{t('common.trackCount', { count: matchCount })}</span>
+            <button onClick={() => onQueryChange('')} title={t('toolbar.clearSearch')} className="p-0.5 text-gray-500 hover:text-white">
+              <X size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5 text-xs text-gray-400">
+        <span>{t('toolbar.sort')}</span>
+        <select
+          value={view.sort}
+          onChange={(e) => onViewChange({ ...view, sort: e.target.value as TrackSortKey })}
+          className={selectClass}
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.key} value={option.key}>{t(option.labelKey)}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onViewChange({ ...view, descending: !view.descending })}
+          disabled={view.sort === 'manual'}
+          title={view.descending ? t('toolbar.descending') : t('toolbar.ascending')}
+          className="p-1 rounded text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+        >
+          {view.descending ? <ArrowDownWideNarrow size={14} /> : <ArrowUpNarrowWide size={14} />}
+        </button>
+        <select
+          value={view.group}
+          onChange={(e) => onViewChange({ ...view, group: e.target.value as TrackGroupKey })}
+          className={`${selectClass} ml-auto`}
+        >
+          {GROUP_OPTIONS.map(option => (
+            <option key={option.key} value={option.key}>{t(option.labelKey)}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { MoreHorizontal, Check, Plus, ListStart, ListEnd } from 'lucide-react';
+import { Playlist } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+
+interface TrackMenuProps {
+  trackId: string;
+  playlists: Playlist[];
+  onPlayNext: (trackId: string) => void;
+  onAddToQueue: (trackId: string) => void;
+  onToggle: (playlistId: string, trackId: string) => void;
+  onCreateWith: (name: string, trackId: string) => void;
+}
+
+/** Per-track popover: queue actions plus adding/removing the track from named playlists. */
+export const TrackMenu: React.FC<TrackMenuProps> = ({ trackId, playlists, onPlayNext, onAddToQueue, onToggle, onCreateWith }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  return (
+    <div ref={containerRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        title={t('track.more')}
+        onClick={() => setIsOpen(!isOpen)}
+        className={`${isOpen ? 'opacity-100 text-white' : 'md:opacity-0'} group-hover:opacity-100 text-gray-500 hover:text-white transition-opacity p-2 md:p-1`}
+      >
+        <MoreHorizontal size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-52 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 py-1">
+          <button
+            onClick={() => {
+              onPlayNext(trackId);
+              setIsOpen(false);
+            }}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-200 hover:bg-white/5"
+          >
+            <ListStart size={14} className="text-gray-400" />
+            {t('track.playNext')}
+          </button>
+          <button
+            onClick={() => {
+              onAddToQueue(trackId);
+              setIsOpen(false);
+            }}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-200 hover:bg-white/5"
+          >
+            <ListEnd size={14} className="text-gray-400" />
+            {t('track.addToQueue')}
+          </button>
+          <div className="my-1 border-t border-slate-700" />
+          <div className="px-3 pt-1 pb-0.5 text-[10px] uppercase tracking-widest text-gray-500">{t('track.addToPlaylist')}</div>
+          {playlists.map(playlist => {
+            const contains = playlist.trackIds.includes(trackId);
+            return (
+              <button
+                key={playlist.id}
+                onClick={() => onToggle(playlist.id, trackId)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-200 hover:bg-white/5"
+              >
+                <span className="w-4 text-cyan-400">{contains && <Check size={14} />}</span>
+                <span className="truncate">{playlist.name}</span>
+              </button>
+            );
+          })}
+          {playlists.length > 0 && <div className="my-1 border-t border-slate-700" />}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = newName.trim();
+              if (!name) return;
+              onCreateWith(name, trackId);
+              setNewName('');
+              setIsOpen(false);
+            }}
+            className="flex items-center gap-1 px-2 py-1"
+          >
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={t('track.newPlaylist')}
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500"
+            />
+            <button type="submit" className="p-1 text-cyan-400 hover:text-cyan-300">
+              <Plus size={14} />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
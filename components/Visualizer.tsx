@@ -1,13 +1,38 @@
 import React, { useRef, useEffect } from 'react';
+import { getVisualizerMode } from './visualizers';
 
 interface VisualizerProps {
   analyser: AnalyserNode | null;
   isPlaying: boolean;
+  /** Id of a mode in VISUALIZER_MODES */
+  mode: string;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) => {
+export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying, mode }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
+  // CSS size of the canvas, kept current by the ResizeObserver below
+  const sizeRef = useRef({ width: 0, height: 0, dpr: 1 });
+
+  // Match the backing store to the displayed size so lines stay crisp on HiDPI screens
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const { width, height } = canvas.getBoundingClientRect();
+      sizeRef.current = { width, height, dpr };
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.getContext('2d')?.setTransform(dpr, 0, 0, dpr, 0, 0);
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
 
   useEffect(() => {
     if (!canvasRef.current || !analyser) return;
@@ -16,64 +41,35 @@ export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) =
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    const visualizer = getVisualizerMode(mode);
+    const render = visualizer.createRenderer();
+    let data = new Uint8Array(0);
+
+    const clear = () => {
+      const { width, height } = sizeRef.current;
+      ctx.clearRect(0, 0, width, height);
+    };
 
     const draw = () => {
       if (!isPlaying) {
-        // Clear canvas with a fade effect or just clear
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        clear();
         return;
       }
-      
+
       animationRef.current = requestAnimationFrame(draw);
-      analyser.getByteFrequencyData(dataArray);
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      // Radius matches the vinyl size roughly + padding
-      const radius = Math.min(centerX, centerY) * 0.55; 
-
-      // Draw bars
-      const bars = 120; // Number of bars
-      const step = Math.floor(bufferLength / bars); 
-      
-      for (let i = 0; i < bars; i++) {
-        // Average out a chunk of frequencies for smoother visual
-        let value = 0;
-        for(let j = 0; j < step; j++) {
-            value += dataArray[i * step + j];
-        }
-        value = value / step;
-
-        const barHeight = (value / 255) * 100; // Scale height
-        const rads = (Math.PI * 2) * (i / bars);
-        
-        // Calculate start and end points
-        const xStart = centerX + Math.cos(rads) * radius;
-        const yStart = centerY + Math.sin(rads) * radius;
-        const xEnd = centerX + Math.cos(rads) * (radius + barHeight);
-        const yEnd = centerY + Math.sin(rads) * (radius + barHeight);
-
-        // Draw bar
-        ctx.beginPath();
-        ctx.moveTo(xStart, yStart);
-        ctx.lineTo(xEnd, yEnd);
-        ctx.lineWidth = 4;
-        ctx.lineCap = 'round';
-        
-        // Dynamic Color based on frequency intensity
-        const hue = (i / bars) * 360;
-        const saturation = 80 + (value / 255) * 20;
-        const lightness = 50 + (value / 255) * 10;
-        
-        ctx.strokeStyle = `hsla(${hue}, ${saturation}%, ${lightness}%, 0.8)`;
-        ctx.stroke();
-      }
+
+      // The FFT size can change while we run
+      const length = visualizer.data === 'waveform' ? analyser.fftSize : analyser.frequencyBinCount;
+      if (data.length !== length) data = new Uint8Array(length);
+      if (visualizer.data === 'waveform') analyser.getByteTimeDomainData(data);
+      else analyser.getByteFrequencyData(data);
+
+      if (visualizer.clears) clear();
+      render({ canvas, ctx, ...sizeRef.current, data });
     };
 
+    // A fresh mode starts from an empty canvas
+    clear();
     draw();
 
     return () => {
@@ -81,14 +77,12 @@ export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) =
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [analyser, isPlaying]);
+  }, [analyser, isPlaying, mode]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={800} 
-      height={800} 
+    <canvas
+      ref={canvasRef}
       className="absolute inset-0 w-full h-full pointer-events-none z-0 opacity-80"
     />
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,83 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { AudioWaveform, Check } from 'lucide-react';
+import { VisualizerSettings } from '../types';
+import { VISUALIZER_MODES } from './visualizers';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { useI18n } from '../hooks/useI18n';
+
+interface VisualizerControlProps {
+  settings: VisualizerSettings;
+  onChange: (settings: VisualizerSettings) => void;
+}
+
+const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192];
+
+/** Popover for picking the visualizer mode and tuning the analyser. */
+export const VisualizerControl: React.FC<VisualizerControlProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(containerRef, isOpen, close);
+
+  const update = (changes: Partial<VisualizerSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t('visualizer.title')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors ${isOpen ? 'text-white bg-white/10' : 'text-gray-500 hover:text-white'}`}
+      >
+        <AudioWaveform size={14} />
+        {t('visualizer.button')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-56 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-50 py-1">
+          {VISUALIZER_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => update({ mode: mode.id })}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-left text-gray-200 hover:bg-white/5"
+            >
+              {t(mode.nameKey)}
+              {settings.mode === mode.id && <Check size={14} className="text-cyan-400" />}
+            </button>
+          ))}
+          <div className="my-1 border-t border-slate-700" />
+          <div className="px-3 py-2 space-y-3">
+            <label className="flex items-center justify-between text-xs text-gray-400">
+              <span>{t('visualizer.fftSize')}</span>
+              <select
+                value={settings.fftSize}
+                onChange={(e) => update({ fftSize: Number(e.target.value) })}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-cyan-500"
+              >
+                {FFT_SIZES.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400">
+              <div className="flex justify-between mb-1">
+                <span>{t('visualizer.smoothing')}</span>
+                <span className="font-mono text-gray-300">{settings.smoothing.toFixed(2)}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.95"
+                step="0.05"
+                value={settings.smoothing}
+                onChange={(e) => update({ smoothing: Number(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import { VisualizerMode } from './types';
+import { radialBars } from './radial';
+import { linearSpectrum } from './spectrum';
+import { oscilloscope } from './oscilloscope';
+import { spectrogram } from './spectrogram';
+
+export type { VisualizerMode, VisualizerFrame } from './types';
+
+/** Every available mode, in the order the picker lists them. New modes only need adding here. */
+export const VISUALIZER_MODES: VisualizerMode[] = [radialBars, linearSpectrum, oscilloscope, spectrogram];
+
+export const getVisualizerMode = (id: string): VisualizerMode =>
+  VISUALIZER_MODES.find(mode => mode.id === id) ?? VISUALIZER_MODES[0];
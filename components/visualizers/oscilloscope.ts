@@ -0,0 +1,31 @@
+import { VisualizerMode } from './types';
+
+/** Time-domain waveform across the middle of the panel. */
+export const oscilloscope: VisualizerMode = {
+  id: 'oscilloscope',
+  nameKey: 'visualizer.oscilloscope',
+  data: 'waveform',
+  clears: true,
+  createRenderer: () => ({ ctx, width, height, data }) => {
+    const centerY = height / 2;
+    const amplitude = height * 0.35;
+    const gradient = ctx.createLinearGradient(0, 0, width, 0);
+    gradient.addColorStop(0, 'rgba(34, 211, 238, 0.9)');
+    gradient.addColorStop(1, 'rgba(192, 132, 252, 0.9)');
+
+    ctx.beginPath();
+    for (let i = 0; i < data.length; i++) {
+      const x = (i / (data.length - 1)) * width;
+      const y = centerY + ((data[i] - 128) / 128) * amplitude;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = gradient;
+    ctx.shadowColor = 'rgba(34, 211, 238, 0.6)';
+    ctx.shadowBlur = 8;
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  },
+};
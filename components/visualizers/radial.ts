@@ -0,0 +1,46 @@
+import { VisualizerMode } from './types';
+
+const BARS = 120;
+
+/** The original look: bars radiating from behind the record with a hue sweep. */
+export const radialBars: VisualizerMode = {
+  id: 'radial',
+  nameKey: 'visualizer.radialBars',
+  data: 'frequency',
+  clears: true,
+  createRenderer: () => ({ ctx, width, height, data }) => {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    // Radius matches the vinyl size roughly + padding
+    const size = Math.min(width, height);
+    const radius = size * 0.275;
+    const maxBarHeight = size * 0.125;
+    // Average out a chunk of frequencies for smoother visual
+    const step = Math.max(1, Math.floor(data.length / BARS));
+
+    ctx.lineWidth = Math.max(2, size / 200);
+    ctx.lineCap = 'round';
+
+    for (let i = 0; i < BARS; i++) {
+      let value = 0;
+      for (let j = 0; j < step; j++) value += data[i * step + j] ?? 0;
+      value = value / step;
+
+      const barHeight = (value / 255) * maxBarHeight;
+      const rads = Math.PI * 2 * (i / BARS);
+      const cos = Math.cos(rads);
+      const sin = Math.sin(rads);
+
+      ctx.beginPath();
+      ctx.moveTo(centerX + cos * radius, centerY + sin * radius);
+      ctx.lineTo(centerX + cos * (radius + barHeight), centerY + sin * (radius + barHeight));
+
+      // Dynamic Color based on frequency intensity
+      const hue = (i / BARS) * 360;
+      const saturation = 80 + (value / 255) * 20;
+      const lightness = 50 + (value / 255) * 10;
+      ctx.strokeStyle = `hsla(${hue}, ${saturation}%, ${lightness}%, 0.8)`;
+      ctx.stroke();
+    }
+  },
+};
@@ -0,0 +1,50 @@
+import { VisualizerMode } from './types';
+
+// Device pixels the history scrolls per frame
+const SCROLL = 2;
+
+// Blue through magenta and red to yellow as energy rises
+const heatColor = (value: number): [number, number, number] => {
+  const t = value / 255;
+  return [Math.min(255, t * 2 * 255), Math.max(0, (t - 0.5) * 2 * 255), Math.max(0, 160 - t * 2 * 160) + t * 60];
+};
+
+/** Scrolling waterfall: time runs right to left, low frequencies at the bottom. */
+export const spectrogram: VisualizerMode = {
+  id: 'spectrogram',
+  nameKey: 'visualizer.spectrogram',
+  data: 'frequency',
+  clears: false,
+  createRenderer: () => {
+    let column: ImageData | null = null;
+
+    return ({ canvas, ctx, data }) => {
+      const pixelWidth = canvas.width;
+      const pixelHeight = canvas.height;
+      if (!column || column.height !== pixelHeight) column = ctx.createImageData(SCROLL, pixelHeight);
+
+      // Scroll the existing image in device pixels, bypassing the DPR transform
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalCompositeOperation = 'copy';
+      ctx.drawImage(canvas, -SCROLL, 0);
+      ctx.restore();
+
+      const maxLog = Math.log(data.length);
+      for (let y = 0; y < pixelHeight; y++) {
+        // Log frequency axis, flipped so bass sits at the bottom
+        const bin = Math.min(data.length - 1, Math.floor(Math.exp((1 - y / pixelHeight) * maxLog)));
+        const [r, g, b] = heatColor(data[bin]);
+        for (let x = 0; x < SCROLL; x++) {
+          const offset = (y * SCROLL + x) * 4;
+          column.data[offset] = r;
+          column.data[offset + 1] = g;
+          column.data[offset + 2] = b;
+          // Quiet bins stay see-through so the panel background shows
+          column.data[offset + 3] = Math.min(255, data[bin] * 1.5);
+        }
+      }
+      ctx.putImageData(column, pixelWidth - SCROLL, 0);
+    };
+  },
+};
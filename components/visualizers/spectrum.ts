@@ -0,0 +1,32 @@
+import { VisualizerMode } from './types';
+
+const BAR_WIDTH = 6;
+const GAP = 2;
+
+/** Classic bar spectrum along the bottom edge, bins spread on a log scale. */
+export const linearSpectrum: VisualizerMode = {
+  id: 'spectrum',
+  nameKey: 'visualizer.linearSpectrum',
+  data: 'frequency',
+  clears: true,
+  createRenderer: () => ({ ctx, width, height, data }) => {
+    const bars = Math.max(8, Math.floor(width / (BAR_WIDTH + GAP)));
+    const maxHeight = height * 0.4;
+    const gradient = ctx.createLinearGradient(0, height, 0, height - maxHeight);
+    gradient.addColorStop(0, 'rgba(34, 211, 238, 0.9)');
+    gradient.addColorStop(1, 'rgba(192, 132, 252, 0.9)');
+    ctx.fillStyle = gradient;
+
+    // Bin 0 is DC; spread the rest logarithmically so bass isn't a sliver
+    const maxLog = Math.log(data.length);
+    for (let i = 0; i < bars; i++) {
+      const from = Math.floor(Math.exp((i / bars) * maxLog));
+      const to = Math.max(from + 1, Math.floor(Math.exp(((i + 1) / bars) * maxLog)));
+      let value = 0;
+      for (let bin = from; bin < to; bin++) value = Math.max(value, data[bin] ?? 0);
+
+      const barHeight = (value / 255) * maxHeight;
+      ctx.fillRect(i * (BAR_WIDTH + GAP), height - barHeight, BAR_WIDTH, barHeight);
+    }
+  },
+};
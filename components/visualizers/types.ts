@@ -0,0 +1,22 @@
+import { MessageKey } from '../../i18n';
+
+export interface VisualizerFrame {
+  canvas: HTMLCanvasElement;
+  /** Already scaled by `dpr`, so drawing happens in CSS pixels */
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  dpr: number;
+  /** Byte frequency or time-domain data, depending on the mode's `data` */
+  data: Uint8Array;
+}
+
+export interface VisualizerMode {
+  id: string;
+  nameKey: MessageKey;
+  data: 'frequency' | 'waveform';
+  /** Whether the previous frame is wiped before each draw */
+  clears: boolean;
+  /** Called once per mount so modes can keep state between frames */
+  createRenderer: () => (frame: VisualizerFrame) => void;
+}
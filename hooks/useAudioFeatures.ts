@@ -0,0 +1,39 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Track } from '../types';
+import { analyzeAudioFeatures } from '../services/audioFeatures';
+
+/**
+ * Estimates tempo, key and energy for tracks that have none yet, one at a
+ * time in the background while `enabled`, and stores them on the track so
+ * they are persisted with the library. Returns how many tracks are still waiting.
+ */
+export const useAudioFeatures = (
+  tracks: Track[],
+  setTracks: Dispatch<SetStateAction<Track[]>>,
+  enabled: boolean
+) => {
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  // Files the browser could not decode or too long to analyse; retried on the next launch
+  const failedRef = useRef<Set<string>>(new Set());
+
+  const pending = tracks.filter(track => !track.features && !failedRef.current.has(track.id));
+  const nextTrack = enabled && !analyzingId ? pending[0] : undefined;
+
+  useEffect(() => {
+    if (!nextTrack) return;
+    const { id, file } = nextTrack;
+    setAnalyzingId(id);
+
+    analyzeAudioFeatures(file)
+      .then(features => {
+        setTracks(prev => prev.map(track => (track.id === id && !track.features ? { ...track, features } : track)));
+      })
+      .catch(err => {
+        console.warn("Audio feature analysis error:", err);
+        failedRef.current.add(id);
+      })
+      .finally(() => setAnalyzingId(null));
+  }, [nextTrack, setTracks]);
+
+  return { pendingCount: pending.length, analyzingId };
+};
@@ -0,0 +1,13 @@
+import { useEffect, RefObject } from 'react';
+
+/** Calls `onOutside` on pointer-down anywhere outside `ref` while `active`. */
+export const useClickOutside = (ref: RefObject<HTMLElement | null>, active: boolean, onOutside: () => void) => {
+  useEffect(() => {
+    if (!active) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) onOutside();
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [ref, active, onOutside]);
+};
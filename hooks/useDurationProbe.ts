@@ -0,0 +1,34 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Track } from '../types';
+import { readDuration } from '../services/playlistExport';
+
+/**
+ * Reads the length of tracks that don't have one yet, one at a time in the
+ * background, and stores it on the track so the list can show and sort by it.
+ * Only metadata is read, so this is far cheaper than the loudness analysis.
+ */
+export const useDurationProbe = (tracks: Track[], setTracks: Dispatch<SetStateAction<Track[]>>) => {
+  const [probingId, setProbingId] = useState<string | null>(null);
+  // Files the browser could not read; retried on the next launch
+  const failedRef = useRef<Set<string>>(new Set());
+
+  const nextTrack = probingId
+    ? undefined
+    : tracks.find(track => !track.duration && !failedRef.current.has(track.id));
+
+  useEffect(() => {
+    if (!nextTrack) return;
+    const { id, file } = nextTrack;
+    setProbingId(id);
+
+    readDuration(file)
+      .then(duration => {
+        if (duration === undefined) {
+          failedRef.current.add(id);
+          return;
+        }
+        setTracks(prev => prev.map(track => (track.id === id && !track.duration ? { ...track, duration } : track)));
+      })
+      .finally(() => setProbingId(null));
+  }, [nextTrack, setTracks]);
+};
@@ -0,0 +1,9 @@
+import { useContext } from 'react';
+import { I18nContext, I18nContextValue } from '../i18n/I18nProvider';
+
+/** The interface language and its translator; components re-render when it changes. */
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+};
@@ -0,0 +1,178 @@
+import { useState, useCallback, useRef, Dispatch, SetStateAction } from 'react';
+import { Track, Playlist } from '../types';
+import { MessageKey } from '../i18n';
+import {
+  scanFiles,
+  findDuplicates,
+  createTracks,
+  getBaseName,
+  readTextFile,
+  ScannedFiles,
+  DuplicateMatch,
+} from '../services/importer';
+import { parsePlaylistFile, resolveEntries } from '../utils/playlistFormats';
+import { createPlaylist } from '../utils/playlists';
+
+export interface PlaylistImportResult {
+  name: string;
+  matched: number;
+  /** Entries that matched no track, as title or location */
+  unresolved: string[];
+  /** False when nothing matched, in which case no playlist was created */
+  created: boolean;
+}
+
+export interface ImportSummary {
+  imported: number;
+  duplicatesSkipped: number;
+  duplicatesKept: number;
+  /** Names of files that looked like audio but weren't readable as any format */
+  unsupported: string[];
+  ignoredCount: number;
+  /** Library tracks that received lyrics from a standalone .lrc file */
+  lyricsAttached: number;
+  playlists: PlaylistImportResult[];
+}
+
+/** An import paused on the skip / keep-both question. */
+export interface PendingImport {
+  scanned: ScannedFiles;
+  duplicates: DuplicateMatch[];
+  hashes: Map<File, string>;
+}
+
+/**
+ * Import flow: sort the selection, look for duplicates, ask what to do with
+ * them, then add the tracks and report what happened. Playlist files become
+ * playlists of whatever they reference in this import or the library.
+ * `onImported` receives the ids of the tracks that were added.
+ */
+export const useImporter = (
+  library: Track[],
+  setLibrary: Dispatch<SetStateAction<Track[]>>,
+  setPlaylists: Dispatch<SetStateAction<Playlist[]>>,
+  onImported: (trackIds: string[]) => void
+) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  // The duplicate question can outlive a render; always match against the current library
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+
+  const finish = useCallback(async ({ scanned, duplicates, hashes }: PendingImport, keepDuplicates: boolean) => {
+    const duplicateFiles = new Set(duplicates.map(match => match.file));
+    const audio = keepDuplicates ? scanned.audio : scanned.audio.filter(file => !duplicateFiles.has(file));
+    const newTracks = await createTracks(audio, scanned.lyrics, hashes);
+
+    // .lrc files without audio of the same name in this import go to library tracks
+    const pairedNames = new Set(scanned.audio.map(file => getBaseName(file.name).toLowerCase()));
+    const orphanLyrics = new Map<string, string>();
+    await Promise.all(
+      scanned.lyrics
+        .filter(file => !pairedNames.has(getBaseName(file.name).toLowerCase()))
+        .map(async file => orphanLyrics.set(getBaseName(file.name).toLowerCase(), await readTextFile(file)))
+    );
+
+    // Files dropped alongside the playlist win over same-named library tracks.
+    // A skipped duplicate stands in for the library track it duplicates.
+    const standIns = duplicates.flatMap(({ file, existing }) =>
+      !keepDuplicates && existing ? [{ ...existing, file, name: getBaseName(file.name) }] : []
+    );
+    const candidates = [...newTracks, ...standIns, ...libraryRef.current];
+    const playlistResults: PlaylistImportResult[] = [];
+    const importedPlaylists: Playlist[] = [];
+    const unreadable: string[] = [];
+    for (const file of scanned.playlists) {
+      try {
+        const parsed = parsePlaylistFile(await readTextFile(file), file.name);
+        const { trackIds, unresolved } = resolveEntries(parsed.entries, candidates);
+        const name = parsed.name ?? getBaseName(file.name);
+        const uniqueIds = [...new Set(trackIds)];
+        if (uniqueIds.length > 0) importedPlaylists.push(createPlaylist(name, uniqueIds));
+        playlistResults.push({
+          name,
+          matched: trackIds.length,
+          unresolved: unresolved.map(entry => entry.title ?? entry.location),
+          created: uniqueIds.length > 0,
+        });
+      } catch (err) {
+        console.warn(`Could not read playlist ${file.name}:`, err);
+        unreadable.push(file.name);
+      }
+    }
+    if (importedPlaylists.length > 0) setPlaylists(prev => [...prev, ...importedPlaylists]);
+
+    const lyricsAttached = libraryRef.current.filter(track => orphanLyrics.has(track.name.toLowerCase())).length;
+    setLibrary(prev => {
+      const updated = orphanLyrics.size === 0 ? prev : prev.map(track => {
+        const lyrics = orphanLyrics.get(track.name.toLowerCase());
+        return lyrics === undefined ? track : { ...track, lyrics };
+      });
+      return newTracks.length > 0 ? [...updated, ...newTracks] : updated;
+    });
+    if (newTracks.length > 0) onImported(newTracks.map(track => track.id));
+
+    setSummary({
+      imported: newTracks.length,
+      duplicatesSkipped: keepDuplicates ? 0 : duplicates.length,
+      duplicatesKept: keepDuplicates ? duplicates.length : 0,
+      unsupported: [...scanned.unsupported.map(file => file.name), ...unreadable],
+      ignoredCount: scanned.ignoredCount,
+      lyricsAttached,
+      playlists: playlistResults,
+    });
+  }, [setLibrary, setPlaylists, onImported]);
+
+  // A promise of files (a dropped folder still being walked) is awaited here,
+  // so a folder that can't be read is reported like any other import failure
+  const importFiles = useCallback(async (source: File[] | Promise<File[]>) => {
+    if (Array.isArray(source) && source.length === 0) return;
+    setIsImporting(true);
+    setSummary(null);
+    setError(null);
+    try {
+      const files = await source;
+      if (files.length === 0) return;
+      const scanned = await scanFiles(files);
+      const { duplicates, hashes, libraryHashes } = await findDuplicates(scanned.audio, libraryRef.current);
+      // Keep hashes computed for older tracks so the next import doesn't redo them
+      if (libraryHashes.size > 0) {
+        setLibrary(prev => prev.map(track => {
+          const contentHash = libraryHashes.get(track.id);
+          return contentHash ? { ...track, contentHash } : track;
+        }));
+      }
+
+      const next = { scanned, duplicates, hashes };
+      if (duplicates.length > 0) setPending(next);
+      else await finish(next, false);
+    } catch (err) {
+      console.error("Import error:", err);
+      setError('import.failed');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [setLibrary, finish]);
+
+  const resolveDuplicates = useCallback(async (keepDuplicates: boolean) => {
+    if (!pending) return;
+    setPending(null);
+    setIsImporting(true);
+    try {
+      await finish(pending, keepDuplicates);
+    } catch (err) {
+      console.error("Import error:", err);
+      setError('import.failed');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [pending, finish]);
+
+  const cancelImport = useCallback(() => setPending(null), []);
+  const dismissSummary = useCallback(() => setSummary(null), []);
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { importFiles, isImporting, pending, resolveDuplicates, cancelImport, summary, dismissSummary, error, dismissError };
+};
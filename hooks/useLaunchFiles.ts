@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+
+// Must match sw.js.template
+const SHARE_CACHE = 'vinyl-vibe-shared';
+const SHARED_PARAM = 'shared';
+
+// File Handling API, not in the DOM typings yet
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+// Files sw.js parked when they were shared to the app; each is handed out once
+const takeSharedFiles = async (): Promise<File[]> => {
+  const cache = await caches.open(SHARE_CACHE);
+  const files: File[] = [];
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    await cache.delete(request);
+    if (!response) continue;
+    const name = decodeURIComponent(response.headers.get('X-File-Name') ?? '');
+    files.push(new File([await response.blob()], name || 'shared-audio', { type: response.headers.get('Content-Type') ?? '' }));
+  }
+  return files;
+};
+
+/**
+ * Audio files the OS hands to the installed app, either opened with it (file
+ * handlers in manifest.json) or shared to it (Web Share Target, which sw.js
+ * answers with a redirect to "/?shared=1"). Waits for `enabled`, i.e. for the
+ * stored library, so duplicates are recognised.
+ */
+export const useLaunchFiles = (onFiles: (files: File[]) => void, enabled: boolean) => {
+  // The consumer is registered once but should always import into the current library
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const launchQueue = (window as any).launchQueue as { setConsumer: (consumer: (params: LaunchParams) => void) => void } | undefined;
+    launchQueue?.setConsumer(params => {
+      if (params.files.length === 0) return;
+      Promise.all(params.files.map(handle => handle.getFile()))
+        .then(files => onFilesRef.current(files))
+        .catch(err => console.warn("Could not open launched files:", err));
+    });
+
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(SHARED_PARAM) || !('caches' in window)) return;
+    // A reload must not import the same share again
+    url.searchParams.delete(SHARED_PARAM);
+    window.history.replaceState(null, '', url);
+    takeSharedFiles()
+      .then(files => {
+        if (files.length > 0) onFilesRef.current(files);
+      })
+      .catch(err => console.warn("Could not read shared files:", err));
+  }, [enabled]);
+};
@@ -0,0 +1,132 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Track, Playlist } from '../types';
+import { MessageKey } from '../i18n';
+import {
+  loadLibrary,
+  syncLibrary,
+  syncPlaylists,
+  clearLibrary as clearStoredLibrary,
+  isQuotaError,
+  isBlockedError,
+} from '../services/libraryDb';
+
+interface Identified {
+  id: string;
+}
+
+// Items that are new or were replaced (immutable updates change identity),
+// plus ids that disappeared since the last write.
+const diffById = <T extends Identified>(previous: Map<string, T>, next: T[]): { changed: T[]; removed: string[] } => {
+  const nextIds = new Set(next.map(item => item.id));
+  return {
+    changed: next.filter(item => previous.get(item.id) !== item),
+    removed: [...previous.keys()].filter(id => !nextIds.has(id)),
+  };
+};
+
+const toMap = <T extends Identified>(items: T[]) => new Map<string, T>(items.map(item => [item.id, item]));
+
+/**
+ * Library tracks and named playlists backed by IndexedDB. Callers update both
+ * like ordinary React state; every change is diffed against what was last
+ * written and only new, modified or removed records hit the database.
+ */
+export const useLibrary = () => {
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [isRestored, setIsRestored] = useState(false);
+  // A message key rather than text, so the banner follows a change of language
+  const [storageError, setStorageError] = useState<MessageKey | null>(null);
+  const persistedTracksRef = useRef<Map<string, Track>>(new Map());
+  const persistedPlaylistsRef = useRef<Map<string, Playlist>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrary()
+      .then(stored => {
+        if (cancelled) return;
+        persistedTracksRef.current = toMap(stored.tracks);
+        persistedPlaylistsRef.current = toMap(stored.playlists);
+        setTracks(stored.tracks);
+        setPlaylists(stored.playlists);
+      })
+      .catch(err => {
+        console.error("Library restore error:", err);
+        if (!cancelled) setStorageError(isBlockedError(err) ? 'storage.blocked' : 'storage.loadFailed');
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const reportSaveError = useCallback((err: unknown) => {
+    console.error("Library save error:", err);
+    setStorageError(isQuotaError(err) ? 'storage.quotaExceeded' : isBlockedError(err) ? 'storage.blocked' : 'storage.saveFailed');
+  }, []);
+
+  useEffect(() => {
+    // Don't write until the stored library is in state, or the empty initial
+    // array would be persisted as "everything was removed".
+    if (!isRestored) return;
+
+    const previous = persistedTracksRef.current;
+    const { changed, removed } = diffById<Track>(previous, tracks);
+    if (changed.length === 0 && removed.length === 0) {
+      const sameOrder = [...previous.keys()].every((id, i) => tracks[i]?.id === id);
+      if (sameOrder) return;
+    }
+
+    // Audio is written once, when a track first reaches the database
+    const added = changed.filter(track => !previous.has(track.id));
+    persistedTracksRef.current = toMap(tracks);
+    syncLibrary(changed, added, removed, tracks.map(track => track.id)).catch(err => {
+      // Forget the failed write so the next change retries it.
+      persistedTracksRef.current = previous;
+      reportSaveError(err);
+    });
+  }, [tracks, isRestored, reportSaveError]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const previous = persistedPlaylistsRef.current;
+    const { changed, removed } = diffById<Playlist>(previous, playlists);
+    if (changed.length === 0 && removed.length === 0) return;
+
+    persistedPlaylistsRef.current = toMap(playlists);
+    syncPlaylists(changed, removed).catch(err => {
+      persistedPlaylistsRef.current = previous;
+      reportSaveError(err);
+    });
+  }, [playlists, isRestored, reportSaveError]);
+
+  const clearLibrary = useCallback(async () => {
+    try {
+      await clearStoredLibrary();
+      persistedTracksRef.current = new Map();
+      persistedPlaylistsRef.current = new Map();
+      setTracks([]);
+      setPlaylists([]);
+      setStorageError(null);
+    } catch (err) {
+      console.error("Library clear error:", err);
+      setStorageError('storage.clearFailed');
+    }
+  }, []);
+
+  const dismissStorageError = useCallback(() => setStorageError(null), []);
+
+  return {
+    tracks,
+    setTracks,
+    playlists,
+    setPlaylists,
+    isRestored,
+    storageError,
+    dismissStorageError,
+    clearLibrary,
+  };
+};
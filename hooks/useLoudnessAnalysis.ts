@@ -0,0 +1,39 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Track } from '../types';
+import { analyzeLoudness } from '../services/loudness';
+
+/**
+ * Measures tracks that carry no ReplayGain tags, one at a time in the
+ * background while `enabled`, and stores the result on the track so it is
+ * persisted with the library. Returns how many tracks are still waiting.
+ */
+export const useLoudnessAnalysis = (
+  tracks: Track[],
+  setTracks: Dispatch<SetStateAction<Track[]>>,
+  enabled: boolean
+) => {
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  // Files the browser could not decode or too long to analyse; retried on the next launch
+  const failedRef = useRef<Set<string>>(new Set());
+
+  const pending = tracks.filter(track => !track.loudness && !failedRef.current.has(track.id));
+  const nextTrack = enabled && !analyzingId ? pending[0] : undefined;
+
+  useEffect(() => {
+    if (!nextTrack) return;
+    const { id, file } = nextTrack;
+    setAnalyzingId(id);
+
+    analyzeLoudness(file)
+      .then(loudness => {
+        setTracks(prev => prev.map(track => (track.id === id && !track.loudness ? { ...track, loudness } : track)));
+      })
+      .catch(err => {
+        console.warn("Loudness analysis error:", err);
+        failedRef.current.add(id);
+      })
+      .finally(() => setAnalyzingId(null));
+  }, [nextTrack, setTracks]);
+
+  return { pendingCount: pending.length, analyzingId };
+};
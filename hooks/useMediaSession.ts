@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react';
+import { Track } from '../types';
+import { getTrackTitle } from '../utils/trackInfo';
+
+export interface MediaSessionHandlers {
+  onPlay: () => void;
+  onPause: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSeek: (time: number) => void;
+  /** Current position, read when a relative seek arrives */
+  getCurrentTime: () => number;
+}
+
+interface MediaSessionState {
+  track?: Track;
+  /** Object URL of the embedded cover, if any */
+  artworkUrl?: string;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+}
+
+// Default step for headset / lock-screen skip buttons that don't specify one
+const SEEK_OFFSET = 10;
+
+/**
+ * Lock-screen / notification controls and hardware media keys via the Media
+ * Session API. Handlers are registered once and always call the latest
+ * callbacks, so callers can pass fresh closures every render.
+ */
+export const useMediaSession = ({ track, artworkUrl, isPlaying, currentTime, duration, playbackRate }: MediaSessionState, handlers: MediaSessionHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const session = navigator.mediaSession;
+
+    const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => handlersRef.current.onPlay()],
+      ['pause', () => handlersRef.current.onPause()],
+      ['previoustrack', () => handlersRef.current.onPrevious()],
+      ['nexttrack', () => handlersRef.current.onNext()],
+      ['seekto', (details) => {
+        if (details.seekTime !== undefined) handlersRef.current.onSeek(details.seekTime);
+      }],
+      ['seekforward', (details) => {
+        const { getCurrentTime, onSeek } = handlersRef.current;
+        onSeek(getCurrentTime() + (details.seekOffset ?? SEEK_OFFSET));
+      }],
+      ['seekbackward', (details) => {
+        const { getCurrentTime, onSeek } = handlersRef.current;
+        onSeek(Math.max(0, getCurrentTime() - (details.seekOffset ?? SEEK_OFFSET)));
+      }],
+    ];
+
+    for (const [action, handler] of actions) {
+      try {
+        session.setActionHandler(action, handler);
+      } catch {
+        // Older browsers throw for actions they don't know
+      }
+    }
+    return () => {
+      for (const [action] of actions) {
+        try {
+          session.setActionHandler(action, null);
+        } catch {
+          // See above
+        }
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = track
+      ? new MediaMetadata({
+          title: getTrackTitle(track),
+          artist: track.artist ?? '',
+          album: track.album ?? '',
+          artwork: artworkUrl ? [{ src: artworkUrl, type: track.picture?.type || undefined }] : [],
+        })
+      : null;
+  }, [track, artworkUrl]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = !track ? 'none' : isPlaying ? 'playing' : 'paused';
+  }, [track, isPlaying]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !navigator.mediaSession.setPositionState) return;
+    if (!track || !isFinite(duration) || duration <= 0) return;
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate,
+        position: Math.min(Math.max(0, currentTime), duration),
+      });
+    } catch (err) {
+      console.warn("Media session position error:", err);
+    }
+  }, [track, currentTime, duration, playbackRate]);
+};
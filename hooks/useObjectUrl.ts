@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+
+/** Object URL for a blob that is revoked when the blob changes or the component unmounts. */
+export const useObjectUrl = (blob: Blob | undefined | null): string | undefined => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
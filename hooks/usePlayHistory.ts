@@ -0,0 +1,149 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Track, PlayRecord } from '../types';
+import { getTrackTitle } from '../utils/trackInfo';
+import { loadPlays, addPlay, clearPlays } from '../services/libraryDb';
+
+interface PlaybackState {
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+}
+
+// The play in progress; logged when the track is left
+interface Session {
+  track: Track;
+  startedAt: number | null;
+  listened: number;
+  // Date.now() when playback last (re)started, null while paused
+  playingSince: number | null;
+  furthest: number;
+  duration: number;
+}
+
+// Plays shorter than this (a track cued but never really heard) aren't logged
+const MIN_LISTENED = 1;
+// Reaching this far into a track counts as having finished it
+const COMPLETE_FRACTION = 0.9;
+
+const createSession = (track: Track): Session => ({
+  track,
+  startedAt: null,
+  listened: 0,
+  playingSince: null,
+  furthest: 0,
+  duration: 0,
+});
+
+const isComplete = (session: Session) => session.duration > 0 && session.furthest >= session.duration * COMPLETE_FRACTION;
+
+/**
+ * Logs every play of the current track (when it started, how long it was
+ * actually heard, finished or skipped) to IndexedDB, and returns the history.
+ * A play ends when another track starts, when a finished track starts over
+ * (repeat-one) and when the page is hidden for good.
+ */
+export const usePlayHistory = (track: Track | undefined, { isPlaying, currentTime, duration }: PlaybackState) => {
+  const [plays, setPlays] = useState<PlayRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const sessionRef = useRef<Session | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPlays()
+      .then(stored => {
+        // Keep anything logged while the history was loading
+        if (!cancelled) setPlays(prev => [...stored, ...prev]);
+      })
+      .catch(err => console.error("History restore error:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Logs the running session (if it was heard long enough) and clears it
+  const finish = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session || session.startedAt === null) return;
+    const listened = session.listened + (session.playingSince !== null ? (Date.now() - session.playingSince) / 1000 : 0);
+    if (listened < MIN_LISTENED) return;
+
+    const play: PlayRecord = {
+      trackId: session.track.id,
+      title: getTrackTitle(session.track),
+      artist: session.track.artist,
+      startedAt: session.startedAt,
+      listened: Math.round(listened),
+      completed: isComplete(session),
+    };
+    setPlays(prev => [...prev, play]);
+    addPlay(play).catch(err => console.error("History save error:", err));
+  }, []);
+
+  // Starts a new session for `track`, already counting if it is playing
+  const start = useCallback((track: Track, playing: boolean) => {
+    const session = createSession(track);
+    if (playing) {
+      session.startedAt = Date.now();
+      session.playingSince = session.startedAt;
+    }
+    sessionRef.current = session;
+  }, []);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (session?.track.id !== track?.id) {
+      finish();
+      if (track) start(track, isPlaying);
+      return;
+    }
+    if (!session) return;
+    const now = Date.now();
+    if (isPlaying && session.playingSince === null) {
+      session.playingSince = now;
+      session.startedAt ??= now;
+    } else if (!isPlaying && session.playingSince !== null) {
+      session.listened += (now - session.playingSince) / 1000;
+      session.playingSince = null;
+    }
+  }, [track, isPlaying, finish, start]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (duration > 0) session.duration = duration;
+    // Jumping back to the start of a finished track is a new play
+    if (currentTime < 1 && isComplete(session)) {
+      finish();
+      start(session.track, session.playingSince !== null);
+      return;
+    }
+    session.furthest = Math.max(session.furthest, currentTime);
+  }, [currentTime, duration, finish, start]);
+
+  // Closing the tab ends the play; if the page comes back it starts a new one
+  useEffect(() => {
+    const onPageHide = () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      finish();
+      start(session.track, session.playingSince !== null);
+    };
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, [finish, start]);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearPlays();
+      setPlays([]);
+    } catch (err) {
+      console.error("History clear error:", err);
+    }
+  }, []);
+
+  return { plays, isLoaded, clearHistory };
+};
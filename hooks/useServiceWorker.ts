@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// Long-lived tabs look for a new deploy this often
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers sw.js (production builds only: the dev server has none, see
+ * vite.config.ts) and reports when a new version has been downloaded and is
+ * waiting. `applyUpdate` switches to it and reloads the page.
+ */
+export const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  // The first install also takes control of the page; only a requested update reloads
+  const isUpdatingRef = useRef(false);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    let interval: number | undefined;
+
+    const onControllerChange = () => {
+      if (isUpdatingRef.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+
+    const register = () => {
+      navigator.serviceWorker.register('/sw.js')
+        .then(registration => {
+          // A worker that finishes installing while an older one runs the page is an update
+          if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+          registration.addEventListener('updatefound', () => {
+            const installing = registration.installing;
+            installing?.addEventListener('statechange', () => {
+              if (installing.state === 'installed' && navigator.serviceWorker.controller) setWaiting(installing);
+            });
+          });
+          interval = window.setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL);
+        })
+        .catch(err => console.warn("Service worker registration failed:", err));
+    };
+    // Not competing with the app's own first load
+    if (document.readyState === 'complete') register();
+    else window.addEventListener('load', register, { once: true });
+
+    return () => {
+      window.removeEventListener('load', register);
+      navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waiting) return;
+    isUpdatingRef.current = true;
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }, [waiting]);
+
+  const dismissUpdate = useCallback(() => setWaiting(null), []);
+
+  return { updateReady: waiting !== null, applyUpdate, dismissUpdate };
+};
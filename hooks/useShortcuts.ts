@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, ShortcutBindings, eventToCombo, isEditableTarget } from '../utils/shortcuts';
+
+/**
+ * Global keyboard shortcuts. Keys handled by a focused widget first (the
+ * track list's own arrows, text inputs, sliders) never reach the actions.
+ * Pass `enabled: false` while a modal captures the keyboard.
+ */
+export const useShortcuts = (
+  bindings: ShortcutBindings,
+  handlers: Record<ShortcutAction, () => void>,
+  enabled = true
+) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const actionsByCombo = new Map<string, ShortcutAction>();
+    (Object.keys(bindings) as ShortcutAction[]).forEach(action => {
+      if (bindings[action]) actionsByCombo.set(bindings[action], action);
+    });
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      const action = actionsByCombo.get(combo);
+      if (!action || isEditableTarget(e.target, combo)) return;
+      e.preventDefault();
+      handlersRef.current[action]();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [bindings, enabled]);
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef } from 'react';
+import { SleepTimer } from '../types';
+import { AudioEngine } from '../services/audioEngine';
+
+interface SleepTimerOptions {
+  engine: AudioEngine;
+  isPlaying: boolean;
+  /** Seconds until the current track ends, when the timer stops after it; null otherwise */
+  trackSecondsLeft: number | null;
+  fadeSeconds: number;
+  /** A duration timer ran out */
+  onExpire: () => void;
+}
+
+/**
+ * Countdown and fade-out for the sleep timer. Returns the seconds left before
+ * playback stops, or null while that isn't known yet (stop after a track that
+ * hasn't started). Stopping at the end of a track is up to the caller, which
+ * owns the ended handler; this only fades it out.
+ */
+export const useSleepTimer = (
+  timer: SleepTimer | null,
+  { engine, isPlaying, trackSecondsLeft, fadeSeconds, onExpire }: SleepTimerOptions
+) => {
+  const [now, setNow] = useState(Date.now);
+  const isFadingRef = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  const endsAt = timer?.mode === 'duration' ? timer.endsAt : null;
+  const secondsLeft = endsAt !== null ? Math.max(0, (endsAt - now) / 1000) : timer ? trackSecondsLeft : null;
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [endsAt]);
+
+  useEffect(() => {
+    if (endsAt !== null && secondsLeft === 0) onExpireRef.current();
+  }, [endsAt, secondsLeft]);
+
+  // Fade only while playing: pausing (or seeking back out of the window)
+  // restores the level, and resuming starts the fade over the time that's left.
+  const shouldFade = isPlaying && fadeSeconds > 0 && secondsLeft !== null && secondsLeft <= fadeSeconds;
+  useEffect(() => {
+    if (shouldFade && !isFadingRef.current) {
+      engine.fadeOut(secondsLeft ?? 0);
+      isFadingRef.current = true;
+    } else if (!shouldFade && isFadingRef.current) {
+      engine.cancelFade();
+      isFadingRef.current = false;
+    }
+  }, [engine, shouldFade]); // secondsLeft is only read when the fade starts
+
+  useEffect(() => () => engine.cancelFade(), [engine]);
+
+  return secondsLeft;
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Track } from '../types';
+import { computeWaveform } from '../services/waveform';
+
+/**
+ * Computes the seek bar waveform of `track` the first time it is needed and
+ * stores it on the track, so it is persisted with the library. One track at
+ * a time: skipping ahead while one is decoding picks the new one up after.
+ */
+export const useWaveform = (track: Track | undefined, setTracks: Dispatch<SetStateAction<Track[]>>) => {
+  const [computingId, setComputingId] = useState<string | null>(null);
+  // Files the browser could not decode or too long to analyse; retried on the next launch
+  const failedRef = useRef<Set<string>>(new Set());
+
+  const needed = track && !track.waveform && !failedRef.current.has(track.id) ? track : undefined;
+  const next = computingId ? undefined : needed;
+
+  useEffect(() => {
+    if (!next) return;
+    const { id, file } = next;
+    setComputingId(id);
+
+    computeWaveform(file)
+      .then(waveform => {
+        setTracks(prev => prev.map(item => (item.id === id && !item.waveform ? { ...item, waveform } : item)));
+      })
+      .catch(err => {
+        console.warn("Waveform error:", err);
+        failedRef.current.add(id);
+      })
+      .finally(() => setComputingId(null));
+  }, [next, setTracks]);
+
+  return { isComputing: needed !== undefined };
+};
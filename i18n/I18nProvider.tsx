@@ -0,0 +1,45 @@
+import React, { createContext, useState, useEffect, useMemo } from 'react';
+import { Locale, LocalePreference, Translate, createTranslator, isLocale, resolveLocale } from './index';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+export interface I18nContextValue {
+  /** The locale in use, after resolving 'auto' */
+  locale: Locale;
+  preference: LocalePreference;
+  setPreference: (preference: LocalePreference) => void;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+const LOCALE_KEY = 'locale';
+
+const loadPreference = (): LocalePreference => {
+  const stored = loadSetting<unknown>(LOCALE_KEY, 'auto');
+  // A locale that was dropped since it was saved falls back to detection
+  return isLocale(stored) ? stored : 'auto';
+};
+
+/** Holds the interface language for the whole app; read it with hooks/useI18n. */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preference, setPreference] = useState<LocalePreference>(loadPreference);
+  const [locale, setLocale] = useState<Locale>(() => resolveLocale(preference));
+
+  useEffect(() => {
+    saveSetting(LOCALE_KEY, preference);
+    setLocale(resolveLocale(preference));
+    if (preference !== 'auto') return;
+    // Follows the browser when its language setting changes while the app is open
+    const onLanguageChange = () => setLocale(resolveLocale('auto'));
+    window.addEventListener('languagechange', onLanguageChange);
+    return () => window.removeEventListener('languagechange', onLanguageChange);
+  }, [preference]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => ({ locale, preference, setPreference, t: createTranslator(locale) }), [locale, preference]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
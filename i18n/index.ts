@@ -0,0 +1,77 @@
+import { zhCN } from './locales/zh-CN';
+import { en } from './locales/en';
+
+// Message catalogs and the translator built from them. zh-CN is the source
+// catalog: its keys are the MessageKey type, so every other catalog has to
+// cover the same keys. Adding a language means adding a file under locales/
+// and an entry in LOCALES and CATALOGS.
+
+export type Locale = 'zh-CN' | 'en';
+/** The setting: a fixed locale, or 'auto' to follow the browser */
+export type LocalePreference = Locale | 'auto';
+
+/** Forms picked by Intl.PluralRules; `other` is the one every language has. */
+export interface PluralMessage {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+/** "{name}" placeholders are filled from the params; a plural message is chosen by `count`. */
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof zhCN;
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+/** Every shipped locale, labelled in its own language for the switcher. */
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: "简体中文" },
+  { id: 'en', label: "English" },
+];
+
+const CATALOGS: Record<Locale, Catalog> = { 'zh-CN': zhCN, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/**
+ * First of the browser's languages there is a catalog for, matching on the
+ * base language when the region differs ("zh-TW" → zh-CN, "en-GB" → en).
+ */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const exact = LOCALES.find(locale => locale.id.toLowerCase() === language.toLowerCase());
+    if (exact) return exact.id;
+    const base = language.split('-')[0].toLowerCase();
+    const sameBase = LOCALES.find(locale => locale.id.split('-')[0].toLowerCase() === base);
+    if (sameBase) return sameBase.id;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const resolveLocale = (preference: LocalePreference): Locale =>
+  preference === 'auto' ? detectLocale(navigator.languages?.length ? navigator.languages : [navigator.language]) : preference;
+
+/** Number params are formatted for the locale; unknown placeholders are left as they are. */
+export const createTranslator = (locale: Locale): Translate => {
+  const catalog = CATALOGS[locale];
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+
+  return (key, params = {}) => {
+    const message: Message = catalog[key] ?? zhCN[key];
+    const template =
+      typeof message === 'string' ? message : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+};
@@ -0,0 +1,342 @@
+import type { Catalog } from '../index';
+
+export const en: Catalog = {
+  // Shared
+  'common.close': "Close",
+  'common.cancel': "Cancel",
+  'common.off': "Off",
+  'common.trackCount': { one: "{count} track", other: "{count} tracks" },
+  'common.seconds': "{count}s",
+  'common.minutes': "{count} min",
+  'common.listSeparator': ", ",
+  // Track list sorting and grouping
+  'sort.manual': "List order",
+  'sort.title': "Title",
+  'sort.artist': "Artist",
+  'sort.album': "Album",
+  'sort.year': "Year",
+  'sort.genre': "Genre",
+  'sort.fileName': "File name",
+  'sort.duration': "Duration",
+  'sort.addedAt': "Date added",
+  'sort.playCount': "Play count",
+  'sort.bpm': "BPM",
+  'sort.key': "Key",
+  'sort.energy': "Energy",
+  'group.none': "No grouping",
+  'group.artist': "By artist",
+  'group.album': "By album",
+  'group.unknownArtist': "Unknown artist",
+  'group.unknownAlbum': "Unknown album",
+  'toolbar.searchPlaceholder': "Search titles, artists, albums or file names",
+  'toolbar.clearSearch': "Clear search",
+  'toolbar.sort': "Sort",
+  'toolbar.ascending': "Ascending",
+  'toolbar.descending': "Descending",
+  'trackList.selected': { one: "{count} track selected", other: "{count} tracks selected" },
+  'trackList.selectAll': "Select all",
+  'trackList.moveToTop': "Move to top",
+  'trackList.clearSelection': "Clear selection",
+  'trackList.noMatches': "No matching tracks",
+  'trackList.dragToReorder': "Drag to reorder",
+  'trackList.energy': "energy {percent}%",
+  // Track actions
+  'track.more': "More actions",
+  'track.playNext': "Play next",
+  'track.addToQueue': "Add to queue",
+  'track.addToPlaylist': "Add to playlist",
+  'track.newPlaylist': "New playlist…",
+  // Queue
+  'queue.nowPlaying': "Now playing",
+  'queue.nothing': "Nothing",
+  'queue.title': "Queue",
+  'queue.clear': "Clear queue",
+  'queue.hint': "Use “Play next” or “Add to queue” to line tracks up; the queue plays before the rest of the list.",
+  'queue.remove': "Remove from queue",
+  'queue.upNext': "Up next",
+  // Command palette
+  'palette.placeholder': "Search tracks or commands…",
+  'palette.noResults': "No matches",
+  // Lyrics
+  'lyrics.empty': "No lyrics",
+  'lyrics.hint': "Import a .lrc file with the same name as the track to show them",
+  // Seek bar
+  'seek.label': "Playback position",
+  'seek.loopHint': "Shift + click sets loop start A, Alt + click sets loop end B",
+  // Visualizer
+  'visualizer.title': "Visualizer",
+  'visualizer.button': "Visuals",
+  'visualizer.fftSize': "FFT size",
+  'visualizer.smoothing': "Smoothing",
+  'visualizer.radialBars': "Radial spectrum",
+  'visualizer.linearSpectrum': "Linear spectrum",
+  'visualizer.oscilloscope': "Oscilloscope",
+  'visualizer.spectrogram': "Spectrogram",
+  // Keyboard shortcuts
+  'shortcut.togglePlay': "Play / pause",
+  'shortcut.seekBackward': "Back 5 seconds",
+  'shortcut.seekForward': "Forward 5 seconds",
+  'shortcut.volumeUp': "Volume up",
+  'shortcut.volumeDown': "Volume down",
+  'shortcut.next': "Next track",
+  'shortcut.previous': "Previous track",
+  'shortcut.mute': "Mute",
+  'shortcut.shuffle': "Shuffle",
+  'shortcut.repeat': "Cycle repeat mode",
+  'shortcut.toggleLyrics': "Show / hide lyrics",
+  'shortcut.toggleQueue': "Show / hide queue",
+  'shortcut.loopStart': "Set loop start A",
+  'shortcut.loopEnd': "Set loop end B",
+  'shortcut.clearLoop': "Clear A-B loop",
+  'shortcut.commandPalette': "Command palette",
+  'shortcut.showShortcuts': "Keyboard shortcuts",
+  'key.space': "Space",
+  'shortcuts.title': "Keyboard shortcuts",
+  'shortcuts.reset': "Restore defaults",
+  'shortcuts.rebindHint': "Click, then press the new key",
+  'shortcuts.recording': "Press a key…",
+  'shortcuts.unset': "Not set",
+  'shortcuts.footer': "Shortcuts don't fire while typing in a text field. Click a key to rebind it, Esc to cancel.",
+  // Playlists
+  'playlist.namePlaceholder': "Playlist name",
+  'playlist.defaultTitle': "Playlist",
+  'playlist.library': "Library · all tracks",
+  'playlist.rename': "Rename",
+  'playlist.duplicate': "Duplicate playlist",
+  'playlist.delete': "Delete playlist",
+  'playlist.deleteConfirm': "Delete the playlist “{name}”? Its tracks stay in the library.",
+  'playlist.new': "New playlist",
+  'playlist.smart': "Smart playlist…",
+  'playlist.importFile': "Import playlist file",
+  'playlist.export': "Export this list",
+  'playlist.copyName': "{name} copy",
+  'playlist.copyNameNumbered': "{name} copy {number}",
+  // Import
+  'duplicates.title': { one: "{count} duplicate track found", other: "{count} duplicate tracks found" },
+  'duplicates.description': {
+    one: "Of the {count} track in this import, these files are identical to tracks in the library (or to other files in this import).",
+    other: "Of the {count} tracks in this import, these files are identical to tracks in the library (or to other files in this import).",
+  },
+  'duplicates.inLibrary': "Already in library: {title}",
+  'duplicates.inImport': "Repeated in this import",
+  'duplicates.more': { one: "and {count} more…", other: "and {count} more…" },
+  'duplicates.cancel': "Cancel import",
+  'duplicates.keepAll': "Keep all",
+  'duplicates.skip': "Skip duplicates",
+  'import.imported': { one: "imported {count} track", other: "imported {count} tracks" },
+  'import.duplicatesSkipped': { one: "skipped {count} duplicate", other: "skipped {count} duplicates" },
+  'import.duplicatesKept': { one: "kept {count} duplicate", other: "kept {count} duplicates" },
+  'import.lyricsAttached': { one: "added lyrics to {count} track", other: "added lyrics to {count} tracks" },
+  'import.unsupported': { one: "{count} file not recognised", other: "{count} files not recognised" },
+  'import.ignored': { one: "ignored {count} non-audio file", other: "ignored {count} non-audio files" },
+  'import.playlist': { one: "imported playlist “{name}”: {count} track matched", other: "imported playlist “{name}”: {count} tracks matched" },
+  'import.playlistPartial': {
+    one: "imported playlist “{name}”: {count} track matched, {missing} not found",
+    other: "imported playlist “{name}”: {count} tracks matched, {missing} not found",
+  },
+  'import.playlistEmpty': "none of the tracks in “{name}” are in the library, so no playlist was created",
+  'import.summary': "{parts}.",
+  'import.showUnsupported': "Show unrecognised files",
+  'import.showUnresolved': "Show tracks not found from “{name}”",
+  'import.failed': "The import failed, so some files may not have been added to the library. Please try again.",
+  // Smart playlists
+  'smart.title': "Smart playlist",
+  'smart.fromDescription': "From a description (AI)",
+  'smart.fromRules': "From rules",
+  'smart.descriptionPlaceholder': "Describe what you want to hear, e.g. quiet songs for a rainy night, no vocals",
+  'smart.example.rainyNight': "Quiet songs for a rainy night, no vocals",
+  'smart.example.running': "Fast songs for running",
+  'smart.example.weekendCafe': "A café on a weekend morning",
+  'smart.generate': "Generate",
+  'smart.generating': "Generating...",
+  'smart.generateFailed': "Could not generate: {message}",
+  'smart.noMatchesForDescription': "No tracks match that description. Try putting it another way.",
+  'smart.privacyNote': "Track details and existing AI tags are sent to the service chosen in the AI settings.",
+  'smart.privacyNoteLimited': "Track details and existing AI tags are sent to the service chosen in the AI settings; only the first {count} tracks are considered.",
+  'smart.genre': "Genre",
+  'smart.anyGenre': "Any",
+  'smart.noLimit': "Any",
+  'smart.maxMinutesBefore': "Shorter than",
+  'smart.maxMinutesAfter': "minutes",
+  'smart.notPlayedBefore': "Not played for",
+  'smart.notPlayedAfter': "days",
+  'smart.preview': "Preview",
+  'smart.rulesSummary': { one: "{count} track matches the rules.", other: "{count} tracks match the rules." },
+  'smart.noMatchesForRules': "No tracks match these rules.",
+  'smart.ruleMaxMinutes': { one: "under {count} minute", other: "under {count} minutes" },
+  'smart.ruleNotPlayed': { one: "not played for {count} day", other: "not played for {count} days" },
+  'smart.ruleAll': "All tracks",
+  'smart.draftNote': { one: " ({count} track now; remove any you don't want)", other: " ({count} tracks now; remove any you don't want)" },
+  'smart.remove': "Remove",
+  'smart.save': "Save playlist",
+  // Listening statistics
+  'stats.title': "Listening statistics",
+  'stats.exportAs': "Export as {format}",
+  'stats.clear': "Clear listening history",
+  'stats.clearConfirm': "Clear the whole listening history?",
+  'stats.empty': "No listening history yet. Play a few tracks and check back.",
+  'stats.totalListened': "Total listening time",
+  'stats.playCount': "Plays",
+  'stats.skipRate': "Skip rate",
+  'stats.tracksHeard': "Tracks heard",
+  'stats.listeningTime': "Listening time",
+  'stats.byDay': "By day",
+  'stats.byWeek': "By week",
+  'stats.dayTooltip': "{day}: {listened}",
+  'stats.weekTooltip': "Week of {day}: {listened}",
+  'stats.topTracks': "Most played",
+  'stats.topArtists': "Top artists",
+  'stats.noArtists': "The tracks have no artist information",
+  'stats.recent': "Recently played",
+  'stats.skipped': "Skipped",
+  'stats.seconds': { one: "{count} second", other: "{count} seconds" },
+  'stats.minutes': { one: "{count} minute", other: "{count} minutes" },
+  'stats.hoursMinutes': "{hours} h {minutes} min",
+  'stats.exportFileName': "listening-history-{date}",
+  // Sleep timer
+  'sleep.title': "Sleep timer",
+  'sleep.button': "Timer",
+  'sleep.cancel': "Cancel timer",
+  'sleep.afterTrack': "After this track",
+  'sleep.afterQueue': "After the queue",
+  'sleep.afterTrackBadge': "Track",
+  'sleep.afterQueueBadge': "Queue",
+  'sleep.minutesFromNow': "minutes from now",
+  'sleep.start': "Start",
+  'sleep.fade': "Fade out before stopping",
+  'sleep.queueHint': "“After the queue” plays the queue and the rest of the current list, then stops instead of repeating.",
+  // Practice (speed, pitch, A-B loop)
+  'practice.title': "Speed, pitch and A-B loop",
+  'practice.button': "Practice",
+  'practice.pitchBadge': "key {semitones}",
+  'practice.setMarker': "Set {name} to the current position",
+  'practice.nudgeEarlier': "Earlier (hold Shift for bigger steps)",
+  'practice.nudgeLater': "Later (hold Shift for bigger steps)",
+  'practice.speed': "Playback speed",
+  'practice.preservePitch': "Keep pitch when changing speed",
+  'practice.transpose': "Transpose",
+  'practice.semitones': { one: "{semitones} semitone", other: "{semitones} semitones" },
+  'practice.loop': "A-B loop",
+  'practice.clearLoop': "Clear loop",
+  'practice.reset': "Reset speed and pitch",
+  // Loudness
+  'loudness.title': "Loudness normalization",
+  'loudness.button': "Loudness",
+  'loudness.heading': "Loudness normalization (ReplayGain)",
+  'loudness.track': "Track",
+  'loudness.album': "Album",
+  'loudness.preAmp': "Pre-amp",
+  'loudness.analyzing': { one: "Analyzing loudness, {count} track left…", other: "Analyzing loudness, {count} tracks left…" },
+  'loudness.hint': "ReplayGain tags in the files are used first; tracks without them are measured in the background with EBU R128.",
+  // Crossfade
+  'crossfade.title': "Transitions",
+  'crossfade.fading': { one: "Crossfade {count} second", other: "Crossfade {count} seconds" },
+  'crossfade.gapless': "Gapless playback",
+  'crossfade.gaplessShort': "Gapless",
+  'crossfade.hint': "At 0 the next track follows without a gap, which suits live albums and continuous mixes.",
+  'crossfade.smoothShuffle': "Smooth shuffle",
+  'crossfade.smoothShuffleHint': "When shuffling, keeps tracks with similar BPM, key and energy next to each other. Only applies to tracks whose audio has been analyzed.",
+  // Equalizer
+  'eq.title': "Equalizer and effects",
+  'eq.heading': "Equalizer",
+  'eq.reset': "Reset",
+  'eq.disable': "Turn effects off (bypass)",
+  'eq.enable': "Turn effects on",
+  'eq.custom': "Custom",
+  'eq.builtIn': "Built-in",
+  'eq.myPresets': "My presets",
+  'eq.deletePreset': "Delete preset",
+  'eq.savePlaceholder': "Save current settings as a preset…",
+  'eq.savePreset': "Save preset",
+  'eq.bass': "Bass",
+  'eq.treble': "Treble",
+  'eq.balance': "Balance",
+  'eq.centered': "Center",
+  'eq.limiter': "Limiter (prevents clipping from too much gain)",
+  'eq.preset.flat': "Flat",
+  'eq.preset.bassBoost': "Bass boost",
+  'eq.preset.trebleBoost': "Treble boost",
+  'eq.preset.vocal': "Vocal",
+  'eq.preset.rock': "Rock",
+  'eq.preset.pop': "Pop",
+  'eq.preset.jazz': "Jazz",
+  'eq.preset.classical': "Classical",
+  'eq.preset.electronic': "Electronic",
+  'eq.preset.lateNight': "Late night",
+  // AI playlist analysis
+  'ai.title': "AI playlist",
+  'ai.mode.vibe': "Vibe",
+  'ai.mode.vibeHint': "Sum up the playlist's atmosphere, mood and genres",
+  'ai.mode.tags': "Tags",
+  'ai.mode.tagsHint': "Write descriptive tags for every track (searchable)",
+  'ai.mode.flow': "Flow",
+  'ai.mode.flowHint': "Reorder the playlist along an energy arc",
+  'ai.provider.gemini': "Gemini",
+  'ai.provider.openai': "OpenAI-compatible API (self-hostable)",
+  'ai.provider.offline': "Offline (guessed from tags)",
+  'ai.settings': "AI settings",
+  'ai.service': "Service",
+  'ai.endpointPlaceholder': "Endpoint, e.g. http://localhost:11434/v1",
+  'ai.modelPlaceholder': "Model name",
+  'ai.apiKeyPlaceholder': "API key (optional)",
+  'ai.outputLanguage': "Output language",
+  'ai.followInterface': "Same as interface",
+  'ai.analyze': "Analyze",
+  'ai.analyzing': "Analyzing...",
+  'ai.emptyLibrary': "Add music to enable AI analysis...",
+  'ai.prompt': "Pick a mode, then press Analyze to read the playlist.",
+  'ai.tagged': {
+    one: "Tagged {count} track. Tags can be searched from the search box.",
+    other: "Tagged {count} tracks. Tags can be searched from the search box.",
+  },
+  'ai.applyOrder': { one: "Use this order ({count} track)", other: "Use this order ({count} tracks)" },
+  'ai.energyCurve': "Energy curve",
+  'ai.limited': "Only the first {count} tracks are analyzed",
+  'ai.cached': "Cached result",
+  'ai.noGeminiKey': "No Gemini API key is configured. Choose another service in the AI settings.",
+  'ai.failed': "AI analysis failed: {message}",
+  // Storage
+  'storage.loadFailed': "Couldn't read the saved library. Tracks imported now may not be kept.",
+  'storage.quotaExceeded': "Storage is full, so newly imported tracks are only available in this session. Clearing the library frees up space.",
+  'storage.saveFailed': "Couldn't save the library. Some tracks may be missing after a reload.",
+  'storage.clearFailed': "Couldn't clear the library. Please try again.",
+  'storage.blocked': "The app is still open in another tab on an older version, so the library can't be read or saved. Close the other tabs and reload.",
+  // Player
+  'player.selectMusic': "Select music",
+  'player.showVinyl': "Show record",
+  'player.showLyrics': "Show lyrics",
+  'player.lyrics': "Lyrics",
+  'player.stats': "Stats",
+  'repeat.off': "Repeat off",
+  'repeat.all': "Repeat list",
+  'repeat.one': "Repeat track",
+  // Library
+  'library.name': "Library",
+  'library.trackCount': { one: "{count} track", other: "{count} tracks" },
+  'library.clear': "Clear library",
+  'library.clearConfirm': "Clear the library? Imported tracks and playlists will be deleted from this device.",
+  'library.deleteConfirm': {
+    one: "Delete {count} track from the library? It will be removed from this device and from every playlist.",
+    other: "Delete {count} tracks from the library? They will be removed from this device and from every playlist.",
+  },
+  'library.importFolder': "Import folder",
+  'library.import': "Import",
+  'library.importing': "Importing",
+  'library.removeFromPlaylist': "Remove from playlist",
+  'library.deleteFromLibrary': "Delete from library",
+  'empty.playlist': "This playlist is empty",
+  'empty.playlistHint': "Add tracks from the library with the “+” next to them",
+  'empty.library': "Press “Import” at the top right",
+  'empty.libraryHint': "or drop files here on a computer",
+  'update.ready': "A new version has been downloaded. Reload to start using it.",
+  'update.reload': "Reload",
+  // Command palette entries besides the shortcuts
+  'command.clearQueue': "Clear queue",
+  'command.showLibrary': "Open library",
+  'command.showStats': "Listening statistics",
+  'command.smartPlaylist': "New smart playlist",
+  'command.openPlaylist': "Open playlist: {name}",
+  // Interface language
+  'language.title': "Interface language",
+  'language.auto': "Browser default ({language})",
+};
@@ -0,0 +1,334 @@
+import type { Message } from '../index';
+
+// Source catalog: its keys define MessageKey, so a new string starts here.
+// "{name}" placeholders are filled in by the translator; Chinese has no plural
+// forms, so counts only need a plain string.
+
+export const zhCN = {
+  // Shared
+  'common.close': "关闭",
+  'common.cancel': "取消",
+  'common.off': "关闭",
+  'common.trackCount': "{count} 首",
+  'common.seconds': "{count} 秒",
+  'common.minutes': "{count} 分钟",
+  'common.listSeparator': "，",
+  // Track list sorting and grouping
+  'sort.manual': "列表顺序",
+  'sort.title': "标题",
+  'sort.artist': "艺人",
+  'sort.album': "专辑",
+  'sort.year': "年份",
+  'sort.genre': "流派",
+  'sort.fileName': "文件名",
+  'sort.duration': "时长",
+  'sort.addedAt': "添加时间",
+  'sort.playCount': "播放次数",
+  'sort.bpm': "BPM",
+  'sort.key': "调性",
+  'sort.energy': "能量",
+  'group.none': "不分组",
+  'group.artist': "按艺人",
+  'group.album': "按专辑",
+  'group.unknownArtist': "未知艺人",
+  'group.unknownAlbum': "未知专辑",
+  'toolbar.searchPlaceholder': "搜索标题、艺人、专辑或文件名",
+  'toolbar.clearSearch': "清除搜索",
+  'toolbar.sort': "排序",
+  'toolbar.ascending': "升序",
+  'toolbar.descending': "降序",
+  'trackList.selected': "已选 {count} 首",
+  'trackList.selectAll': "全选",
+  'trackList.moveToTop': "移到顶部",
+  'trackList.clearSelection': "取消选择",
+  'trackList.noMatches': "没有匹配的歌曲",
+  'trackList.dragToReorder': "拖动排序",
+  'trackList.energy': "能量 {percent}%",
+  // Track actions
+  'track.more': "更多操作",
+  'track.playNext': "下一首播放",
+  'track.addToQueue': "添加到队列",
+  'track.addToPlaylist': "添加到歌单",
+  'track.newPlaylist': "新建歌单…",
+  // Queue
+  'queue.nowPlaying': "正在播放",
+  'queue.nothing': "暂无",
+  'queue.title': "播放队列",
+  'queue.clear': "清空队列",
+  'queue.hint': "用“下一首播放”或“添加到队列”插队，队列优先于列表顺序播放。",
+  'queue.remove': "移出队列",
+  'queue.upNext': "接下来",
+  // Command palette
+  'palette.placeholder': "搜索歌曲或命令…",
+  'palette.noResults': "没有匹配的结果",
+  // Lyrics
+  'lyrics.empty': "暂无歌词",
+  'lyrics.hint': "把同名 .lrc 文件和歌曲一起导入即可显示",
+  // Seek bar
+  'seek.label': "播放进度",
+  'seek.loopHint': "Shift + 点击设置循环起点 A，Alt + 点击设置终点 B",
+  // Visualizer
+  'visualizer.title': "可视化效果",
+  'visualizer.button': "视效",
+  'visualizer.fftSize': "FFT 大小",
+  'visualizer.smoothing': "平滑",
+  'visualizer.radialBars': "环形频谱",
+  'visualizer.linearSpectrum': "线性频谱",
+  'visualizer.oscilloscope': "示波器",
+  'visualizer.spectrogram': "声谱瀑布",
+  // Keyboard shortcuts
+  'shortcut.togglePlay': "播放 / 暂停",
+  'shortcut.seekBackward': "后退 5 秒",
+  'shortcut.seekForward': "前进 5 秒",
+  'shortcut.volumeUp': "音量 +",
+  'shortcut.volumeDown': "音量 -",
+  'shortcut.next': "下一首",
+  'shortcut.previous': "上一首",
+  'shortcut.mute': "静音",
+  'shortcut.shuffle': "随机播放",
+  'shortcut.repeat': "切换循环模式",
+  'shortcut.toggleLyrics': "显示 / 隐藏歌词",
+  'shortcut.toggleQueue': "显示 / 隐藏播放队列",
+  'shortcut.loopStart': "设置循环起点 A",
+  'shortcut.loopEnd': "设置循环终点 B",
+  'shortcut.clearLoop': "清除 A-B 循环",
+  'shortcut.commandPalette': "命令面板",
+  'shortcut.showShortcuts': "快捷键列表",
+  'key.space': "空格",
+  'shortcuts.title': "键盘快捷键",
+  'shortcuts.reset': "恢复默认",
+  'shortcuts.rebindHint': "点击后按下新的按键",
+  'shortcuts.recording': "按下按键…",
+  'shortcuts.unset': "未设置",
+  'shortcuts.footer': "在输入框中打字时快捷键不会触发。点击按键可重新设置，Esc 取消。",
+  // Playlists
+  'playlist.namePlaceholder': "歌单名称",
+  'playlist.defaultTitle': "播放列表",
+  'playlist.library': "曲库 · 全部歌曲",
+  'playlist.rename': "重命名",
+  'playlist.duplicate': "复制歌单",
+  'playlist.delete': "删除歌单",
+  'playlist.deleteConfirm': "删除歌单“{name}”？歌曲仍会保留在曲库中。",
+  'playlist.new': "新建歌单",
+  'playlist.smart': "智能歌单…",
+  'playlist.importFile': "导入歌单文件",
+  'playlist.export': "导出当前列表",
+  'playlist.copyName': "{name} 副本",
+  'playlist.copyNameNumbered': "{name} 副本 {number}",
+  // Import
+  'duplicates.title': "发现 {count} 首重复歌曲",
+  'duplicates.description': "本次导入的 {count} 首歌曲中，以下文件的内容与曲库中的歌曲（或本次导入的其他文件）完全相同。",
+  'duplicates.inLibrary': "已在曲库：{title}",
+  'duplicates.inImport': "本次导入中重复",
+  'duplicates.more': "以及另外 {count} 首…",
+  'duplicates.cancel': "取消导入",
+  'duplicates.keepAll': "全部保留",
+  'duplicates.skip': "跳过重复",
+  'import.imported': "导入 {count} 首",
+  'import.duplicatesSkipped': "跳过重复 {count} 首",
+  'import.duplicatesKept': "保留重复 {count} 首",
+  'import.lyricsAttached': "为 {count} 首添加歌词",
+  'import.unsupported': "{count} 个文件无法识别",
+  'import.ignored': "忽略 {count} 个非音频文件",
+  'import.playlist': "导入歌单“{name}”：匹配 {count} 首",
+  'import.playlistPartial': "导入歌单“{name}”：匹配 {count} 首，{missing} 首未找到",
+  'import.playlistEmpty': "歌单“{name}”中的歌曲都不在曲库中，未创建歌单",
+  'import.summary': "{parts}。",
+  'import.showUnsupported': "查看无法识别的文件",
+  'import.showUnresolved': "查看“{name}”中未找到的歌曲",
+  'import.failed': "导入失败，部分文件可能没有加入曲库。请重试。",
+  // Smart playlists
+  'smart.title': "智能歌单",
+  'smart.fromDescription': "按描述（AI）",
+  'smart.fromRules': "按规则",
+  'smart.descriptionPlaceholder': "描述想听的歌，例如：雨夜里安静的歌，不要人声",
+  'smart.example.rainyNight': "雨夜里安静的歌，不要人声",
+  'smart.example.running': "适合跑步的快歌",
+  'smart.example.weekendCafe': "周末早晨的咖啡馆",
+  'smart.generate': "生成",
+  'smart.generating': "生成中...",
+  'smart.generateFailed': "生成失败：{message}",
+  'smart.noMatchesForDescription': "没有找到符合描述的歌曲，换个说法试试。",
+  'smart.privacyNote': "歌曲信息和已有的 AI 标签会发送给 AI 设置中选择的服务。",
+  'smart.privacyNoteLimited': "歌曲信息和已有的 AI 标签会发送给 AI 设置中选择的服务，仅从前 {count} 首中挑选。",
+  'smart.genre': "曲风",
+  'smart.anyGenre': "任意",
+  'smart.noLimit': "不限",
+  'smart.maxMinutesBefore': "时长少于",
+  'smart.maxMinutesAfter': "分钟",
+  'smart.notPlayedBefore': "超过",
+  'smart.notPlayedAfter': "天未听",
+  'smart.preview': "预览",
+  'smart.rulesSummary': "符合规则的歌曲共 {count} 首。",
+  'smart.noMatchesForRules': "没有符合这些规则的歌曲。",
+  'smart.ruleMaxMinutes': "{count} 分钟以内",
+  'smart.ruleNotPlayed': "{count} 天未听",
+  'smart.ruleAll': "全部歌曲",
+  'smart.draftNote': "（当前 {count} 首，可移除不想要的歌曲）",
+  'smart.remove': "移除",
+  'smart.save': "保存歌单",
+  // Listening statistics
+  'stats.title': "收听统计",
+  'stats.exportAs': "导出为 {format}",
+  'stats.clear': "清除收听记录",
+  'stats.clearConfirm': "确定要清除全部收听记录吗？",
+  'stats.empty': "还没有收听记录，播放几首歌后再来看看。",
+  'stats.totalListened': "总收听时长",
+  'stats.playCount': "播放次数",
+  'stats.skipRate': "跳过率",
+  'stats.tracksHeard': "听过的歌曲",
+  'stats.listeningTime': "收听时长",
+  'stats.byDay': "按天",
+  'stats.byWeek': "按周",
+  'stats.dayTooltip': "{day}：{listened}",
+  'stats.weekTooltip': "{day} 起一周：{listened}",
+  'stats.topTracks': "最常播放",
+  'stats.topArtists': "最常听的艺人",
+  'stats.noArtists': "歌曲没有艺人信息",
+  'stats.recent': "最近播放",
+  'stats.skipped': "已跳过",
+  'stats.seconds': "{count} 秒",
+  'stats.minutes': "{count} 分钟",
+  'stats.hoursMinutes': "{hours} 小时 {minutes} 分",
+  'stats.exportFileName': "收听记录-{date}",
+  // Sleep timer
+  'sleep.title': "睡眠定时",
+  'sleep.button': "定时",
+  'sleep.cancel': "取消定时",
+  'sleep.afterTrack': "播完本曲",
+  'sleep.afterQueue': "播完队列",
+  'sleep.afterTrackBadge': "本曲后",
+  'sleep.afterQueueBadge': "队列后",
+  'sleep.minutesFromNow': "分钟后",
+  'sleep.start': "开始",
+  'sleep.fade': "结束前淡出",
+  'sleep.queueHint': "“播完队列”会播完待播队列和当前列表后停止，不再循环。",
+  // Practice (speed, pitch, A-B loop)
+  'practice.title': "变速、变调与 A-B 循环",
+  'practice.button': "练习",
+  'practice.pitchBadge': "调{semitones}",
+  'practice.setMarker': "把当前位置设为 {name}",
+  'practice.nudgeEarlier': "提前（按住 Shift 步长更大）",
+  'practice.nudgeLater': "推后（按住 Shift 步长更大）",
+  'practice.speed': "播放速度",
+  'practice.preservePitch': "变速时保持音调",
+  'practice.transpose': "移调",
+  'practice.semitones': "{semitones} 半音",
+  'practice.loop': "A-B 循环",
+  'practice.clearLoop': "清除循环",
+  'practice.reset': "恢复原速原调",
+  // Loudness
+  'loudness.title': "响度均衡",
+  'loudness.button': "响度",
+  'loudness.heading': "响度均衡 (ReplayGain)",
+  'loudness.track': "单曲",
+  'loudness.album': "专辑",
+  'loudness.preAmp': "前置增益",
+  'loudness.analyzing': "正在分析响度，剩余 {count} 首…",
+  'loudness.hint': "优先使用文件自带的 ReplayGain 标签，没有标签的歌曲会在后台按 EBU R128 测量。",
+  // Crossfade
+  'crossfade.title': "歌曲过渡",
+  'crossfade.fading': "淡入淡出 {count} 秒",
+  'crossfade.gapless': "无缝播放",
+  'crossfade.gaplessShort': "无缝",
+  'crossfade.hint': "设为 0 时无缝衔接下一首，适合现场专辑和连续混音。",
+  'crossfade.smoothShuffle': "平滑随机播放",
+  'crossfade.smoothShuffleHint': "随机播放时让 BPM、调性和能量相近的歌曲相邻，仅对已完成音频分析的歌曲生效。",
+  // Equalizer
+  'eq.title': "均衡器与音效",
+  'eq.heading': "均衡器",
+  'eq.reset': "重置",
+  'eq.disable': "关闭音效（直通）",
+  'eq.enable': "开启音效",
+  'eq.custom': "自定义",
+  'eq.builtIn': "内置",
+  'eq.myPresets': "我的预设",
+  'eq.deletePreset': "删除预设",
+  'eq.savePlaceholder': "保存当前为预设…",
+  'eq.savePreset': "保存预设",
+  'eq.bass': "低音",
+  'eq.treble': "高音",
+  'eq.balance': "平衡",
+  'eq.centered': "居中",
+  'eq.limiter': "限幅器（防止增益过大导致削波）",
+  'eq.preset.flat': "平直",
+  'eq.preset.bassBoost': "低音增强",
+  'eq.preset.trebleBoost': "高音增强",
+  'eq.preset.vocal': "人声",
+  'eq.preset.rock': "摇滚",
+  'eq.preset.pop': "流行",
+  'eq.preset.jazz': "爵士",
+  'eq.preset.classical': "古典",
+  'eq.preset.electronic': "电子",
+  'eq.preset.lateNight': "深夜",
+  // AI playlist analysis
+  'ai.title': "AI 歌单",
+  'ai.mode.vibe': "氛围",
+  'ai.mode.vibeHint': "总结歌单的氛围、情绪和曲风",
+  'ai.mode.tags': "标签",
+  'ai.mode.tagsHint': "为每首歌生成描述标签（可用于搜索）",
+  'ai.mode.flow': "编排",
+  'ai.mode.flowHint': "按能量起伏重新排列歌单",
+  'ai.provider.gemini': "Gemini",
+  'ai.provider.openai': "OpenAI 兼容接口（可自建）",
+  'ai.provider.offline': "离线（按标签推测）",
+  'ai.settings': "AI 设置",
+  'ai.service': "服务",
+  'ai.endpointPlaceholder': "接口地址，如 http://localhost:11434/v1",
+  'ai.modelPlaceholder': "模型名称",
+  'ai.apiKeyPlaceholder': "API Key（可选）",
+  'ai.outputLanguage': "输出语言",
+  'ai.followInterface': "跟随界面语言",
+  'ai.analyze': "AI 分析",
+  'ai.analyzing': "分析中...",
+  'ai.emptyLibrary': "添加音乐以启用 AI 分析...",
+  'ai.prompt': "选择模式后点击 AI 按钮解读歌单。",
+  'ai.tagged': "已为 {count} 首歌曲加上标签，可在搜索框中按标签查找。",
+  'ai.applyOrder': "按此顺序排列（{count} 首）",
+  'ai.energyCurve': "能量曲线",
+  'ai.limited': "仅分析前 {count} 首",
+  'ai.cached': "缓存结果",
+  'ai.noGeminiKey': "未配置 Gemini API Key，请在 AI 设置中改用其他服务。",
+  'ai.failed': "AI 分析失败：{message}",
+  // Storage
+  'storage.loadFailed': "无法读取本地曲库，本次导入的歌曲可能不会被保存。",
+  'storage.quotaExceeded': "存储空间已满，新导入的歌曲只在本次会话中可用。可以清空曲库释放空间。",
+  'storage.saveFailed': "保存曲库失败，刷新后部分歌曲可能会丢失。",
+  'storage.clearFailed': "清空曲库失败，请稍后重试。",
+  'storage.blocked': "本应用在其他标签页中仍以旧版本打开，曲库暂时无法读写。请关闭其他标签页后刷新。",
+  // Player
+  'player.selectMusic': "选择音乐",
+  'player.showVinyl': "显示唱片",
+  'player.showLyrics': "显示歌词",
+  'player.lyrics': "歌词",
+  'player.stats': "统计",
+  'repeat.off': "不循环",
+  'repeat.all': "列表循环",
+  'repeat.one': "单曲循环",
+  // Library
+  'library.name': "曲库",
+  'library.trackCount': "{count} 首歌曲",
+  'library.clear': "清空曲库",
+  'library.clearConfirm': "确定要清空曲库吗？已导入的歌曲和歌单将从本设备删除。",
+  'library.deleteConfirm': "确定要从曲库删除 {count} 首歌曲吗？它们会从本设备和所有歌单中移除。",
+  'library.importFolder': "导入文件夹",
+  'library.import': "导入歌曲",
+  'library.importing': "导入中",
+  'library.removeFromPlaylist': "从歌单移除",
+  'library.deleteFromLibrary': "从曲库删除",
+  'empty.playlist': "歌单还是空的",
+  'empty.playlistHint': "在曲库中点击歌曲旁的“+”添加",
+  'empty.library': "点击右上角“导入”",
+  'empty.libraryHint': "或在电脑上拖入文件",
+  'update.ready': "新版本已下载，重新加载即可使用。",
+  'update.reload': "重新加载",
+  // Command palette entries besides the shortcuts
+  'command.clearQueue': "清空播放队列",
+  'command.showLibrary': "打开曲库",
+  'command.showStats': "收听统计",
+  'command.smartPlaylist': "新建智能歌单",
+  'command.openPlaylist': "打开歌单：{name}",
+  // Interface language
+  'language.title': "界面语言",
+  'language.auto': "跟随浏览器（{language}）",
+} satisfies Record<string, Message>;
@@ -0,0 +1,56 @@
+import { GoogleGenAI } from '@google/genai';
+import { AiSettings } from '../types';
+import { AiProvider } from './aiService';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiProvider = (apiKey: string, model = GEMINI_MODEL): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: `gemini:${model}`,
+    generateJson: async ({ system, prompt, schema }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction: system,
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API: llama.cpp, vLLM,
+ * Ollama, LM Studio or a hosted service. The schema is passed as a strict
+ * json_schema response format.
+ */
+export const createOpenAiProvider = ({ endpoint, model, apiKey }: Pick<AiSettings, 'endpoint' | 'model' | 'apiKey'>): AiProvider => {
+  const baseUrl = endpoint.trim().replace(/\/+$/, '');
+  return {
+    id: `openai:${baseUrl}:${model}`,
+    generateJson: async ({ system, prompt, schema }) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: prompt },
+          ],
+          response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema } },
+        }),
+      });
+      if (!response.ok) throw new Error(`AI endpoint returned HTTP ${response.status}`);
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content ?? '';
+    },
+  };
+};
@@ -0,0 +1,297 @@
+import { Track, AiMode, AiLanguage, AiSettings, PlaylistAnalysis, TrackEnergy, GeneratedPlaylist } from '../types';
+import { JsonSchema, validateJson } from '../utils/jsonSchema';
+import { getTrackTitle } from '../utils/trackInfo';
+import { formatKey } from '../utils/audioFeatures';
+import { loadSetting, saveSetting } from '../utils/storage';
+import { createGeminiProvider, createOpenAiProvider } from './aiProviders';
+import { createOfflineService } from './offlineAi';
+
+// The app talks to AI through AiService. The LLM-backed service turns each
+// request into a prompt plus a JSON schema and hands it to an AiProvider
+// (Gemini, or any OpenAI-compatible endpoint such as a self-hosted model); the
+// offline service answers from the tags alone, for no-network use.
+
+export interface AiRequest {
+  system: string;
+  prompt: string;
+  /** Shape the answer must have; also checked on the way back */
+  schema: JsonSchema;
+}
+
+/** A model that answers with JSON text. */
+export interface AiProvider {
+  /** Provider and model, part of the cache key */
+  readonly id: string;
+  generateJson: (request: AiRequest) => Promise<string>;
+}
+
+export interface AiService {
+  readonly id: string;
+  analyze: (mode: AiMode, tracks: Track[], language: AiLanguage) => Promise<PlaylistAnalysis>;
+  /** Picks tracks matching a description such as "calm rainy-night songs, no vocals". */
+  generatePlaylist: (prompt: string, tracks: Track[], language: AiLanguage) => Promise<GeneratedPlaylist>;
+}
+
+// Keeps prompts (and cost) bounded on large libraries
+export const MAX_AI_TRACKS = 150;
+// A description is matched against more of the library
+export const MAX_PROMPT_TRACKS = 500;
+const MAX_PLAYLIST_TRACKS = 100;
+
+export const LANGUAGE_NAMES: Record<AiLanguage, string> = {
+  zh: 'Simplified Chinese',
+  en: 'English',
+  ja: 'Japanese',
+};
+
+// --- Track payload ---
+
+/**
+ * Tracks as sent to the model. Ids are short stand-ins ("t1", "t2", ...):
+ * cheaper than UUIDs and easier for the model to copy back exactly.
+ */
+export const toPayload = (tracks: Track[]) =>
+  tracks.map((track, i) => ({
+    id: `t${i + 1}`,
+    title: getTrackTitle(track),
+    artist: track.artist,
+    album: track.album,
+    genre: track.genre,
+    year: track.year,
+    duration: track.duration ? Math.round(track.duration) : undefined,
+    tags: track.aiTags,
+    ...(track.features && {
+      bpm: Math.round(track.features.bpm),
+      key: formatKey(track.features),
+      energy: track.features.energy,
+    }),
+  }));
+
+/** Maps ids from a response back to tracks, dropping unknown ids and repeats. */
+export const resolvePayloadIds = (ids: string[], tracks: Track[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const id of ids) {
+    const track = tracks[Number(/^t(\d+)$/.exec(id.trim())?.[1]) - 1];
+    if (!track || seen.has(track.id)) continue;
+    seen.add(track.id);
+    result.push(track.id);
+  }
+  return result;
+};
+
+// --- Schemas ---
+
+const clampUnit: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const words = (maxItems: number): JsonSchema => ({ type: 'array', items: { type: 'string' }, maxItems });
+const energyItem: JsonSchema = {
+  type: 'object',
+  properties: { id: { type: 'string' }, energy: clampUnit },
+  required: ['id', 'energy'],
+  additionalProperties: false,
+};
+
+const SCHEMAS: Record<AiMode, JsonSchema> = {
+  vibe: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'Two or three evocative sentences about the atmosphere' },
+      mood: words(5),
+      genres: words(5),
+      energy: { type: 'array', items: energyItem, description: 'Every track, in list order' },
+    },
+    required: ['summary', 'mood', 'genres', 'energy'],
+    additionalProperties: false,
+  },
+  tags: {
+    type: 'object',
+    properties: {
+      tracks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { id: { type: 'string' }, tags: words(5), energy: clampUnit },
+          required: ['id', 'tags', 'energy'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['tracks'],
+    additionalProperties: false,
+  },
+  flow: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'One or two sentences on how the new order flows' },
+      order: { type: 'array', items: { type: 'string' }, description: 'Every track id exactly once' },
+    },
+    required: ['summary', 'order'],
+    additionalProperties: false,
+  },
+};
+
+const INSTRUCTIONS: Record<AiMode, string> = {
+  vibe:
+    'Describe the overall vibe of this playlist: are we in a jazz club, a cyberpunk city, or a quiet rainy day? ' +
+    'Give a short poetic summary, up to five mood words and up to five genres, and estimate the energy of every track.',
+  tags:
+    'Tag every track with up to five short descriptive tags (mood, setting, instrumentation, vocals or not) ' +
+    'and estimate its energy. Reuse the same wording for the same idea across tracks.',
+  flow:
+    'Reorder the tracks so the playlist flows well: ease in, build energy, and wind down, avoiding jarring jumps ' +
+    'in tempo, key or genre. Return every id exactly once.',
+};
+
+const PLAYLIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'A short playlist title' },
+    summary: { type: 'string', description: 'One sentence on what was picked and why' },
+    ids: { type: 'array', items: { type: 'string' }, maxItems: MAX_PLAYLIST_TRACKS, description: 'Matching track ids, best first' },
+  },
+  required: ['name', 'summary', 'ids'],
+  additionalProperties: false,
+};
+
+const systemPrompt = (language: AiLanguage) =>
+  'You are a music curator inside a music player. Only use the track ids given. ' +
+  `Write all free text (names, summaries, mood words, genres, tags) in ${LANGUAGE_NAMES[language]}. ` +
+  'Answer with JSON matching the provided schema and nothing else.';
+
+const buildRequest = (mode: AiMode, tracks: Track[], language: AiLanguage): AiRequest => ({
+  system: systemPrompt(language),
+  prompt: `${INSTRUCTIONS[mode]}\n\nTracks (JSON):\n${JSON.stringify(toPayload(tracks))}`,
+  schema: SCHEMAS[mode],
+});
+
+const buildPlaylistRequest = (description: string, tracks: Track[], language: AiLanguage): AiRequest => ({
+  system: systemPrompt(language),
+  prompt:
+    `Build a playlist from these tracks for the request below, up to ${MAX_PLAYLIST_TRACKS} tracks. ` +
+    'Only include tracks that clearly fit; an empty list is a valid answer. Never invent ids.\n\n' +
+    `Request: ${description}\n\nTracks (JSON):\n${JSON.stringify(toPayload(tracks))}`,
+  schema: PLAYLIST_SCHEMA,
+});
+
+// --- Parsing ---
+
+/** Parses and checks a model's answer; some endpoints wrap JSON in a code fence. */
+export const parseResponse = (text: string, schema: JsonSchema): unknown => {
+  const json = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('AI response is not valid JSON');
+  }
+  const error = validateJson(schema, value);
+  if (error) throw new Error(`AI response does not match the schema (${error})`);
+  return value;
+};
+
+const toEnergies = (items: { id: string; energy: number }[], tracks: Track[]): TrackEnergy[] => {
+  const energyById = new Map<string, number>();
+  for (const item of items) {
+    const [trackId] = resolvePayloadIds([item.id], tracks);
+    if (trackId && !energyById.has(trackId)) energyById.set(trackId, item.energy);
+  }
+  // List order, whatever order the model answered in
+  return tracks.filter(track => energyById.has(track.id)).map(track => ({ trackId: track.id, energy: energyById.get(track.id) ?? 0 }));
+};
+
+const toAnalysis = (mode: AiMode, value: unknown, tracks: Track[]): PlaylistAnalysis => {
+  if (mode === 'vibe') {
+    const result = value as { summary: string; mood: string[]; genres: string[]; energy: { id: string; energy: number }[] };
+    return { mode, summary: result.summary, mood: result.mood, genres: result.genres, energyCurve: toEnergies(result.energy, tracks) };
+  }
+  if (mode === 'tags') {
+    const result = value as { tracks: { id: string; tags: string[]; energy: number }[] };
+    const energies = toEnergies(result.tracks, tracks);
+    const tagsById = new Map(result.tracks.map(item => [resolvePayloadIds([item.id], tracks)[0], item.tags]));
+    return {
+      mode,
+      tracks: energies.map(item => ({ ...item, tags: [...new Set((tagsById.get(item.trackId) ?? []).map(tag => tag.trim()).filter(Boolean))] })),
+    };
+  }
+  const result = value as { summary: string; order: string[] };
+  const order = resolvePayloadIds(result.order, tracks);
+  // Anything the model forgot keeps its place relative to the others, at the end
+  const placed = new Set(order);
+  return { mode, summary: result.summary, order: [...order, ...tracks.filter(track => !placed.has(track.id)).map(track => track.id)] };
+};
+
+/** AiService on top of a language model. */
+export const createLlmService = (provider: AiProvider): AiService => ({
+  id: provider.id,
+  analyze: async (mode, tracks, language) => {
+    const request = buildRequest(mode, tracks, language);
+    const text = await provider.generateJson(request);
+    return toAnalysis(mode, parseResponse(text, request.schema), tracks);
+  },
+  generatePlaylist: async (description, tracks, language) => {
+    const request = buildPlaylistRequest(description, tracks, language);
+    const result = parseResponse(await provider.generateJson(request), request.schema) as { name: string; summary: string; ids: string[] };
+    return { name: result.name.trim(), summary: result.summary, trackIds: resolvePayloadIds(result.ids, tracks) };
+  },
+});
+
+/**
+ * The service the settings ask for, or null when Gemini is chosen but no API
+ * key was built in (see vite.config.ts).
+ */
+export const createAiService = (settings: AiSettings, geminiApiKey?: string): AiService | null => {
+  switch (settings.provider) {
+    case 'gemini':
+      return geminiApiKey ? createLlmService(createGeminiProvider(geminiApiKey)) : null;
+    case 'openai':
+      return createLlmService(createOpenAiProvider(settings));
+    case 'offline':
+      return createOfflineService();
+  }
+};
+
+// --- Cache ---
+
+const CACHE_KEY = 'aiCache';
+const CACHE_SIZE = 30;
+
+interface CacheEntry {
+  key: string;
+  analysis: PlaylistAnalysis;
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Runs an analysis, or returns the stored result when the same service was
+ * asked the same thing about the same tracks (ids, order and tags) before.
+ */
+export const analyzeTracks = async (
+  service: AiService,
+  mode: AiMode,
+  tracks: Track[],
+  language: AiLanguage
+): Promise<{ analysis: PlaylistAnalysis; fromCache: boolean }> => {
+  const analysed = tracks.slice(0, MAX_AI_TRACKS);
+  const key = await sha256(
+    JSON.stringify({ service: service.id, mode, language, ids: analysed.map(track => track.id), tracks: toPayload(analysed) })
+  );
+  const cache = loadSetting<CacheEntry[]>(CACHE_KEY, []);
+  const hit = cache.find(entry => entry.key === key);
+  if (hit) return { analysis: hit.analysis, fromCache: true };
+
+  const analysis = await service.analyze(mode, analysed, language);
+  saveSetting(CACHE_KEY, [{ key, analysis }, ...cache].slice(0, CACHE_SIZE));
+  return { analysis, fromCache: false };
+};
+
+/** A playlist for a description, picked from the first MAX_PROMPT_TRACKS tracks. Not cached: descriptions rarely repeat. */
+export const suggestPlaylist = (
+  service: AiService,
+  description: string,
+  tracks: Track[],
+  language: AiLanguage
+): Promise<GeneratedPlaylist> => service.generatePlaylist(description.trim(), tracks.slice(0, MAX_PROMPT_TRACKS), language);
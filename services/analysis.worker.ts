@@ -0,0 +1,27 @@
+import { extractFeatures } from '../utils/audioFeatures';
+import { measureLoudness } from '../utils/loudness';
+import { computePeaks } from '../utils/waveform';
+import { AnalysisRequest, AnalysisResponse } from './analysisWorker';
+
+// The sample loops of feature extraction, loudness measurement and the seek
+// bar waveform, kept off the main thread. Samples arrive already decoded
+// (see services/analysisWorker).
+
+const runJob = (request: AnalysisRequest) => {
+  switch (request.kind) {
+    case 'features': return extractFeatures(request.samples, request.sampleRate);
+    case 'loudness': return measureLoudness(request.channels, request.sampleRate);
+    case 'waveform': return computePeaks(request.channels, request.slices);
+  }
+};
+
+self.addEventListener('message', (e: MessageEvent<AnalysisRequest>) => {
+  const request = e.data;
+  let response: AnalysisResponse;
+  try {
+    response = { id: request.id, result: runJob(request) };
+  } catch (err) {
+    response = { id: request.id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+});
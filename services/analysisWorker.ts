@@ -0,0 +1,58 @@
+import { AudioFeatures } from '../types';
+import { LoudnessMeasurement } from '../utils/loudness';
+
+// Client side of services/analysis.worker.ts, which runs the sample loops of
+// every background analysis. Decoding needs an OfflineAudioContext, which
+// workers don't have, so callers decode and send the samples over.
+
+export type AnalysisJob =
+  | { kind: 'features'; samples: Float32Array; sampleRate: number }
+  | { kind: 'loudness'; channels: Float32Array[]; sampleRate: number }
+  | { kind: 'waveform'; channels: Float32Array[]; slices: number };
+
+export interface AnalysisResults {
+  features: AudioFeatures;
+  loudness: LoudnessMeasurement;
+  waveform: number[];
+}
+
+export type AnalysisRequest = AnalysisJob & { id: number };
+
+export type AnalysisResponse =
+  | { id: number; result: AnalysisResults[AnalysisJob['kind']] }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+// One worker for the app's lifetime, started on first use
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  worker.addEventListener('message', (e: MessageEvent<AnalysisResponse>) => {
+    const request = pending.get(e.data.id);
+    if (!request) return;
+    pending.delete(e.data.id);
+    if ('result' in e.data) request.resolve(e.data.result);
+    else request.reject(new Error(e.data.error));
+  });
+  // A crashed worker fails whatever it was doing; the next request starts a new one
+  worker.addEventListener('error', (e) => {
+    for (const request of pending.values()) request.reject(new Error(e.message || "Analysis worker failed"));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+};
+
+/** Runs a job in the worker, handing it the sample buffers in `transfer`. */
+export const runAnalysis = <J extends AnalysisJob>(job: J, transfer: Transferable[]): Promise<AnalysisResults[J['kind']]> => {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    const request: AnalysisRequest = { ...job, id };
+    getWorker().postMessage(request, transfer);
+  });
+};
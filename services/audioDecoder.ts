@@ -0,0 +1,31 @@
+import { readDuration } from './playlistExport';
+
+// Every background analysis reads and decodes a whole file at once, so long
+// DJ mixes, audiobooks and live recordings are turned away before decoding
+// rather than exhausting the tab's memory.
+const MAX_FILE_BYTES = 300 * 1024 * 1024;
+const MAX_ANALYSIS_SECONDS = 20 * 60;
+
+export const getOfflineContextClass = (): typeof OfflineAudioContext =>
+  window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+
+/**
+ * Throws if the file is too large or too long to analyse. Returns its length
+ * in seconds when the browser could read it from the metadata.
+ */
+export const checkAnalysisLimits = async (file: Blob): Promise<number | undefined> => {
+  if (file.size > MAX_FILE_BYTES) throw new Error(`File too large to analyse (${file.size} bytes)`);
+  const duration = await readDuration(file);
+  if (duration !== undefined && duration > MAX_ANALYSIS_SECONDS) {
+    throw new Error(`Track too long to analyse (${Math.round(duration)} s)`);
+  }
+  return duration;
+};
+
+/** Decodes the whole file, resampled to `sampleRate`. Throws if the browser cannot decode it. */
+export const decodeFile = async (file: Blob, sampleRate: number): Promise<AudioBuffer> => {
+  const OfflineContext = getOfflineContextClass();
+  // decodeAudioData resamples to the context rate; a 1-frame context is enough to decode with
+  const decoder = new OfflineContext(1, 1, sampleRate);
+  return decoder.decodeAudioData(await file.arrayBuffer());
+};
@@ -0,0 +1,560 @@
+import { Track, EffectsSettings, TempoSettings, LoopRegion } from '../types';
+import { createEffectsChain, EffectsChain } from './effectsChain';
+import { createPitchShifter, semitonesToRatio } from './pitchShifter';
+
+export interface AudioEngineHandlers {
+  onTimeUpdate: (time: number) => void;
+  onDurationChange: (duration: number) => void;
+  /** The active track reached its end with nothing preloaded to follow it. */
+  onEnded: () => void;
+  /** The preloaded track took over on its own (gapless or crossfade). */
+  onAdvance: (trackId: string) => void;
+  onError: (trackId: string | null, error: MediaError | null) => void;
+}
+
+interface Deck {
+  element: HTMLAudioElement;
+  source: MediaElementAudioSourceNode | null;
+  // Per-track loudness correction (ReplayGain), ahead of the fade gain
+  level: GainNode | null;
+  gain: GainNode | null;
+  url: string | null;
+  track: Track | null;
+  // Position to jump to once metadata is available
+  pendingSeek: number | null;
+  // Still audible after handing over (fading out or playing its last
+  // milliseconds), so it must not be reloaded yet
+  isReleasing: boolean;
+}
+
+export interface AnalyserOptions {
+  fftSize: number;
+  smoothing: number;
+}
+
+export interface AudioEngine {
+  readonly context: AudioContext | null;
+  readonly analyser: AnalyserNode | null;
+  /** Builds the Web Audio graph. Must first run inside a user gesture. */
+  ensureContext: () => void;
+  load: (track: Track, startAt?: number) => void;
+  unload: () => void;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  /** Loaded ranges of the active track as [start, end] pairs in seconds. */
+  getBuffered: () => [number, number][];
+  /** Cues the track that should follow the current one (null: nothing follows). */
+  preload: (track: Track | null) => void;
+  setVolume: (volume: number) => void;
+  setCrossfade: (seconds: number) => void;
+  setEffects: (settings: EffectsSettings) => void;
+  /** Linear gain for each track (loudness normalization); null plays everything at unity. */
+  setTrackGain: (getGain: ((track: Track) => number) | null) => void;
+  setAnalyserOptions: (options: AnalyserOptions) => void;
+  setTempo: (settings: TempoSettings) => void;
+  /** Repeats a section of the active track until cleared (or another track loads). */
+  setLoop: (region: LoopRegion | null) => void;
+  /** Fades the whole output to silence over `seconds` (sleep timer); volume settings are untouched. */
+  fadeOut: (seconds: number) => void;
+  /** Undoes fadeOut, quickly bringing the output back to full level. */
+  cancelFade: () => void;
+  setHandlers: (handlers: Partial<AudioEngineHandlers>) => void;
+}
+
+export const MAX_CROSSFADE = 12;
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+export const MAX_SEMITONES = 12;
+// How early the next deck starts when crossfade is off. Media elements need a
+// moment to produce output after play() and can't be started on a given
+// sample, so "gapless" here is not a sample-exact splice: the overlap becomes
+// an equal-power micro-crossfade timed on the AudioContext clock to end where
+// the outgoing track does. Encoder delay and padding (LAME, iTunSMPB) are
+// trimmed by the browser's decoder where it supports them, not by us.
+const GAPLESS_LEAD = 0.03;
+// Shortest micro-crossfade, for a timer that fired at the very end
+const MIN_GAPLESS_FADE = 0.005;
+// Transitions further away than this are re-armed by later timeupdate events
+const SCHEDULE_HORIZON = 2;
+const CURVE_POINTS = 64;
+
+const equalPowerCurve = (fadeIn: boolean): Float32Array => {
+  const curve = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    const x = (i / (CURVE_POINTS - 1)) * (Math.PI / 2);
+    curve[i] = fadeIn ? Math.sin(x) : Math.cos(x);
+  }
+  return curve;
+};
+
+const FADE_IN = equalPowerCurve(true);
+const FADE_OUT = equalPowerCurve(false);
+
+const createDeck = (): Deck => {
+  const element = new Audio();
+  element.preload = 'auto';
+  element.crossOrigin = 'anonymous';
+  return { element, source: null, level: null, gain: null, url: null, track: null, pendingSeek: null, isReleasing: false };
+};
+
+/**
+ * Two-deck playback engine. The active deck plays the current track while the
+ * other one holds the preloaded next track; near the end of the active track
+ * the decks swap, either with a few-millisecond micro-crossfade (gapless) or
+ * with an equal-power crossfade of the chosen length. Both decks feed one
+ * effects chain and analyser, so the visualizer sees a single, processed
+ * stream.
+ */
+export const createAudioEngine = (): AudioEngine => {
+  const decks: [Deck, Deck] = [createDeck(), createDeck()];
+  let activeIndex = 0;
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  // Sleep-timer fade for the whole mix, between the effects chain and the analyser
+  let master: GainNode | null = null;
+  let effectsChain: EffectsChain | null = null;
+  let effects: EffectsSettings | null = null;
+  let trackGain: ((track: Track) => number) | null = null;
+  let analyserOptions: AnalyserOptions = { fftSize: 256, smoothing: 0.8 };
+  let crossfade = 0;
+  let tempo: TempoSettings = { rate: 1, preservesPitch: true, semitones: 0 };
+  // Created on first use: the worklet module loads asynchronously
+  let pitchShifter: Promise<AudioWorkletNode | null> | null = null;
+  let loop: LoopRegion | null = null;
+  let loopTimer: number | null = null;
+  let handlers: Partial<AudioEngineHandlers> = {};
+  let transitionTimer: number | null = null;
+  let releaseTimer: number | null = null;
+  let pendingPreload: Track | null | undefined;
+
+  const active = () => decks[activeIndex];
+  const standby = () => decks[1 - activeIndex];
+
+  const setDeckGain = (deck: Deck, value: number) => {
+    if (!deck.gain || !context) return;
+    deck.gain.gain.cancelScheduledValues(context.currentTime);
+    deck.gain.gain.setValueAtTime(value, context.currentTime);
+  };
+
+  const applyLevel = (deck: Deck) => {
+    if (!deck.level || !context) return;
+    const value = deck.track && trackGain ? trackGain(deck.track) : 1;
+    deck.level.gain.setTargetAtTime(value, context.currentTime, 0.01);
+  };
+
+  const setSource = (deck: Deck, track: Track | null) => {
+    if (deck.url) URL.revokeObjectURL(deck.url);
+    deck.pendingSeek = null;
+    if (track) {
+      deck.url = URL.createObjectURL(track.file);
+      deck.track = track;
+      deck.element.src = deck.url;
+    } else {
+      deck.url = null;
+      deck.track = null;
+      deck.element.removeAttribute('src');
+      deck.element.load();
+    }
+    applyLevel(deck);
+  };
+
+  const applyRate = (deck: Deck) => {
+    // load() resets playbackRate to defaultPlaybackRate, so set both
+    deck.element.defaultPlaybackRate = tempo.rate;
+    deck.element.playbackRate = tempo.rate;
+    deck.element.preservesPitch = tempo.preservesPitch;
+  };
+
+  const clearLoopTimer = () => {
+    if (loopTimer !== null) {
+      window.clearTimeout(loopTimer);
+      loopTimer = null;
+    }
+  };
+
+  // timeupdate fires only a few times a second, far too coarse for a loop
+  // point; a timer aimed at the end marker jumps back on time. Past the end
+  // marker (the user seeked beyond it) the track just plays on.
+  const scheduleLoop = () => {
+    clearLoopTimer();
+    const element = active().element;
+    if (!loop || element.paused || element.currentTime > loop.end) return;
+    const untilEnd = (loop.end - element.currentTime) / (element.playbackRate || 1);
+    loopTimer = window.setTimeout(() => {
+      loopTimer = null;
+      if (!loop) return;
+      active().element.currentTime = loop.start;
+      scheduleLoop();
+    }, Math.max(0, untilEnd * 1000));
+  };
+
+  const clearTransitionTimer = () => {
+    if (transitionTimer !== null) {
+      window.clearTimeout(transitionTimer);
+      transitionTimer = null;
+    }
+  };
+
+  // The outgoing deck is done: silence it and apply any preload that had to wait for it
+  const finishRelease = (deck: Deck) => {
+    if (!deck.isReleasing) return;
+    if (releaseTimer !== null) {
+      window.clearTimeout(releaseTimer);
+      releaseTimer = null;
+    }
+    deck.isReleasing = false;
+    deck.element.pause();
+    setDeckGain(deck, 1);
+    if (pendingPreload !== undefined) {
+      const track = pendingPreload;
+      pendingPreload = undefined;
+      preload(track);
+    }
+  };
+
+  // Manual actions interrupt a running crossfade: the new track goes to full
+  // volume and the old one stops at once.
+  const cancelTransition = () => {
+    clearTransitionTimer();
+    const other = standby();
+    if (other.isReleasing) finishRelease(other);
+    setDeckGain(active(), 1);
+  };
+
+  const startTransition = () => {
+    transitionTimer = null;
+    const from = active();
+    const to = standby();
+    if (!to.track || to.isReleasing || from.element.paused) return;
+
+    const remaining = Math.max(0, from.element.duration - from.element.currentTime);
+    const nextDuration = to.element.duration || Infinity;
+    const fade = context && crossfade > 0 ? Math.min(crossfade, remaining, nextDuration / 2) : 0;
+    // Measured now rather than trusted from the timer, so its jitter only
+    // shortens or lengthens the micro-crossfade instead of moving it
+    const gaplessFade = Math.min(GAPLESS_LEAD, Math.max(MIN_GAPLESS_FADE, remaining / (from.element.playbackRate || 1)));
+
+    activeIndex = 1 - activeIndex;
+    from.isReleasing = true;
+    to.element.currentTime = 0;
+
+    let isFading = false;
+    if (fade > 0.05 && context && from.gain && to.gain) {
+      const now = context.currentTime;
+      from.gain.gain.cancelScheduledValues(now);
+      to.gain.gain.cancelScheduledValues(now);
+      try {
+        from.gain.gain.setValueCurveAtTime(FADE_OUT, now, fade);
+        to.gain.gain.setValueCurveAtTime(FADE_IN, now, fade);
+        releaseTimer = window.setTimeout(() => finishRelease(from), fade * 1000 + 50);
+        isFading = true;
+      } catch (err) {
+        // A curve still overlapping an older automation event; fall back to a cut
+        console.warn("Crossfade scheduling failed:", err);
+        finishRelease(from);
+      }
+    }
+    if (!isFading && context && from.gain && to.gain) {
+      const now = context.currentTime;
+      from.gain.gain.cancelScheduledValues(now);
+      to.gain.gain.cancelScheduledValues(now);
+      try {
+        from.gain.gain.setValueCurveAtTime(FADE_OUT, now, gaplessFade);
+        to.gain.gain.setValueCurveAtTime(FADE_IN, now, gaplessFade);
+      } catch (err) {
+        console.warn("Gapless fade scheduling failed:", err);
+        setDeckGain(to, 1);
+      }
+      // The old deck plays out its last few milliseconds and releases on 'ended'
+    } else if (!isFading) {
+      setDeckGain(to, 1);
+    }
+
+    to.element.play().catch(err => {
+      console.error("Playback error:", err);
+      handlers.onError?.(to.track?.id ?? null, to.element.error);
+    });
+    handlers.onDurationChange?.(to.element.duration || 0);
+    handlers.onTimeUpdate?.(0);
+    if (to.track) handlers.onAdvance?.(to.track.id);
+  };
+
+  const scheduleTransition = () => {
+    clearTransitionTimer();
+    const deck = active();
+    const next = standby();
+    if (loop || !next.track || next.isReleasing || deck.element.paused || !isFinite(deck.element.duration)) return;
+
+    const lead = crossfade > 0 ? crossfade : GAPLESS_LEAD;
+    const untilStart = (deck.element.duration - deck.element.currentTime - lead) / (deck.element.playbackRate || 1);
+    if (untilStart > SCHEDULE_HORIZON) return;
+    transitionTimer = window.setTimeout(startTransition, Math.max(0, untilStart * 1000));
+  };
+
+  const attachListeners = (deck: Deck) => {
+    const isActive = () => deck === active();
+    deck.element.addEventListener('timeupdate', () => {
+      if (!isActive()) return;
+      handlers.onTimeUpdate?.(deck.element.currentTime);
+      scheduleTransition();
+    });
+    deck.element.addEventListener('playing', () => {
+      if (isActive()) scheduleLoop();
+    });
+    deck.element.addEventListener('loadedmetadata', () => {
+      if (deck.pendingSeek !== null) {
+        deck.element.currentTime = Math.min(deck.pendingSeek, deck.element.duration || 0);
+        deck.pendingSeek = null;
+      }
+      if (isActive()) handlers.onDurationChange?.(deck.element.duration);
+    });
+    deck.element.addEventListener('ended', () => {
+      if (deck.isReleasing) {
+        finishRelease(deck);
+      } else if (isActive() && loop && loop.end >= deck.element.duration - 0.25) {
+        // The end marker sits at the very end of the track
+        deck.element.currentTime = loop.start;
+        deck.element.play().catch(err => console.error("Playback error:", err));
+      } else if (isActive()) {
+        handlers.onEnded?.();
+      }
+    });
+    deck.element.addEventListener('error', () => {
+      if (isActive() && deck.track) handlers.onError?.(deck.track.id, deck.element.error);
+    });
+  };
+  decks.forEach(attachListeners);
+  decks.forEach(applyRate);
+
+  const applyAnalyserOptions = () => {
+    if (!analyser) return;
+    analyser.fftSize = analyserOptions.fftSize;
+    analyser.smoothingTimeConstant = analyserOptions.smoothing;
+  };
+
+  const ensureContext = () => {
+    if (context) {
+      if (context.state === 'suspended') context.resume();
+      return;
+    }
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    context = new AudioContextClass();
+
+    analyser = context.createAnalyser();
+    applyAnalyserOptions();
+    analyser.connect(context.destination);
+
+    master = context.createGain();
+    master.connect(analyser);
+
+    effectsChain = createEffectsChain(context);
+    effectsChain.output.connect(master);
+    if (effects) effectsChain.apply(effects);
+    applyPitch();
+
+    for (const deck of decks) {
+      // Fix for CORS issues if we were fetching remote, but for local blobs this is fine
+      deck.source = context.createMediaElementSource(deck.element);
+      deck.level = context.createGain();
+      deck.gain = context.createGain();
+      deck.source.connect(deck.level);
+      deck.level.connect(deck.gain);
+      applyLevel(deck);
+      deck.gain.connect(effectsChain.input);
+    }
+  };
+
+  const load = (track: Track, startAt = 0) => {
+    cancelTransition();
+    loop = null;
+    clearLoopTimer();
+    const other = standby();
+    active().element.pause();
+
+    if (other.track?.id === track.id && !other.isReleasing) {
+      // Already buffered on the other deck: switch to it instead of reloading
+      activeIndex = 1 - activeIndex;
+      active().element.currentTime = startAt;
+    } else {
+      setSource(active(), track);
+      active().pendingSeek = startAt > 0 ? startAt : null;
+    }
+    setDeckGain(active(), 1);
+    handlers.onDurationChange?.(active().element.duration || 0);
+  };
+
+  const unload = () => {
+    cancelTransition();
+    pendingPreload = undefined;
+    for (const deck of decks) {
+      deck.element.pause();
+      setSource(deck, null);
+    }
+  };
+
+  const play = async () => {
+    ensureContext();
+    if (!active().track) return;
+    await active().element.play();
+    scheduleTransition();
+  };
+
+  const pause = () => {
+    cancelTransition();
+    clearLoopTimer();
+    active().element.pause();
+  };
+
+  const seek = (time: number) => {
+    cancelTransition();
+    active().element.currentTime = time;
+    scheduleTransition();
+    scheduleLoop();
+  };
+
+  const preload = (track: Track | null) => {
+    const deck = standby();
+    if (deck.isReleasing) {
+      pendingPreload = track;
+      return;
+    }
+    if ((track?.id ?? null) === (deck.track?.id ?? null)) return;
+    deck.element.pause();
+    setSource(deck, track);
+    scheduleTransition();
+  };
+
+  const setVolume = (volume: number) => {
+    decks.forEach(deck => (deck.element.volume = volume));
+  };
+
+  const setCrossfade = (seconds: number) => {
+    crossfade = Math.max(0, Math.min(MAX_CROSSFADE, seconds));
+    scheduleTransition();
+  };
+
+  // Remembered until the context exists, since it is only created on a gesture
+  const setEffects = (settings: EffectsSettings) => {
+    effects = settings;
+    effectsChain?.apply(settings);
+  };
+
+  const setTrackGain = (getGain: ((track: Track) => number) | null) => {
+    trackGain = getGain;
+    decks.forEach(applyLevel);
+  };
+
+  const setAnalyserOptions = (options: AnalyserOptions) => {
+    analyserOptions = options;
+    applyAnalyserOptions();
+  };
+
+  // The shifter only sits in the graph while a shift is set, so normal
+  // playback doesn't pay for the worklet or its latency
+  const applyPitch = () => {
+    if (!context || !effectsChain || !master) return;
+    if (tempo.semitones === 0 && !pitchShifter) return;
+    if (!pitchShifter) {
+      pitchShifter = createPitchShifter(context).catch(err => {
+        console.warn("Pitch shifter unavailable:", err);
+        return null;
+      });
+    }
+    const output = effectsChain.output;
+    const destination = master;
+    const semitones = tempo.semitones;
+    pitchShifter.then(shifter => {
+      if (!shifter || !context || semitones !== tempo.semitones) return;
+      output.disconnect();
+      shifter.disconnect();
+      if (semitones === 0) {
+        output.connect(destination);
+      } else {
+        shifter.parameters.get('ratio')?.setValueAtTime(semitonesToRatio(semitones), context.currentTime);
+        output.connect(shifter);
+        shifter.connect(destination);
+      }
+    });
+  };
+
+  const setTempo = (settings: TempoSettings) => {
+    const pitchChanged = settings.semitones !== tempo.semitones;
+    tempo = {
+      rate: Math.max(MIN_RATE, Math.min(MAX_RATE, settings.rate)),
+      preservesPitch: settings.preservesPitch,
+      semitones: Math.max(-MAX_SEMITONES, Math.min(MAX_SEMITONES, Math.round(settings.semitones))),
+    };
+    decks.forEach(applyRate);
+    if (pitchChanged) applyPitch();
+    scheduleTransition();
+    scheduleLoop();
+  };
+
+  const setLoop = (region: LoopRegion | null) => {
+    loop = region && region.end > region.start ? region : null;
+    scheduleTransition();
+    scheduleLoop();
+  };
+
+  const fadeOut = (seconds: number) => {
+    if (!context || !master) return;
+    const param = master.gain;
+    const now = context.currentTime;
+    const from = param.value;
+    param.cancelScheduledValues(now);
+    try {
+      param.setValueCurveAtTime(FADE_OUT.map(value => value * from), now, Math.max(0.05, seconds));
+    } catch (err) {
+      console.warn("Fade scheduling failed:", err);
+      param.setValueAtTime(from, now);
+      param.linearRampToValueAtTime(0, now + Math.max(0.05, seconds));
+    }
+  };
+
+  const cancelFade = () => {
+    if (!context || !master) return;
+    const param = master.gain;
+    const now = context.currentTime;
+    const from = param.value;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(from, now);
+    param.setTargetAtTime(1, now, 0.1);
+  };
+
+  return {
+    get context() {
+      return context;
+    },
+    get analyser() {
+      return analyser;
+    },
+    ensureContext,
+    load,
+    unload,
+    play,
+    pause,
+    seek,
+    getCurrentTime: () => active().element.currentTime,
+    getDuration: () => active().element.duration || 0,
+    getBuffered: () => {
+      const { buffered } = active().element;
+      return Array.from({ length: buffered.length }, (_, i): [number, number] => [buffered.start(i), buffered.end(i)]);
+    },
+    preload,
+    setVolume,
+    setCrossfade,
+    setEffects,
+    setTrackGain,
+    setAnalyserOptions,
+    setTempo,
+    setLoop,
+    fadeOut,
+    cancelFade,
+    setHandlers: (next) => {
+      handlers = next;
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import { AudioFeatures } from '../types';
+import { ANALYSIS_RATE } from '../utils/audioFeatures';
+import { runAnalysis } from './analysisWorker';
+import { checkAnalysisLimits, decodeFile, getOfflineContextClass } from './audioDecoder';
+
+// Lets the browser mix down to mono (equal parts of each channel) off the main thread
+const renderMono = (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const OfflineContext = getOfflineContextClass();
+  const context = new OfflineContext(1, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+/**
+ * Decodes the file at a low rate and estimates its tempo, key and energy in
+ * a worker. Throws if the file is too large or long to analyse or the
+ * browser cannot decode it.
+ */
+export const analyzeAudioFeatures = async (file: Blob): Promise<AudioFeatures> => {
+  await checkAnalysisLimits(file);
+  const decoded = await decodeFile(file, ANALYSIS_RATE);
+  const mono = decoded.numberOfChannels > 1 ? await renderMono(decoded) : decoded;
+  // A copy the worker can take ownership of
+  const samples = mono.getChannelData(0).slice();
+
+  return runAnalysis({ kind: 'features', samples, sampleRate: mono.sampleRate }, [samples.buffer]);
+};
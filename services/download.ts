@@ -0,0 +1,11 @@
+/** Saves `blob` through the browser's download prompt. */
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  // Keep the name usable as a file name on every OS
+  link.download = fileName.replace(/[\\/:*?"<>|]+/g, '_');
+  link.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,87 @@
+import { EffectsSettings } from '../types';
+import { EQ_FREQUENCIES, normalizeBands } from '../utils/equalizer';
+
+export interface EffectsChain {
+  /** Where the decks connect */
+  readonly input: AudioNode;
+  /** Connects to the analyser, so the visualizer sees the processed signal */
+  readonly output: AudioNode;
+  apply: (settings: EffectsSettings) => void;
+}
+
+// One octave per band
+const BAND_Q = 1.41;
+const BASS_FREQUENCY = 100;
+const TREBLE_FREQUENCY = 8000;
+// Time constant for parameter changes, short enough to feel immediate but
+// long enough to avoid zipper noise while dragging a slider
+const RAMP = 0.02;
+
+/**
+ * Ten peaking filters, bass/treble shelves, a stereo panner for balance and a
+ * brick-wall-ish compressor acting as a limiter. Bypassed nodes are unwired
+ * rather than zeroed, so "off" really is a straight pass-through.
+ */
+export const createEffectsChain = (context: AudioContext): EffectsChain => {
+  const input = context.createGain();
+  const output = context.createGain();
+
+  const bands = EQ_FREQUENCIES.map(frequency => {
+    const filter = context.createBiquadFilter();
+    filter.type = 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = BAND_Q;
+    return filter;
+  });
+
+  const bass = context.createBiquadFilter();
+  bass.type = 'lowshelf';
+  bass.frequency.value = BASS_FREQUENCY;
+
+  const treble = context.createBiquadFilter();
+  treble.type = 'highshelf';
+  treble.frequency.value = TREBLE_FREQUENCY;
+
+  // Older Safari has no StereoPannerNode; balance is then unavailable
+  const panner = typeof context.createStereoPanner === 'function' ? context.createStereoPanner() : null;
+
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+
+  const allNodes: AudioNode[] = [input, ...bands, bass, treble, ...(panner ? [panner] : []), limiter];
+  let wiring = '';
+
+  const wire = (settings: EffectsSettings) => {
+    const path: AudioNode[] = settings.enabled
+      ? [...bands, bass, treble, ...(panner ? [panner] : []), ...(settings.limiter ? [limiter] : [])]
+      : [];
+    // Reconnecting glitches briefly, so only do it when the route changes
+    const key = `${settings.enabled}:${settings.limiter}`;
+    if (key === wiring) return;
+    wiring = key;
+
+    allNodes.forEach(node => node.disconnect());
+    [input, ...path, output].reduce((from, to) => {
+      from.connect(to);
+      return to;
+    });
+  };
+
+  const setParam = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, context.currentTime, RAMP);
+  };
+
+  const apply = (settings: EffectsSettings) => {
+    wire(settings);
+    normalizeBands(settings.bands).forEach((gain, i) => setParam(bands[i].gain, gain));
+    setParam(bass.gain, settings.bass);
+    setParam(treble.gain, settings.treble);
+    if (panner) setParam(panner.pan, Math.max(-1, Math.min(1, settings.balance)));
+  };
+
+  return { input, output, apply };
+};
@@ -0,0 +1,44 @@
+// Recursively collects files from dropped folders. Entries must be taken from
+// the DataTransfer synchronously inside the drop handler; the browser empties
+// it once the event returns.
+
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns at most ~100 entries per call; keep reading until empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    try {
+      return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    } catch (err) {
+      console.warn("Could not read dropped file:", entry.fullPath, err);
+      return [];
+    }
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(entryToFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+/** Every file in a drop, descending into folders. Falls back to the flat file list where entries are unsupported. */
+export const getDroppedFiles = (dataTransfer: DataTransfer): Promise<File[]> => {
+  const items = Array.from(dataTransfer.items ?? []);
+  const entries = items
+    .filter(item => item.kind === 'file')
+    .map(item => (typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null));
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Promise.resolve(Array.from(dataTransfer.files));
+  }
+  return Promise.all((entries as FileSystemEntry[]).map(entryToFiles)).then(nested => nested.flat());
+};
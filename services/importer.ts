@@ -0,0 +1,160 @@
+import { Track } from '../types';
+import { readTags } from '../utils/tagReader';
+import { looksLikeAudio, sniffAudioFormat } from '../utils/audioFormat';
+import { PLAYLIST_EXTENSION } from '../utils/playlistFormats';
+
+const LYRICS_EXTENSION = /\.lrc$/i;
+
+export const getBaseName = (fileName: string) => fileName.replace(/\.[^/.]+$/, "");
+
+export const isLyricsFile = (file: File) => LYRICS_EXTENSION.test(file.name);
+
+export const isPlaylistFile = (file: File) => PLAYLIST_EXTENSION.test(file.name);
+
+/**
+ * Reads an .lrc or playlist file; many Chinese lyric sites and older players
+ * still write GBK rather than UTF-8.
+ */
+export const readTextFile = async (file: File): Promise<string> => {
+  const bytes = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+};
+
+export interface ScannedFiles {
+  audio: File[];
+  lyrics: File[];
+  /** M3U/M3U8, PLS and XSPF files, resolved once the audio is in */
+  playlists: File[];
+  /** Named like audio but not recognisable as any format we play */
+  unsupported: File[];
+  /** Everything else in the selection (covers, text files) */
+  ignoredCount: number;
+}
+
+/** Sorts a picked or dropped selection into audio, lyrics, playlists and the rest. */
+export const scanFiles = async (files: File[]): Promise<ScannedFiles> => {
+  const lyrics = files.filter(isLyricsFile);
+  const playlists = files.filter(isPlaylistFile);
+  const candidates = files.filter(file => !isLyricsFile(file) && !isPlaylistFile(file) && looksLikeAudio(file));
+  const formats = await Promise.all(candidates.map(file => sniffAudioFormat(file).catch(() => null)));
+  return {
+    audio: candidates.filter((_, i) => formats[i] !== null),
+    lyrics,
+    playlists,
+    unsupported: candidates.filter((_, i) => formats[i] === null),
+    ignoredCount: files.length - lyrics.length - playlists.length - candidates.length,
+  };
+};
+
+/** SHA-256 of the whole file, hex encoded. */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export interface DuplicateMatch {
+  file: File;
+  /** Library track with the same content; undefined when the file repeats within this import */
+  existing?: Track;
+}
+
+export interface DuplicateScan {
+  duplicates: DuplicateMatch[];
+  /** Hashes computed for incoming files, to store on the new tracks */
+  hashes: Map<File, string>;
+  /** Hashes computed for library tracks that had none yet */
+  libraryHashes: Map<string, string>;
+}
+
+/**
+ * Finds incoming files whose content is already in the library or earlier in
+ * the same import. Only files whose size collides with another are hashed, so
+ * a typical import reads no audio data at all.
+ */
+export const findDuplicates = async (files: File[], library: Track[]): Promise<DuplicateScan> => {
+  const hashes = new Map<File, string>();
+  const libraryHashes = new Map<string, string>();
+  const duplicates: DuplicateMatch[] = [];
+
+  const librarySizes = new Map<number, Track[]>();
+  for (const track of library) {
+    const sameSize = librarySizes.get(track.file.size) ?? [];
+    librarySizes.set(track.file.size, [...sameSize, track]);
+  }
+  const batchSizes = new Map<number, File[]>();
+
+  const hashOf = async (file: File) => {
+    let hash = hashes.get(file);
+    if (!hash) {
+      hash = await hashFile(file);
+      hashes.set(file, hash);
+    }
+    return hash;
+  };
+  const hashOfTrack = async (track: Track) => {
+    let hash = track.contentHash ?? libraryHashes.get(track.id);
+    if (!hash) {
+      hash = await hashFile(track.file);
+      libraryHashes.set(track.id, hash);
+    }
+    return hash;
+  };
+
+  // Sequential on purpose: hashing reads whole files into memory
+  for (const file of files) {
+    const libraryCandidates = librarySizes.get(file.size) ?? [];
+    const batchCandidates = batchSizes.get(file.size) ?? [];
+    batchSizes.set(file.size, [...batchCandidates, file]);
+    if (libraryCandidates.length === 0 && batchCandidates.length === 0) continue;
+
+    const hash = await hashOf(file);
+    let match: DuplicateMatch | null = null;
+    for (const track of libraryCandidates) {
+      if ((await hashOfTrack(track)) === hash) {
+        match = { file, existing: track };
+        break;
+      }
+    }
+    if (!match) {
+      for (const earlier of batchCandidates) {
+        if ((await hashOf(earlier)) === hash) {
+          match = { file };
+          break;
+        }
+      }
+    }
+    if (match) duplicates.push(match);
+  }
+
+  return { duplicates, hashes, libraryHashes };
+};
+
+const createTrack = async (file: File, lyricsFile?: File, contentHash?: string): Promise<Track> => {
+  const tags = await readTags(file);
+  // A sidecar .lrc is usually synced and deliberately chosen, so it wins over embedded lyrics
+  const lyrics = lyricsFile ? await readTextFile(lyricsFile) : tags.lyrics;
+  return {
+    file,
+    id: crypto.randomUUID(),
+    name: getBaseName(file.name),
+    ...tags,
+    lyrics,
+    contentHash,
+    addedAt: Date.now(),
+  };
+};
+
+/**
+ * Turns audio files into tracks, reading embedded tags and cover art.
+ * `.lrc` files are paired with the audio file of the same base name.
+ */
+export const createTracks = (audio: File[], lyrics: File[] = [], hashes?: Map<File, string>): Promise<Track[]> => {
+  const lyricsByName = new Map(lyrics.map(file => [getBaseName(file.name).toLowerCase(), file]));
+  return Promise.all(
+    audio.map(file => createTrack(file, lyricsByName.get(getBaseName(file.name).toLowerCase()), hashes?.get(file)))
+  );
+};
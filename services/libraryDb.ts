@@ -0,0 +1,208 @@
+import { Track, Playlist, PlayRecord } from '../types';
+
+const DB_NAME = 'vinyl-vibe';
+const DB_VERSION = 4;
+const TRACK_STORE = 'tracks';
+const FILE_STORE = 'files';
+const PLAYLIST_STORE = 'playlists';
+const META_STORE = 'meta';
+const PLAY_STORE = 'plays';
+const ORDER_KEY = 'libraryOrder';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Track metadata as stored; the audio lives in FILE_STORE under the same id. */
+type StoredTrack = Omit<Track, 'file'>;
+
+const toStored = ({ file: _file, ...metadata }: Track): StoredTrack => metadata;
+
+/** Another tab still has an older version of the database open, so the upgrade can't run. */
+export const isBlockedError = (err: unknown): boolean => err instanceof DOMException && err.name === 'BlockedError';
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRACK_STORE)) {
+          db.createObjectStore(TRACK_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        // v2: named playlists
+        if (!db.objectStoreNames.contains(PLAYLIST_STORE)) {
+          db.createObjectStore(PLAYLIST_STORE, { keyPath: 'id' });
+        }
+        // v3: listening history, append-only in play order
+        if (!db.objectStoreNames.contains(PLAY_STORE)) {
+          db.createObjectStore(PLAY_STORE, { autoIncrement: true });
+        }
+        // v4: audio moves out of the track records, so metadata updates don't rewrite it
+        if (!db.objectStoreNames.contains(FILE_STORE)) {
+          const fileStore = db.createObjectStore(FILE_STORE);
+          if (event.oldVersion > 0) {
+            const tx = request.transaction!;
+            const cursorRequest = tx.objectStore(TRACK_STORE).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              const track = cursor.value as Track;
+              if (track.file) {
+                fileStore.put(track.file, track.id);
+                cursor.update(toStored(track));
+              }
+              cursor.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The caller was already told about the blocked upgrade; don't hold the connection
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version opened in another tab upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new DOMException('Database upgrade blocked by another open tab', 'BlockedError'));
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once the whole transaction has committed, so a quota failure on any
+// single put rejects the caller instead of being lost in a request handler.
+const runTransaction = async (
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    work(tx);
+  });
+};
+
+export const isQuotaError = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+
+export interface StoredLibrary {
+  tracks: Track[];
+  playlists: Playlist[];
+}
+
+/**
+ * Loads every stored track, ordered the way the library was last saved, and
+ * the named playlists in creation order.
+ */
+export const loadLibrary = async (): Promise<StoredLibrary> => {
+  const db = await openDb();
+  const tx = db.transaction([TRACK_STORE, FILE_STORE, PLAYLIST_STORE, META_STORE], 'readonly');
+  const fileStore = tx.objectStore(FILE_STORE);
+  const [stored, fileIds, files, playlists, order] = await Promise.all([
+    requestResult(tx.objectStore(TRACK_STORE).getAll() as IDBRequest<StoredTrack[]>),
+    requestResult(fileStore.getAllKeys() as IDBRequest<string[]>),
+    requestResult(fileStore.getAll() as IDBRequest<File[]>),
+    requestResult(tx.objectStore(PLAYLIST_STORE).getAll() as IDBRequest<Playlist[]>),
+    requestResult(tx.objectStore(META_STORE).get(ORDER_KEY) as IDBRequest<string[] | undefined>),
+  ]);
+
+  // getAllKeys and getAll walk the store in the same key order
+  const fileById = new Map(fileIds.map((id, i) => [id, files[i]]));
+  const byId = new Map<string, Track>();
+  for (const metadata of stored) {
+    const file = fileById.get(metadata.id);
+    // A record without its audio can't be played; leave it out
+    if (file) byId.set(metadata.id, { ...metadata, file });
+  }
+  const ordered: Track[] = [];
+  for (const id of order ?? []) {
+    const track = byId.get(id);
+    if (track) {
+      ordered.push(track);
+      byId.delete(id);
+    }
+  }
+  // Anything missing from the saved order (e.g. an interrupted write) goes last.
+  return {
+    tracks: [...ordered, ...byId.values()],
+    playlists: playlists.sort((a, b) => a.createdAt - b.createdAt),
+  };
+};
+
+/**
+ * Writes changed track metadata, the audio of newly added tracks, drops
+ * removed tracks with their audio and stores the new order in one transaction.
+ */
+export const syncLibrary = (changed: Track[], added: Track[], removedIds: string[], order: string[]) =>
+  runTransaction([TRACK_STORE, FILE_STORE, META_STORE], 'readwrite', tx => {
+    const trackStore = tx.objectStore(TRACK_STORE);
+    const fileStore = tx.objectStore(FILE_STORE);
+    changed.forEach(track => trackStore.put(toStored(track)));
+    added.forEach(track => fileStore.put(track.file, track.id));
+    removedIds.forEach(id => {
+      trackStore.delete(id);
+      fileStore.delete(id);
+    });
+    tx.objectStore(META_STORE).put(order, ORDER_KEY);
+  });
+
+export const syncPlaylists = (changed: Playlist[], removedIds: string[]) =>
+  runTransaction([PLAYLIST_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(PLAYLIST_STORE);
+    changed.forEach(playlist => store.put(playlist));
+    removedIds.forEach(id => store.delete(id));
+  });
+
+/** Deletes every track and playlist. */
+export const clearLibrary = () =>
+  runTransaction([TRACK_STORE, FILE_STORE, PLAYLIST_STORE, META_STORE], 'readwrite', tx => {
+    tx.objectStore(TRACK_STORE).clear();
+    tx.objectStore(FILE_STORE).clear();
+    tx.objectStore(PLAYLIST_STORE).clear();
+    tx.objectStore(META_STORE).delete(ORDER_KEY);
+  });
+
+/** Every logged play, oldest first. */
+export const loadPlays = async (): Promise<PlayRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction([PLAY_STORE], 'readonly');
+  return requestResult(tx.objectStore(PLAY_STORE).getAll() as IDBRequest<PlayRecord[]>);
+};
+
+export const addPlay = (play: PlayRecord) =>
+  runTransaction([PLAY_STORE], 'readwrite', tx => {
+    tx.objectStore(PLAY_STORE).add(play);
+  });
+
+export const clearPlays = () =>
+  runTransaction([PLAY_STORE], 'readwrite', tx => {
+    tx.objectStore(PLAY_STORE).clear();
+  });
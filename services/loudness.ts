@@ -0,0 +1,36 @@
+import { TrackLoudness } from '../types';
+import { REFERENCE_LUFS } from '../utils/replayGain';
+import { runAnalysis } from './analysisWorker';
+import { checkAnalysisLimits, decodeFile } from './audioDecoder';
+
+// Near-silent files would otherwise ask for absurd boosts
+const MAX_BOOST = 20;
+const MAX_CUT = -30;
+const ANALYSIS_RATE = 48000;
+// Tracks too long for this decode budget at 48 kHz are decoded at a lower
+// rate instead; the K-weighting filters are derived for whatever rate is used.
+const MAX_DECODED_FRAMES = ANALYSIS_RATE * 10 * 60;
+
+/**
+ * Decodes the whole file and measures its EBU R128 integrated loudness and
+ * sample peak in a worker, expressed as a ReplayGain 2.0 track gain. Throws
+ * if the file is too large or long to analyse or the browser cannot decode it.
+ */
+export const analyzeLoudness = async (file: Blob): Promise<TrackLoudness> => {
+  const probed = await checkAnalysisLimits(file);
+  const sampleRate = probed ? Math.min(ANALYSIS_RATE, Math.floor(MAX_DECODED_FRAMES / probed)) : ANALYSIS_RATE;
+  const buffer = await decodeFile(file, sampleRate);
+  // Copies the worker can take ownership of
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+
+  const { lufs, peak } = await runAnalysis(
+    { kind: 'loudness', channels, sampleRate: buffer.sampleRate },
+    channels.map(samples => samples.buffer)
+  );
+  return {
+    trackGain: Math.round(Math.max(MAX_CUT, Math.min(MAX_BOOST, REFERENCE_LUFS - lufs)) * 100) / 100,
+    trackPeak: Math.round(peak * 1e4) / 1e4,
+    duration: Math.round(buffer.duration),
+    source: 'analysis',
+  };
+};
@@ -0,0 +1,118 @@
+import { Track, AiLanguage, TrackEnergy } from '../types';
+import { foldSearchText } from '../utils/trackQuery';
+import { AiService } from './aiService';
+
+// Answers every AI request from the tags and measured audio features alone:
+// no network, deterministic output. Good enough for a rough picture offline,
+// and a drop-in stand-in for a real model since it implements the same service.
+
+// Genre keyword -> energy (0-1) and mood word per language
+const GENRE_HINTS: { pattern: RegExp; energy: number; mood: Record<AiLanguage, string> }[] = [
+  { pattern: /metal|punk|hardcore|drum.?n.?bass|dubstep/i, energy: 0.9, mood: { zh: '激烈', en: 'intense', ja: '激しい' } },
+  { pattern: /rock|dance|edm|house|techno|trance|electro/i, energy: 0.75, mood: { zh: '躁动', en: 'energetic', ja: 'エネルギッシュ' } },
+  { pattern: /hip.?hop|rap|funk|disco|reggae/i, energy: 0.65, mood: { zh: '律动', en: 'groovy', ja: 'グルーヴィー' } },
+  { pattern: /pop|k-?pop|j-?pop|流行/i, energy: 0.6, mood: { zh: '明快', en: 'upbeat', ja: '明るい' } },
+  { pattern: /r&b|soul|blues|jazz|爵士/i, energy: 0.45, mood: { zh: '慵懒', en: 'mellow', ja: 'メロウ' } },
+  { pattern: /folk|acoustic|country|民谣/i, energy: 0.35, mood: { zh: '温暖', en: 'warm', ja: '温かい' } },
+  { pattern: /classical|ambient|new.?age|piano|lo.?fi|古典|轻音乐/i, energy: 0.2, mood: { zh: '宁静', en: 'calm', ja: '穏やか' } },
+];
+
+const DEFAULT_ENERGY = 0.5;
+
+const SUMMARY: Record<AiLanguage, (count: number, genres: string[], mood: string) => string> = {
+  zh: (count, genres, mood) =>
+    `离线分析：共 ${count} 首${genres.length > 0 ? `，以${genres.join('、')}为主` : ''}，整体${mood || '风格多样'}。`,
+  en: (count, genres, mood) =>
+    `Offline analysis: ${count} tracks${genres.length > 0 ? `, mostly ${genres.join(', ')}` : ''}, ${mood || 'eclectic'} overall.`,
+  ja: (count, genres, mood) =>
+    `オフライン分析：全 ${count} 曲${genres.length > 0 ? `、主に${genres.join('・')}` : ''}、全体的に${mood || '多彩'}。`,
+};
+
+const FLOW_SUMMARY: Record<AiLanguage, string> = {
+  zh: '离线编排：按能量（未分析的歌曲按曲风推测）由低到高、再回落。',
+  en: 'Offline ordering: estimated energy rises from calm to intense, then winds down.',
+  ja: 'オフライン編成：エネルギー（未分析の曲はジャンルから推定）が徐々に上がり、最後に落ち着きます。',
+};
+
+const PLAYLIST_SUMMARY: Record<AiLanguage, (count: number) => string> = {
+  zh: count => `离线匹配：按曲风、情绪、艺人和标签中的关键词找到 ${count} 首。`,
+  en: count => `Offline match: ${count} tracks whose genre, mood, artist or tags appear in the description.`,
+  ja: count => `オフライン照合：ジャンル・ムード・アーティスト・タグの語句から ${count} 曲を見つけました。`,
+};
+
+const MAX_NAME_LENGTH = 20;
+
+const hintFor = (track: Track) => (track.genre ? GENRE_HINTS.find(hint => hint.pattern.test(track.genre ?? '')) : undefined);
+
+// Measured energy when the track has been analysed, otherwise a guess from the genre
+const energyOf = (track: Track) => track.features?.energy ?? hintFor(track)?.energy ?? DEFAULT_ENERGY;
+
+const toEnergies = (tracks: Track[]): TrackEnergy[] => tracks.map(track => ({ trackId: track.id, energy: energyOf(track) }));
+
+// Words a description may use for a track: its tags plus the mood of its genre in every language
+const keywordsOf = (track: Track): string[] => {
+  const hint = hintFor(track);
+  return [track.genre, track.artist, track.album, ...(track.aiTags ?? []), ...(hint ? Object.values(hint.mood) : [])]
+    .filter((word): word is string => Boolean(word))
+    .map(foldSearchText)
+    .filter(word => word.length >= 2);
+};
+
+// Most common values first
+const topValues = (values: (string | undefined)[], limit: number) => {
+  const counts = new Map<string, number>();
+  for (const value of values) if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([value]) => value);
+};
+
+export const createOfflineService = (): AiService => ({
+  id: 'offline',
+  analyze: async (mode, tracks, language) => {
+    if (mode === 'vibe') {
+      const genres = topValues(tracks.map(track => track.genre), 3);
+      const mood = topValues(tracks.map(track => hintFor(track)?.mood[language]), 3);
+      return {
+        mode,
+        summary: SUMMARY[language](tracks.length, genres, mood[0] ?? ''),
+        mood,
+        genres,
+        energyCurve: toEnergies(tracks),
+      };
+    }
+
+    if (mode === 'tags') {
+      return {
+        mode,
+        tracks: tracks.map(track => ({
+          trackId: track.id,
+          energy: energyOf(track),
+          tags: [
+            track.genre,
+            hintFor(track)?.mood[language],
+            track.year ? `${Math.floor(track.year / 10) * 10}s` : undefined,
+          ].filter((tag): tag is string => Boolean(tag)),
+        })),
+      };
+    }
+
+    // An arc: calmest tracks at both ends, the most intense in the middle
+    const sorted = [...tracks].sort((a, b) => energyOf(a) - energyOf(b));
+    const rising: string[] = [];
+    const falling: string[] = [];
+    sorted.forEach((track, i) => (i % 2 === 0 ? rising : falling).push(track.id));
+    return { mode, summary: FLOW_SUMMARY[language], order: [...rising, ...falling.reverse()] };
+  },
+  // Keyword matching only, so "no vocals" and the like are not understood
+  generatePlaylist: async (description, tracks, language) => {
+    const text = foldSearchText(description);
+    const scored = tracks
+      .map(track => ({ track, score: new Set(keywordsOf(track).filter(word => text.includes(word))).size }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+    return {
+      name: description.trim().slice(0, MAX_NAME_LENGTH),
+      summary: PLAYLIST_SUMMARY[language](scored.length),
+      trackIds: scored.map(({ track }) => track.id),
+    };
+  },
+});
@@ -0,0 +1,89 @@
+// Pitch shifting independent of playback speed. Media elements can only keep
+// pitch constant while changing speed (preservesPitch), so the semitone shift
+// is done in the graph by an AudioWorklet.
+//
+// The processor is the classic delay-line shifter: the signal is written into
+// a ring buffer and read back by two taps whose delay sweeps at (1 - ratio)
+// samples per sample, so each tap plays the signal at `ratio` times the
+// original speed. When a tap's delay wraps around it is silent, and the other
+// tap, half a window away, carries the sound; sin² windows keep the sum flat.
+// It smears transients a little, which is fine for practising along.
+
+const PROCESSOR_NAME = 'pitch-shifter';
+
+const PROCESSOR_SOURCE = `
+const WINDOW_SECONDS = 0.05;
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'ratio', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.window = Math.round(WINDOW_SECONDS * sampleRate);
+    let size = 1;
+    while (size < this.window * 2) size *= 2;
+    this.mask = size - 1;
+    this.buffers = [];
+    this.writeIndex = 0;
+    this.phase = 0;
+  }
+
+  read(buffer, delay) {
+    const position = this.writeIndex - delay;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = buffer[index & this.mask];
+    const b = buffer[(index + 1) & this.mask];
+    return a + (b - a) * fraction;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ratio = parameters.ratio[0];
+    if (input.length === 0) return true;
+
+    while (this.buffers.length < input.length) this.buffers.push(new Float32Array(this.mask + 1));
+    const step = (1 - ratio) / this.window;
+
+    for (let i = 0; i < output[0].length; i++) {
+      const phaseA = this.phase;
+      const phaseB = (this.phase + 0.5) % 1;
+      const gainA = Math.sin(Math.PI * phaseA) ** 2;
+      const gainB = 1 - gainA;
+      for (let channel = 0; channel < output.length; channel++) {
+        const buffer = this.buffers[Math.min(channel, input.length - 1)];
+        if (channel < input.length) buffer[this.writeIndex] = input[channel][i];
+        output[channel][i] = ratio === 1
+          ? input[Math.min(channel, input.length - 1)][i]
+          : this.read(buffer, phaseA * this.window + 1) * gainA + this.read(buffer, phaseB * this.window + 1) * gainB;
+      }
+      this.writeIndex = (this.writeIndex + 1) & this.mask;
+      this.phase = (((this.phase + step) % 1) + 1) % 1;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PitchShifterProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export const semitonesToRatio = (semitones: number) => Math.pow(2, semitones / 12);
+
+/** Creates a pitch shifter node; `ratio` is its only parameter (1 = unchanged). */
+export const createPitchShifter = async (context: BaseAudioContext): Promise<AudioWorkletNode> => {
+  if (!loadedContexts.has(context)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(context);
+  }
+  return new AudioWorkletNode(context, PROCESSOR_NAME, { outputChannelCount: [2] });
+};
@@ -0,0 +1,46 @@
+import { Track } from '../types';
+import { PLAYLIST_FORMATS, PlaylistFormat, serializePlaylist } from '../utils/playlistFormats';
+import { downloadFile } from './download';
+
+// A file the browser can't parse never fires loadedmetadata
+const METADATA_TIMEOUT = 5000;
+
+/** Reads a file's length from its metadata without decoding the audio. */
+export const readDuration = (file: Blob): Promise<number | undefined> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (duration?: number) => {
+      clearTimeout(timer);
+      audio.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && isFinite(duration) && duration > 0 ? duration : undefined);
+    };
+    const timer = setTimeout(() => done(), METADATA_TIMEOUT);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done();
+    audio.src = url;
+  });
+
+/** Fills in missing durations so the exported file carries real lengths. */
+export const withDurations = async (tracks: Track[]): Promise<Track[]> => {
+  const result: Track[] = [];
+  // One at a time: each probe holds a media element open
+  for (const track of tracks) {
+    if (track.duration) {
+      result.push(track);
+      continue;
+    }
+    const duration = await readDuration(track.file);
+    result.push(duration ? { ...track, duration } : track);
+  }
+  return result;
+};
+
+/** Saves the list as a playlist file through the browser's download prompt. */
+export const downloadPlaylist = (format: PlaylistFormat, name: string, tracks: Track[]) => {
+  const mime = PLAYLIST_FORMATS.find(entry => entry.format === format)?.mime ?? 'text/plain';
+  const blob = new Blob([serializePlaylist(format, name, tracks)], { type: `${mime};charset=utf-8` });
+  downloadFile(blob, `${name}.${format}`);
+};
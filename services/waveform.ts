@@ -0,0 +1,21 @@
+import { runAnalysis } from './analysisWorker';
+import { checkAnalysisLimits, decodeFile } from './audioDecoder';
+
+// Enough detail for the widest seek bar; the component merges slices to fit
+export const WAVEFORM_SLICES = 400;
+// Peaks don't need full bandwidth, and decoding at a low rate keeps a long
+// track's buffer small
+const DECODE_RATE = 8000;
+
+/**
+ * Decodes the file and returns the peak level of each slice, scaled so the
+ * loudest slice is 1, measured in a worker. Throws if the file is too large
+ * or long to analyse or the browser cannot decode it.
+ */
+export const computeWaveform = async (file: Blob, slices = WAVEFORM_SLICES): Promise<number[]> => {
+  await checkAnalysisLimits(file);
+  const buffer = await decodeFile(file, DECODE_RATE);
+  // Copies the worker can take ownership of
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+  return runAnalysis({ kind: 'waveform', channels, slices }, channels.map(samples => samples.buffer));
+};
@@ -1,7 +1,88 @@
 export interface Track {
   file: File;
   id: string;
+  /** File name without extension, used when the file carries no title tag */
   name: string;
+  title?: string;
+  artist?: string;
+  /** Album-level artist; distinguishes same-named albums and groups compilations */
+  albumArtist?: string;
+  album?: string;
+  trackNumber?: number;
+  year?: number;
+  genre?: string;
+  /** Embedded cover art (front cover when the file has several pictures) */
+  picture?: Blob;
+  /** ReplayGain values from the file's tags or our own analysis */
+  loudness?: TrackLoudness;
+  /** LRC (possibly enhanced) or plain text, from a sidecar .lrc or embedded tags */
+  lyrics?: string;
+  /** SHA-256 of the file, computed when needed for duplicate detection */
+  contentHash?: string;
+  /** Length in seconds, probed in the background after import */
+  duration?: number;
+  /** When the track was imported (ms since epoch); missing for tracks imported before this was recorded */
+  addedAt?: number;
+  /** Chapter or cue sheet markers from the file's tags, in time order */
+  chapters?: Chapter[];
+  /** Peak level per slice of the track (0-1), computed for the seek bar on first play */
+  waveform?: number[];
+  /** Descriptive tags from the AI "tags" analysis */
+  aiTags?: string[];
+  /** Tempo, key and energy estimated from the audio in the background */
+  features?: AudioFeatures;
+}
+
+export interface Chapter {
+  /** Start in seconds */
+  time: number;
+  title?: string;
+}
+
+/** Estimated from the decoded audio (see utils/audioFeatures). */
+export interface AudioFeatures {
+  /** Beats per minute, folded into 60-200 */
+  bpm: number;
+  /** Pitch class of the key's tonic, 0 = C ... 11 = B */
+  tonic: number;
+  mode: 'major' | 'minor';
+  /** Overall intensity 0-1, from loudness and how busy the onsets are */
+  energy: number;
+  /** Level (0-1) per slice from start to end */
+  energyProfile: number[];
+}
+
+/** Gains in dB relative to the ReplayGain 2.0 reference (-18 LUFS); peaks are linear. */
+export interface TrackLoudness {
+  trackGain: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+  /** Seconds of audio measured, used to weight tracks when deriving album gain */
+  duration?: number;
+  source: 'tags' | 'analysis';
+}
+
+/** A named, ordered selection of library tracks. Tracks are referenced, never copied. */
+export interface Playlist {
+  id: string;
+  name: string;
+  trackIds: string[];
+  createdAt: number;
+}
+
+/** One listen, logged when the track is left (see hooks/usePlayHistory). */
+export interface PlayRecord {
+  trackId: string;
+  /** Title and artist at the time, so the history outlives the track */
+  title: string;
+  artist?: string;
+  /** ms since epoch */
+  startedAt: number;
+  /** Seconds actually spent playing, not counting pauses */
+  listened: number;
+  /** Reached the end (or close to it); otherwise the play counts as skipped */
+  completed: boolean;
 }
 
 export interface AudioVisualizerState {
@@ -9,3 +90,167 @@ export interface AudioVisualizerState {
   currentTime: number;
   duration: number;
 }
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+/** Player state restored on the next launch (see utils/storage). */
+export interface PlayerSession {
+  trackId: string | null;
+  /** List the current track was started from (library or a playlist id) */
+  listId: string;
+  /** List shown in the side panel */
+  viewId: string;
+  /** Last track played from the list itself (queued tracks don't move it) */
+  cursorId: string | null;
+  /** Up-next queue, played before continuing through the list */
+  queue: string[];
+  repeatMode: RepeatMode;
+  /** Current shuffle cycle over the playing list */
+  shuffleOrder: string[];
+  position: number;
+  volume: number;
+  isMuted: boolean;
+  isShuffle: boolean;
+}
+
+/** Playback preferences (see utils/storage). */
+export type ReplayGainMode = 'off' | 'track' | 'album';
+
+export interface PlaybackSettings {
+  /** Overlap between consecutive tracks in seconds; 0 plays them gaplessly */
+  crossfade: number;
+  replayGain: ReplayGainMode;
+  /** Extra gain in dB on top of the ReplayGain adjustment */
+  preAmp: number;
+  /** Shuffle cycles put tracks with similar tempo, key and energy next to each other */
+  smoothShuffle: boolean;
+}
+
+/** Practice controls (see services/audioEngine). */
+export interface TempoSettings {
+  /** Playback speed, 0.5-2 */
+  rate: number;
+  /** Keep the original pitch when the speed changes */
+  preservesPitch: boolean;
+  /** Pitch shift on top of any speed change, -12 to 12 */
+  semitones: number;
+}
+
+/** A-B loop within the current track, in seconds. */
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+/** Effects chain between the decks and the analyser (see services/effectsChain). */
+export interface EffectsSettings {
+  /** Bypass toggle: when off the chain passes audio through untouched */
+  enabled: boolean;
+  /** Gain in dB for each band of EQ_FREQUENCIES */
+  bands: number[];
+  /** Preset the bands were last taken from; null once edited by hand */
+  presetId: string | null;
+  /** Shelf gains in dB */
+  bass: number;
+  treble: number;
+  /** Stereo balance from -1 (left) to 1 (right) */
+  balance: number;
+  limiter: boolean;
+}
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  bands: number[];
+}
+
+/** How the side-panel list is ordered (see utils/trackQuery). */
+export type TrackSortKey = 'manual' | 'title' | 'artist' | 'album' | 'year' | 'genre' | 'fileName' | 'duration' | 'addedAt' | 'playCount' | 'bpm' | 'key' | 'energy';
+export type TrackGroupKey = 'none' | 'artist' | 'album';
+
+export interface ListViewSettings {
+  /** 'manual' keeps the list's own order, which is the only order that can be dragged */
+  sort: TrackSortKey;
+  descending: boolean;
+  group: TrackGroupKey;
+}
+
+/** AI playlist analysis (see services/aiService). */
+export type AiMode = 'vibe' | 'tags' | 'flow';
+export type AiLanguage = 'zh' | 'en' | 'ja';
+export type AiProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  /** Language the model writes summaries and tags in; 'auto' follows the interface language */
+  language: AiLanguage | 'auto';
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  endpoint: string;
+  model: string;
+  /** Sent as a bearer token to the OpenAI-compatible endpoint; often not needed when self-hosted */
+  apiKey: string;
+}
+
+export interface TrackEnergy {
+  trackId: string;
+  /** 0 (calm) to 1 (intense) */
+  energy: number;
+}
+
+export type PlaylistAnalysis =
+  | {
+      mode: 'vibe';
+      summary: string;
+      mood: string[];
+      genres: string[];
+      /** Energy of each analysed track, in list order */
+      energyCurve: TrackEnergy[];
+    }
+  | { mode: 'tags'; tracks: (TrackEnergy & { tags: string[] })[] }
+  | {
+      mode: 'flow';
+      summary: string;
+      /** Every analysed track id, in the suggested order */
+      order: string[];
+    };
+
+/** A playlist suggested from a description, before it is saved. */
+export interface GeneratedPlaylist {
+  name: string;
+  summary: string;
+  /** Library track ids, no repeats */
+  trackIds: string[];
+}
+
+/** Filters of a rule-based smart playlist; a track must pass every rule that is set. */
+export interface SmartRules {
+  /** Exact genre, '' for any */
+  genre: string;
+  /** Shorter than this many minutes */
+  maxMinutes: number | null;
+  /** Not played in this many days, or never */
+  notPlayedDays: number | null;
+}
+
+/** Visualizer preferences (see components/visualizers). */
+export interface VisualizerSettings {
+  /** Id of a mode in VISUALIZER_MODES */
+  mode: string;
+  /** AnalyserNode FFT size, a power of two */
+  fftSize: number;
+  /** AnalyserNode smoothingTimeConstant, 0-1 */
+  smoothing: number;
+}
+
+/** Active sleep timer: a wall-clock deadline, or stop at the end of the current track / the queue. */
+export type SleepTimer =
+  | { mode: 'duration'; endsAt: number }
+  | { mode: 'track' }
+  | { mode: 'queue' };
+
+export interface SleepTimerSettings {
+  /** Seconds the output fades over before the timer stops playback */
+  fade: number;
+  /** Last custom duration in minutes */
+  customMinutes: number;
+}
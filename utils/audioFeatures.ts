@@ -0,0 +1,279 @@
+import { AudioFeatures } from '../types';
+
+// Tempo, key and energy from mono samples. Pure so it can run in a worker
+// (services/analysis.worker.ts); the caller decodes and down-mixes.
+
+// Enough bandwidth for onsets and the pitch range the key is read from
+export const ANALYSIS_RATE = 11025;
+
+const ONSET_FRAME = 1024;
+const ONSET_HOP = 256;
+const CHROMA_FRAME = 4096;
+const CHROMA_MIN_HZ = 65;
+const CHROMA_MAX_HZ = 2100;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Human tempo perception peaks around 120 BPM; halves and doubles are weighed against it
+const PREFERRED_BPM = 120;
+// Beats compared per candidate tempo
+const COMB_BEATS = 4;
+const PROFILE_SLICES = 32;
+// Onsets closer together than this count once
+const MIN_ONSET_GAP = 0.1;
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const NOTE_NAMES = ['C', 'C♯', 'D', 'E♭', 'E', 'F', 'F♯', 'G', 'A♭', 'A', 'B♭', 'B'];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-9));
+
+// --- Spectrum ---
+
+/** In-place radix-2 FFT for frames of `n` samples (a power of two); twiddles are computed once. */
+const createFft = (n: number) => {
+  const cosTable = Float32Array.from({ length: n / 2 }, (_, k) => Math.cos((-2 * Math.PI * k) / n));
+  const sinTable = Float32Array.from({ length: n / 2 }, (_, k) => Math.sin((-2 * Math.PI * k) / n));
+  return (re: Float32Array, im: Float32Array) => {
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+      const stride = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < size / 2; k++) {
+          const cos = cosTable[k * stride];
+          const sin = sinTable[k * stride];
+          const a = start + k;
+          const b = a + size / 2;
+          const tRe = re[b] * cos - im[b] * sin;
+          const tIm = re[b] * sin + im[b] * cos;
+          re[b] = re[a] - tRe;
+          im[b] = im[a] - tIm;
+          re[a] += tRe;
+          im[a] += tIm;
+        }
+      }
+    }
+  };
+};
+
+const hann = (size: number) => Float32Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+
+/** Calls `visit` with the magnitude spectrum of each windowed frame. */
+const forEachSpectrum = (samples: Float32Array, frame: number, hop: number, visit: (magnitudes: Float32Array) => void) => {
+  const window = hann(frame);
+  const fft = createFft(frame);
+  const re = new Float32Array(frame);
+  const im = new Float32Array(frame);
+  const magnitudes = new Float32Array(frame / 2);
+  for (let start = 0; start + frame <= samples.length; start += hop) {
+    for (let i = 0; i < frame; i++) re[i] = samples[start + i] * window[i];
+    im.fill(0);
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) magnitudes[k] = Math.hypot(re[k], im[k]);
+    visit(magnitudes);
+  }
+};
+
+// --- Tempo ---
+
+/** Spectral flux of log magnitudes: how much new energy each frame brings. */
+const onsetEnvelope = (samples: Float32Array): Float32Array => {
+  const flux: number[] = [];
+  let previous: Float32Array | null = null;
+  forEachSpectrum(samples, ONSET_FRAME, ONSET_HOP, magnitudes => {
+    const current = magnitudes.map(m => Math.log1p(100 * m));
+    let sum = 0;
+    if (previous) for (let k = 0; k < current.length; k++) sum += Math.max(0, current[k] - previous[k]);
+    flux.push(sum);
+    previous = current;
+  });
+  // Centered, so silence and sustained parts don't correlate with everything
+  const mean = flux.reduce((total, value) => total + value, 0) / (flux.length || 1);
+  return Float32Array.from(flux, value => value - mean);
+};
+
+const autocorrelate = (envelope: Float32Array, maxLag: number): Float32Array => {
+  const result = new Float32Array(maxLag + 2);
+  for (let lag = 0; lag < result.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    result[lag] = sum / (envelope.length - lag || 1);
+  }
+  return result;
+};
+
+const interpolate = (values: Float32Array, position: number) => {
+  const i = Math.floor(position);
+  const fraction = position - i;
+  return (values[i] ?? 0) * (1 - fraction) + (values[i + 1] ?? 0) * fraction;
+};
+
+/**
+ * Tempo whose beat period, and its first few multiples, line up best with the
+ * onset autocorrelation. A log-normal prior around PREFERRED_BPM settles
+ * half/double tempo ambiguity the way listeners usually would.
+ */
+const estimateTempo = (envelope: Float32Array, frameRate: number): number => {
+  const ac = autocorrelate(envelope, Math.ceil((frameRate * 60 * COMB_BEATS) / MIN_BPM));
+  const score = (bpm: number) => {
+    const lag = (frameRate * 60) / bpm;
+    let sum = 0;
+    for (let beat = 1; beat <= COMB_BEATS; beat++) sum += interpolate(ac, lag * beat);
+    return sum * Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+  };
+  let best = PREFERRED_BPM;
+  for (let bpm = MIN_BPM; bpm <= MAX_BPM; bpm += 0.5) if (score(bpm) > score(best)) best = bpm;
+  // Refine around the coarse pick
+  let refined = best;
+  for (let bpm = best - 0.5; bpm <= best + 0.5; bpm += 0.05) if (score(bpm) > score(refined)) refined = bpm;
+  return Math.round(refined * 10) / 10;
+};
+
+const onsetRate = (envelope: Float32Array, frameRate: number): number => {
+  if (envelope.length === 0) return 0;
+  const std = Math.sqrt(envelope.reduce((total, value) => total + value * value, 0) / envelope.length);
+  const minGap = Math.round(MIN_ONSET_GAP * frameRate);
+  let count = 0;
+  let last = -Infinity;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const value = envelope[i];
+    if (value > std && value >= envelope[i - 1] && value > envelope[i + 1] && i - last >= minGap) {
+      count++;
+      last = i;
+    }
+  }
+  return count / (envelope.length / frameRate);
+};
+
+// --- Key ---
+
+const chromagram = (samples: Float32Array, sampleRate: number): number[] => {
+  const pitchClassOfBin = Array.from({ length: CHROMA_FRAME / 2 }, (_, k) => {
+    const hz = (k * sampleRate) / CHROMA_FRAME;
+    if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) return -1;
+    return (Math.round(12 * Math.log2(hz / 440)) + 69) % 12;
+  });
+  const chroma = new Array<number>(12).fill(0);
+  forEachSpectrum(samples, CHROMA_FRAME, CHROMA_FRAME, magnitudes => {
+    for (let k = 0; k < magnitudes.length; k++) {
+      const pitchClass = pitchClassOfBin[k];
+      if (pitchClass >= 0) chroma[pitchClass] += magnitudes[k];
+    }
+  });
+  return chroma;
+};
+
+const correlation = (a: number[], b: number[]) => {
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+    sumA += (a[i] - meanA) ** 2;
+    sumB += (b[i] - meanB) ** 2;
+  }
+  return sumA > 0 && sumB > 0 ? sum / Math.sqrt(sumA * sumB) : 0;
+};
+
+/** Krumhansl-Schmuckler: the key whose profile correlates best with the chroma. */
+const estimateKey = (chroma: number[]): Pick<AudioFeatures, 'tonic' | 'mode'> => {
+  let best: Pick<AudioFeatures, 'tonic' | 'mode'> = { tonic: 0, mode: 'major' };
+  let bestScore = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+    for (const [mode, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]] as const) {
+      const score = correlation(rotated, profile);
+      if (score > bestScore) {
+        bestScore = score;
+        best = { tonic, mode };
+      }
+    }
+  }
+  return best;
+};
+
+// --- Energy ---
+
+const rms = (samples: Float32Array, start: number, end: number) => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, end - start));
+};
+
+/** Estimates tempo, key and energy from mono samples (ideally at ANALYSIS_RATE). */
+export const extractFeatures = (samples: Float32Array, sampleRate: number): AudioFeatures => {
+  const frameRate = sampleRate / ONSET_HOP;
+  const envelope = onsetEnvelope(samples);
+
+  // -30 dBFS RMS is quiet (0), a loud modern master sits near -8 (1)
+  const loudness = clamp01((toDb(rms(samples, 0, samples.length)) + 30) / 22);
+  const busyness = clamp01(onsetRate(envelope, frameRate) / 5);
+
+  const sliceLength = samples.length / PROFILE_SLICES;
+  const energyProfile = Array.from({ length: PROFILE_SLICES }, (_, slice) =>
+    round2(clamp01((toDb(rms(samples, Math.floor(slice * sliceLength), Math.floor((slice + 1) * sliceLength))) + 40) / 32))
+  );
+
+  return {
+    bpm: estimateTempo(envelope, frameRate),
+    ...estimateKey(chromagram(samples, sampleRate)),
+    energy: round2(0.6 * loudness + 0.4 * busyness),
+    energyProfile,
+  };
+};
+
+// --- Display and comparison ---
+
+/** "A", "F♯m" */
+export const formatKey = ({ tonic, mode }: Pick<AudioFeatures, 'tonic' | 'mode'>): string =>
+  `${NOTE_NAMES[tonic]}${mode === 'minor' ? 'm' : ''}`;
+
+/**
+ * Position on the Camelot wheel (1-12, A for minor, B for major), where
+ * neighbours mix harmonically: "8A" is A minor, "8B" C major.
+ */
+export const getCamelot = ({ tonic, mode }: Pick<AudioFeatures, 'tonic' | 'mode'>): { number: number; letter: 'A' | 'B' } => {
+  // Minor keys share the number of their relative major
+  const major = mode === 'minor' ? (tonic + 3) % 12 : tonic;
+  return { number: ((major * 7) % 12 + 7) % 12 + 1, letter: mode === 'minor' ? 'A' : 'B' };
+};
+
+export const formatCamelot = (features: Pick<AudioFeatures, 'tonic' | 'mode'>): string => {
+  const { number, letter } = getCamelot(features);
+  return `${number}${letter}`;
+};
+
+/** Sorts keys around the wheel, so compatible keys end up next to each other. */
+export const getKeyOrder = (features: Pick<AudioFeatures, 'tonic' | 'mode'>): number => {
+  const { number, letter } = getCamelot(features);
+  return number * 2 + (letter === 'B' ? 1 : 0);
+};
+
+/**
+ * How jarring it is to go from one track to the other: tempo, key (steps on
+ * the Camelot wheel) and energy combined. 0 when either is not analysed.
+ */
+export const getFeatureDistance = (a?: AudioFeatures, b?: AudioFeatures): number => {
+  if (!a || !b) return 0;
+  // Half and double time mix fine
+  const tempo = Math.min(...[0.5, 1, 2].map(ratio => Math.abs(a.bpm * ratio - b.bpm))) / 10;
+  const camelotA = getCamelot(a);
+  const camelotB = getCamelot(b);
+  const steps = Math.abs(camelotA.number - camelotB.number);
+  const key = Math.min(steps, 12 - steps) + (camelotA.letter === camelotB.letter ? 0 : 1);
+  return tempo + key + Math.abs(a.energy - b.energy) * 5;
+};
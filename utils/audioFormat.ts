@@ -0,0 +1,83 @@
+// Browsers leave File.type empty for many audio formats (.flac, .opus, .ape
+// on most platforms), so files are picked by extension and then confirmed by
+// their leading bytes.
+
+const AUDIO_EXTENSIONS = new Set([
+  'mp3', 'flac', 'ogg', 'oga', 'opus', 'm4a', 'm4b', 'mp4', 'aac', 'wav', 'wave', 'aif', 'aiff', 'webm', 'weba', 'wv', 'ape',
+]);
+
+export const getExtension = (fileName: string) => fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+
+/** Cheap check from the name and MIME type alone. */
+export const looksLikeAudio = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.has(getExtension(file.name));
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const detectFormat = (bytes: Uint8Array): string | null => {
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (ascii(bytes, 0, 4) === 'FORM' && ['AIFF', 'AIFC'].includes(ascii(bytes, 8, 4))) return 'aiff';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (ascii(bytes, 0, 4) === 'wvpk') return 'wavpack';
+  if (ascii(bytes, 0, 4) === 'MAC ') return 'ape';
+  return detectFrameSync(bytes, 0);
+};
+
+// How far into an MP3 to look for the first frame past leading junk or padding
+const SYNC_SCAN_BYTES = 8192;
+const MPEG_EXTENSIONS = new Set(['mp3', 'aac']);
+const MPEG_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/aac'];
+
+// An 11-bit MPEG audio or 12-bit ADTS sync whose header fields aren't the
+// reserved values, so stray 0xFF bytes in junk don't count as a frame.
+const detectFrameSync = (bytes: Uint8Array, i: number): string | null => {
+  if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0 || i + 2 >= bytes.length) return null;
+  const layer = (bytes[i + 1] >> 1) & 0x03;
+  // ADTS AAC: layer bits are always 0
+  if (layer === 0) return (bytes[i + 1] & 0xf0) === 0xf0 && ((bytes[i + 2] >> 2) & 0x0f) < 13 ? 'aac' : null;
+  const version = (bytes[i + 1] >> 3) & 0x03;
+  const bitrate = bytes[i + 2] >> 4;
+  const sampleRate = (bytes[i + 2] >> 2) & 0x03;
+  return version !== 1 && bitrate !== 0x0f && sampleRate !== 0x03 ? 'mp3' : null;
+};
+
+const scanForFrameSync = (bytes: Uint8Array): string | null => {
+  for (let i = 0; i < bytes.length - 2; i++) {
+    const format = detectFrameSync(bytes, i);
+    if (format) return format;
+  }
+  return null;
+};
+
+/**
+ * Identifies the container from the file's magic bytes, looking past a
+ * leading ID3v2 tag (MP3, and FLAC from some rippers) and, for MP3, past
+ * junk or padding before the first frame. Null when the bytes match no audio
+ * format we know and the name doesn't say MP3 either.
+ */
+export const sniffAudioFormat = async (file: File): Promise<string | null> => {
+  let head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (ascii(head, 0, 3) === 'ID3' && head.length >= 10) {
+    const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+    const footer = head[5] & 0x10 ? 10 : 0;
+    const offset = 10 + tagSize + footer;
+    head = new Uint8Array(await file.slice(offset, offset + 12).arrayBuffer());
+    // An ID3 tag followed by something unrecognised is still most likely an MP3
+    return detectFormat(head) ?? 'mp3';
+  }
+  const format = detectFormat(head);
+  if (format) return format;
+
+  // Only raw MPEG streams are looked into further; other containers start with their magic
+  const extension = getExtension(file.name);
+  if (!MPEG_EXTENSIONS.has(extension) && !MPEG_TYPES.includes(file.type)) return null;
+  const start = new Uint8Array(await file.slice(0, SYNC_SCAN_BYTES).arrayBuffer());
+  // Decoders resync on their own, so the extension is trusted when no frame turns up in range
+  return scanForFrameSync(start) ?? (extension === 'mp3' ? 'mp3' : null);
+};
+
+/** `accept` value for file inputs: by MIME type and by extension for the formats browsers don't label. */
+export const AUDIO_ACCEPT = ['audio/*', ...Array.from(AUDIO_EXTENSIONS, ext => `.${ext}`)].join(',');
@@ -0,0 +1,44 @@
+import { EffectsSettings, EqPreset } from '../types';
+import { MessageKey } from '../i18n';
+
+/** Centre frequencies (Hz) of the ten graphic EQ bands, one octave apart. */
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_RANGE = 12;
+export const TONE_RANGE = 12;
+
+const FLAT = EQ_FREQUENCIES.map(() => 0);
+
+/** Built-in presets are named through the message catalogs; the user's own keep the name they typed. */
+export type BuiltInPreset = Omit<EqPreset, 'name'> & { nameKey: MessageKey };
+
+export const BUILT_IN_PRESETS: BuiltInPreset[] = [
+  { id: 'flat', nameKey: 'eq.preset.flat', bands: FLAT },
+  { id: 'bass-boost', nameKey: 'eq.preset.bassBoost', bands: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { id: 'treble-boost', nameKey: 'eq.preset.trebleBoost', bands: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { id: 'vocal', nameKey: 'eq.preset.vocal', bands: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { id: 'rock', nameKey: 'eq.preset.rock', bands: [5, 4, 2, -1, -2, -1, 2, 3, 4, 4] },
+  { id: 'pop', nameKey: 'eq.preset.pop', bands: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2] },
+  { id: 'jazz', nameKey: 'eq.preset.jazz', bands: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3] },
+  { id: 'classical', nameKey: 'eq.preset.classical', bands: [4, 3, 2, 1, 0, 0, 0, 1, 2, 3] },
+  { id: 'electronic', nameKey: 'eq.preset.electronic', bands: [5, 4, 1, 0, -2, 1, 0, 2, 4, 5] },
+  { id: 'late-night', nameKey: 'eq.preset.lateNight', bands: [-3, -2, -1, 0, 1, 1, 0, -1, -2, -3] },
+];
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  enabled: true,
+  bands: FLAT,
+  presetId: 'flat',
+  bass: 0,
+  treble: 0,
+  balance: 0,
+  limiter: false,
+};
+
+export const formatFrequency = (hz: number): string => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
+
+// Saved settings may come from a version with a different band count
+export const normalizeBands = (bands: number[] | undefined): number[] =>
+  EQ_FREQUENCIES.map((_, i) => {
+    const value = Number(bands?.[i]);
+    return isFinite(value) ? Math.max(-EQ_RANGE, Math.min(EQ_RANGE, value)) : 0;
+  });
@@ -0,0 +1,27 @@
+/**
+ * Subsequence fuzzy match: every query character must appear in order.
+ * Returns a score (higher is better) or null when `text` doesn't match.
+ * Consecutive runs and matches at word starts score higher, so "tsw" ranks
+ * "Taylor Swift" above "the sweetest".
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s\-_([.·]/.test(haystack[index - 1])) score += 2;
+    previous = index;
+    position = index + 1;
+  }
+  // Prefer tighter, shorter matches
+  return score - haystack.length * 0.01;
+};
@@ -0,0 +1,60 @@
+// The subset of JSON Schema the AI responses are described with. The same
+// object is sent to the model as its response format and used to check what
+// comes back, since models don't always honour it.
+
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: JsonSchema; maxItems?: number; description?: string }
+  | {
+      type: 'object';
+      properties: Record<string, JsonSchema>;
+      required: string[];
+      additionalProperties?: false;
+      description?: string;
+    };
+
+/**
+ * Checks `value` against `schema`. Returns null when it matches, otherwise a
+ * message naming the first offending path, e.g. "$.tracks[3].tags: expected array".
+ */
+export const validateJson = (schema: JsonSchema, value: unknown, path = '$'): string | null => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${path}: expected string`;
+      if (schema.enum && !schema.enum.includes(value)) return `${path}: expected one of ${schema.enum.join(', ')}`;
+      return null;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !isFinite(value)) return `${path}: expected number`;
+      if (schema.type === 'integer' && !Number.isInteger(value)) return `${path}: expected integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${path}: below ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `${path}: above ${schema.maximum}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path}: expected boolean`;
+    case 'array': {
+      if (!Array.isArray(value)) return `${path}: expected array`;
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return `${path}: more than ${schema.maxItems} items`;
+      for (let i = 0; i < value.length; i++) {
+        const error = validateJson(schema.items, value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path}: expected object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required) {
+        if (!(key in record)) return `${path}.${key}: missing`;
+      }
+      for (const [key, property] of Object.entries(schema.properties)) {
+        if (!(key in record)) continue;
+        const error = validateJson(property, record[key], `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+};
@@ -0,0 +1,112 @@
+// EBU R128 / ITU-R BS.1770 integrated loudness and sample peak from decoded
+// channels. Pure so it can run in a worker (services/analysis.worker.ts); the
+// caller decodes. Samples are filtered one at a time, so no second buffer of
+// K-weighted audio is ever held.
+
+// 400 ms blocks overlapping by 75%, so energies are summed per 100 ms step
+// and each block covers four steps.
+const STEP_SECONDS = 0.1;
+const STEPS_PER_BLOCK = 4;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+// BS.1770 channel weights for L, R, C, Ls, Rs (LFE would be excluded)
+const CHANNEL_WEIGHTS = [1, 1, 1, 1.41, 1.41];
+
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS */
+  lufs: number;
+  /** Sample peak, linear */
+  peak: number;
+}
+
+const energyToLufs = (energy: number) => -0.691 + 10 * Math.log10(energy);
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The K-weighting pre-filter (a high shelf for the head's acoustic effect,
+// then the "RLB" high-pass), with the standard's 48 kHz coefficients
+// re-derived for the actual sample rate.
+const kWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+  return [shelf, highPass];
+};
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessMeasurement => {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const stepLength = Math.round(sampleRate * STEP_SECONDS);
+  const length = channels[0]?.length ?? 0;
+  const stepCount = Math.floor(length / stepLength);
+  const stepEnergy = new Float64Array(stepCount);
+  let peak = 0;
+
+  channels.forEach((samples, channel) => {
+    const weight = CHANNEL_WEIGHTS[channel] ?? 1;
+    // Direct form II transposed state of both stages
+    let s1 = 0, s2 = 0, h1 = 0, h2 = 0;
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      const end = (step + 1) * stepLength;
+      for (let i = step * stepLength; i < end; i++) {
+        const x = samples[i];
+        const magnitude = Math.abs(x);
+        if (magnitude > peak) peak = magnitude;
+        const y = shelf.b0 * x + s1;
+        s1 = shelf.b1 * x - shelf.a1 * y + s2;
+        s2 = shelf.b2 * x - shelf.a2 * y;
+        const z = highPass.b0 * y + h1;
+        h1 = highPass.b1 * y - highPass.a1 * z + h2;
+        h2 = highPass.b2 * y - highPass.a2 * z;
+        sum += z * z;
+      }
+      stepEnergy[step] += weight * sum;
+    }
+    // The tail shorter than a step still counts towards the peak
+    for (let i = stepCount * stepLength; i < samples.length; i++) {
+      const magnitude = Math.abs(samples[i]);
+      if (magnitude > peak) peak = magnitude;
+    }
+  });
+
+  const blockLength = stepLength * STEPS_PER_BLOCK;
+  const blocks: number[] = [];
+  for (let step = 0; step + STEPS_PER_BLOCK <= stepCount; step++) {
+    let sum = 0;
+    for (let i = 0; i < STEPS_PER_BLOCK; i++) sum += stepEnergy[step + i];
+    blocks.push(sum / blockLength);
+  }
+
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const audible = blocks.filter(energy => energyToLufs(energy) > ABSOLUTE_GATE);
+  if (audible.length === 0) return { lufs: ABSOLUTE_GATE, peak };
+  const threshold = energyToLufs(mean(audible)) + RELATIVE_GATE;
+  const gated = audible.filter(energy => energyToLufs(energy) > threshold);
+  return { lufs: energyToLufs(mean(gated.length > 0 ? gated : audible)), peak };
+};
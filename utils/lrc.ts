@@ -0,0 +1,108 @@
+// LRC lyrics: "[mm:ss.xx]line" with optional metadata tags ([ar:], [offset:])
+// and the "enhanced" A2 extension that times single words: "<mm:ss.xx>word".
+// Plain text without any timestamps is kept as unsynced lines.
+
+export interface LyricWord {
+  time: number;
+  text: string;
+}
+
+export interface LyricLine {
+  /** Seconds; 0 for unsynced lyrics */
+  time: number;
+  text: string;
+  /** Present for enhanced LRC lines with per-word timings */
+  words?: LyricWord[];
+}
+
+export interface Lyrics {
+  lines: LyricLine[];
+  synced: boolean;
+}
+
+const LINE_TIME = /\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/g;
+const WORD_TIME = /<(\d+):(\d{1,2}(?:[.:]\d{1,3})?)>/g;
+const OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\s*\]$/i;
+const METADATA_TAG = /^\[[a-z]+:.*\]$/i;
+
+const toSeconds = (minutes: string, seconds: string) => Number(minutes) * 60 + Number(seconds.replace(':', '.'));
+
+/** Formats seconds as an LRC timestamp body, e.g. 83.5 -> "01:23.50". */
+export const formatLrcTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds - minutes * 60).toFixed(2).padStart(5, '0');
+  return `${String(minutes).padStart(2, '0')}:${rest}`;
+};
+
+// Text before the first word stamp starts with the line itself
+const parseWords = (text: string, offset: number, lineTime: number): LyricWord[] | undefined => {
+  const matches = [...text.matchAll(WORD_TIME)];
+  if (matches.length === 0) return undefined;
+  const words: LyricWord[] = [];
+  const lead = text.slice(0, matches[0].index ?? 0);
+  if (lead.trim()) words.push({ time: lineTime, text: lead });
+  matches.forEach((match, i) => {
+    const end = matches[i + 1]?.index ?? text.length;
+    const word = text.slice((match.index ?? 0) + match[0].length, end);
+    if (word) words.push({ time: Math.max(0, toSeconds(match[1], match[2]) - offset), text: word });
+  });
+  return words;
+};
+
+export const parseLyrics = (source: string): Lyrics => {
+  const rawLines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  // [offset:+500] shifts every timestamp; positive values show lyrics earlier
+  let offset = 0;
+  for (const raw of rawLines) {
+    const match = raw.trim().match(OFFSET_TAG);
+    if (match) offset = Number(match[1]) / 1000;
+  }
+
+  const timed: LyricLine[] = [];
+  const plain: LyricLine[] = [];
+  for (const raw of rawLines) {
+    const line = raw.trim();
+    const stamps = [...line.matchAll(LINE_TIME)];
+    if (stamps.length === 0) {
+      if (!METADATA_TAG.test(line)) plain.push({ time: 0, text: line });
+      continue;
+    }
+
+    // "[00:12.00][00:48.00]chorus" repeats one line at several times
+    const body = line.replace(LINE_TIME, '');
+    const text = body.replace(WORD_TIME, '').trim();
+    const times = stamps.map(stamp => Math.max(0, toSeconds(stamp[1], stamp[2]) - offset));
+    const words = parseWords(body, offset, times[0]);
+    for (const time of times) {
+      // Word stamps belong to the first occurrence; repeats shift along with the line
+      const shift = time - times[0];
+      timed.push({ time, text, words: words?.map(word => ({ ...word, time: word.time + shift })) });
+    }
+  }
+
+  // Untimed lines in a synced file are stray blanks or credits
+  if (timed.length > 0) return { lines: timed.sort((a, b) => a.time - b.time), synced: true };
+
+  // Trim blank lines around plain-text lyrics, keep the stanza breaks
+  while (plain.length > 0 && !plain[0].text) plain.shift();
+  while (plain.length > 0 && !plain[plain.length - 1].text) plain.pop();
+  return { lines: plain, synced: false };
+};
+
+/** Index of the line being sung at `time`, or -1 before the first one. */
+export const findActiveLine = (lines: LyricLine[], time: number): number => {
+  let low = 0;
+  let high = lines.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
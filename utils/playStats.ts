@@ -0,0 +1,156 @@
+import { PlayRecord, Track } from '../types';
+import { getTrackTitle } from './trackInfo';
+
+export interface TrackStat {
+  trackId: string;
+  title: string;
+  artist?: string;
+  count: number;
+  listened: number;
+}
+
+export interface ArtistStat {
+  artist: string;
+  count: number;
+  listened: number;
+}
+
+/** Seconds listened in one day or week, starting at `start` (local midnight). */
+export interface PeriodStat {
+  start: number;
+  listened: number;
+}
+
+export interface ListeningStats {
+  playCount: number;
+  /** Seconds */
+  totalListened: number;
+  /** Share of plays left before the end, 0-1 */
+  skipRate: number;
+  /** Distinct tracks played */
+  trackCount: number;
+  topTracks: TrackStat[];
+  topArtists: ArtistStat[];
+  /** Oldest first, ending with today / this week */
+  days: PeriodStat[];
+  weeks: PeriodStat[];
+  /** Newest first */
+  recent: PlayRecord[];
+}
+
+const TOP_COUNT = 10;
+const RECENT_COUNT = 20;
+const DAY_COUNT = 14;
+const WEEK_COUNT = 12;
+
+/** How often each track was played, by track id. */
+export const countPlays = (plays: PlayRecord[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const play of plays) counts.set(play.trackId, (counts.get(play.trackId) ?? 0) + 1);
+  return counts;
+};
+
+/** When each track was last played (ms since epoch), by track id. */
+export const lastPlayedAt = (plays: PlayRecord[]): Map<string, number> => {
+  const last = new Map<string, number>();
+  for (const play of plays) last.set(play.trackId, Math.max(last.get(play.trackId) ?? 0, play.startedAt));
+  return last;
+};
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (time: number) => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+// Calendar arithmetic rather than fixed milliseconds, so DST changes don't shift buckets
+const shiftDays = (time: number, days: number) => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+const buildPeriods = (plays: PlayRecord[], count: number, days: number, startOf: (time: number) => number, now: number) => {
+  const periods: PeriodStat[] = [];
+  const current = startOf(now);
+  for (let i = count - 1; i >= 0; i--) periods.push({ start: shiftDays(current, -i * days), listened: 0 });
+  const byStart = new Map(periods.map(period => [period.start, period]));
+  for (const play of plays) {
+    const period = byStart.get(startOf(play.startedAt));
+    if (period) period.listened += play.listened;
+  }
+  return periods;
+};
+
+/**
+ * Summarises the history. Titles come from the library when the track is
+ * still there (tags may have been fixed since), otherwise from the log.
+ */
+export const computeStats = (plays: PlayRecord[], tracksById: Map<string, Track>, now = Date.now()): ListeningStats => {
+  const tracks = new Map<string, TrackStat>();
+  const artists = new Map<string, ArtistStat>();
+  let totalListened = 0;
+  let skipped = 0;
+
+  for (const play of plays) {
+    totalListened += play.listened;
+    if (!play.completed) skipped++;
+
+    const track = tracksById.get(play.trackId);
+    const artist = track ? track.artist : play.artist;
+    const trackStat = tracks.get(play.trackId) ?? {
+      trackId: play.trackId,
+      title: track ? getTrackTitle(track) : play.title,
+      artist,
+      count: 0,
+      listened: 0,
+    };
+    trackStat.count++;
+    trackStat.listened += play.listened;
+    tracks.set(play.trackId, trackStat);
+
+    if (artist) {
+      const artistStat = artists.get(artist) ?? { artist, count: 0, listened: 0 };
+      artistStat.count++;
+      artistStat.listened += play.listened;
+      artists.set(artist, artistStat);
+    }
+  }
+
+  const byCount = <T extends { count: number; listened: number }>(a: T, b: T) => b.count - a.count || b.listened - a.listened;
+
+  return {
+    playCount: plays.length,
+    totalListened,
+    skipRate: plays.length > 0 ? skipped / plays.length : 0,
+    trackCount: tracks.size,
+    topTracks: [...tracks.values()].sort(byCount).slice(0, TOP_COUNT),
+    topArtists: [...artists.values()].sort(byCount).slice(0, TOP_COUNT),
+    days: buildPeriods(plays, DAY_COUNT, 1, startOfDay, now),
+    weeks: buildPeriods(plays, WEEK_COUNT, 7, startOfWeek, now),
+    recent: plays.slice(-RECENT_COUNT).reverse(),
+  };
+};
+
+// --- Export ---
+
+export type HistoryFormat = 'json' | 'csv';
+
+const CSV_COLUMNS: (keyof PlayRecord)[] = ['trackId', 'title', 'artist', 'startedAt', 'listened', 'completed'];
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** The history as JSON or CSV, with ISO timestamps. */
+export const serializeHistory = (format: HistoryFormat, plays: PlayRecord[]): string => {
+  const rows = plays.map(play => ({ ...play, startedAt: new Date(play.startedAt).toISOString() }));
+  if (format === 'json') return JSON.stringify(rows, null, 2);
+  const lines = rows.map(row => CSV_COLUMNS.map(column => csvField(String(row[column] ?? ''))).join(','));
+  // BOM so spreadsheet apps read the Chinese titles as UTF-8
+  return `\ufeff${[CSV_COLUMNS.join(','), ...lines].join('\r\n')}\r\n`;
+};
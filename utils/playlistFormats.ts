@@ -0,0 +1,240 @@
+// Reading and writing the common playlist file formats. Locations are written
+// as bare file names: the browser never sees real paths, and a name is what
+// other players (and our own importer) can match against a music folder.
+
+import { Track } from '../types';
+import { getTrackTitle } from './trackInfo';
+
+export type PlaylistFormat = 'm3u8' | 'pls' | 'xspf';
+
+export interface PlaylistEntry {
+  location: string;
+  title?: string;
+  artist?: string;
+  /** Seconds */
+  duration?: number;
+}
+
+export interface ParsedPlaylist {
+  name?: string;
+  entries: PlaylistEntry[];
+}
+
+export const PLAYLIST_EXTENSION = /\.(m3u8?|pls|xspf)$/i;
+
+/** For `<input accept>` */
+export const PLAYLIST_ACCEPT = '.m3u,.m3u8,.pls,.xspf';
+
+export const PLAYLIST_FORMATS: { format: PlaylistFormat; label: string; mime: string }[] = [
+  { format: 'm3u8', label: 'M3U8', mime: 'audio/x-mpegurl' },
+  { format: 'pls', label: 'PLS', mime: 'audio/x-scpls' },
+  { format: 'xspf', label: 'XSPF', mime: 'application/xspf+xml' },
+];
+
+// --- Export -------------------------------------------------------------------
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char] as string);
+
+// M3U and PLS are line based; a stray newline in a tag would break the file
+const oneLine = (text: string) => text.replace(/[\r\n]+/g, ' ');
+
+const displayName = (track: Track) => (track.artist ? `${track.artist} - ${getTrackTitle(track)}` : getTrackTitle(track));
+
+// -1 is the conventional "unknown length" in both M3U and PLS
+const lengthOf = (track: Track) => (track.duration ? Math.round(track.duration) : -1);
+
+const toM3u8 = (name: string, tracks: Track[]) =>
+  [
+    '#EXTM3U',
+    `#PLAYLIST:${oneLine(name)}`,
+    ...tracks.flatMap(track => [`#EXTINF:${lengthOf(track)},${oneLine(displayName(track))}`, track.file.name]),
+  ].join('\n') + '\n';
+
+const toPls = (tracks: Track[]) =>
+  [
+    '[playlist]',
+    ...tracks.flatMap((track, i) => [
+      `File${i + 1}=${track.file.name}`,
+      `Title${i + 1}=${oneLine(displayName(track))}`,
+      `Length${i + 1}=${lengthOf(track)}`,
+    ]),
+    `NumberOfEntries=${tracks.length}`,
+    'Version=2',
+  ].join('\n') + '\n';
+
+const toXspf = (name: string, tracks: Track[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(name)}</title>`,
+    '  <trackList>',
+    ...tracks.map(track =>
+      [
+        '    <track>',
+        `      <location>${escapeXml(encodeURIComponent(track.file.name))}</location>`,
+        `      <title>${escapeXml(getTrackTitle(track))}</title>`,
+        track.artist ? `      <creator>${escapeXml(track.artist)}</creator>` : null,
+        track.album ? `      <album>${escapeXml(track.album)}</album>` : null,
+        track.duration ? `      <duration>${Math.round(track.duration * 1000)}</duration>` : null,
+        '    </track>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    ),
+    '  </trackList>',
+    '</playlist>',
+  ].join('\n') + '\n';
+
+export const serializePlaylist = (format: PlaylistFormat, name: string, tracks: Track[]): string => {
+  switch (format) {
+    case 'm3u8':
+      return toM3u8(name, tracks);
+    case 'pls':
+      return toPls(tracks);
+    case 'xspf':
+      return toXspf(name, tracks);
+  }
+};
+
+// --- Import -------------------------------------------------------------------
+
+// The inverse of displayName: "Artist - Title" or just "Title"
+const splitDisplayName = (display: string): Pick<PlaylistEntry, 'artist' | 'title'> => {
+  const separator = display.indexOf(' - ');
+  return {
+    artist: separator > 0 ? display.slice(0, separator) : undefined,
+    title: (separator > 0 ? display.slice(separator + 3) : display) || undefined,
+  };
+};
+
+const parseM3u = (text: string): ParsedPlaylist => {
+  const entries: PlaylistEntry[] = [];
+  let name: string | undefined;
+  let info: Omit<PlaylistEntry, 'location'> = {};
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXTINF:')) {
+      // #EXTINF:123,Artist - Title (attributes such as tvg-id may sit before the comma)
+      const body = line.slice(8);
+      const comma = body.indexOf(',');
+      const duration = parseFloat(body);
+      info = {
+        duration: duration > 0 ? duration : undefined,
+        ...splitDisplayName(comma >= 0 ? body.slice(comma + 1).trim() : ''),
+      };
+    } else if (line.startsWith('#PLAYLIST:')) {
+      name = line.slice(10).trim() || undefined;
+    } else if (!line.startsWith('#')) {
+      entries.push({ location: line, ...info });
+      info = {};
+    }
+  }
+  return { name, entries };
+};
+
+const parsePls = (text: string): ParsedPlaylist => {
+  const fields = new Map<string, string>();
+  for (const raw of text.split(/\r?\n/)) {
+    const match = raw.trim().match(/^(File|Title|Length)(\d+)=(.*)$/i);
+    if (match) fields.set(`${match[1].toLowerCase()}${match[2]}`, match[3].trim());
+  }
+
+  const indexes = [...fields.keys()]
+    .filter(key => key.startsWith('file'))
+    .map(key => Number(key.slice(4)))
+    .sort((a, b) => a - b);
+  return {
+    entries: indexes.map(i => {
+      const length = Number(fields.get(`length${i}`));
+      return {
+        location: fields.get(`file${i}`) as string,
+        ...splitDisplayName(fields.get(`title${i}`) ?? ''),
+        duration: length > 0 ? length : undefined,
+      };
+    }),
+  };
+};
+
+const parseXspf = (text: string): ParsedPlaylist => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error('Invalid XSPF');
+  // Direct children only, so <track><title> doesn't shadow the playlist title
+  const childText = (parent: Element, tag: string) =>
+    Array.from(parent.children).find(child => child.localName === tag)?.textContent?.trim() || undefined;
+
+  const playlist = doc.documentElement;
+  const trackList = Array.from(playlist.children).find(child => child.localName === 'trackList');
+  const tracks = trackList ? Array.from(trackList.children).filter(child => child.localName === 'track') : [];
+  return {
+    name: childText(playlist, 'title'),
+    entries: tracks.flatMap(track => {
+      const location = childText(track, 'location');
+      if (!location) return [];
+      const duration = Number(childText(track, 'duration'));
+      return [{
+        location,
+        title: childText(track, 'title'),
+        artist: childText(track, 'creator'),
+        duration: duration > 0 ? duration / 1000 : undefined,
+      }];
+    }),
+  };
+};
+
+/** Parses M3U/M3U8, PLS or XSPF, picked by content with the file name as a hint. Throws on unreadable XML. */
+export const parsePlaylistFile = (text: string, fileName: string): ParsedPlaylist => {
+  const content = text.replace(/^\uFEFF/, '').trimStart();
+  if (/\.xspf$/i.test(fileName) || content.startsWith('<')) return parseXspf(content);
+  if (/\.pls$/i.test(fileName) || /^\[playlist\]/i.test(content)) return parsePls(content);
+  return parseM3u(content);
+};
+
+// --- Resolution -----------------------------------------------------------------
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// "file:///C:/Music/A%20B.mp3", "..\\Music\\A B.mp3" -> "a b.mp3"
+const locationFileName = (location: string): string => {
+  let path = location;
+  try {
+    path = decodeURIComponent(location.replace(/^file:\/\//i, ''));
+  } catch {
+    // Not percent-encoded after all
+  }
+  return normalize(path.split(/[\\/]/).pop() ?? path);
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^/.]+$/, '');
+
+/**
+ * Matches playlist entries to tracks: by file name first, then by file name
+ * without extension (the file was transcoded), then by title and artist.
+ * Tracks earlier in `candidates` win ties, so pass the preferred ones first.
+ */
+export const resolveEntries = (entries: PlaylistEntry[], candidates: Track[]) => {
+  const byFileName = new Map<string, Track>();
+  const byBaseName = new Map<string, Track>();
+  const byTitle = new Map<string, Track>();
+  for (const track of [...candidates].reverse()) {
+    byFileName.set(normalize(track.file.name), track);
+    byBaseName.set(normalize(track.name), track);
+    byTitle.set(`${normalize(getTrackTitle(track))}\0${normalize(track.artist ?? '')}`, track);
+    byTitle.set(`${normalize(getTrackTitle(track))}\0`, track);
+  }
+
+  const trackIds: string[] = [];
+  const unresolved: PlaylistEntry[] = [];
+  for (const entry of entries) {
+    const fileName = locationFileName(entry.location);
+    const track =
+      byFileName.get(fileName) ??
+      byBaseName.get(stripExtension(fileName)) ??
+      (entry.title ? byTitle.get(`${normalize(entry.title)}\0${normalize(entry.artist ?? '')}`) : undefined);
+    if (track) trackIds.push(track.id);
+    else unresolved.push(entry);
+  }
+  return { trackIds, unresolved };
+};
@@ -0,0 +1,50 @@
+import { Track, Playlist } from '../types';
+import { Translate } from '../i18n';
+
+/** Pseudo list id for "all tracks in the library". */
+export const LIBRARY_ID = 'library';
+
+export const createPlaylist = (name: string, trackIds: string[] = []): Playlist => ({
+  id: crypto.randomUUID(),
+  name,
+  trackIds,
+  createdAt: Date.now(),
+});
+
+/** "名字 副本", "名字 副本 2", ... whichever is not taken yet. */
+export const getCopyName = (name: string, playlists: Playlist[], t: Translate): string => {
+  const taken = new Set(playlists.map(playlist => playlist.name));
+  let candidate = t('playlist.copyName', { name });
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = t('playlist.copyNameNumbered', { name, number: n });
+  }
+  return candidate;
+};
+
+/**
+ * Tracks of the library or of a playlist, in list order. Unknown playlist ids
+ * fall back to the library so a deleted list never leaves the UI empty.
+ */
+export const getListTracks = (
+  listId: string,
+  library: Track[],
+  playlists: Playlist[],
+  tracksById: Map<string, Track>
+): Track[] => {
+  const playlist = listId === LIBRARY_ID ? undefined : playlists.find(p => p.id === listId);
+  if (!playlist) return library;
+  return playlist.trackIds
+    .map(id => tracksById.get(id))
+    .filter((track): track is Track => track !== undefined);
+};
+
+/**
+ * Moves `ids` (kept in their current relative order) so they start at
+ * `insertIndex`, an insertion point counted in the original `order`.
+ */
+export const moveIds = (order: string[], ids: string[], insertIndex: number): string[] => {
+  const moving = new Set(ids);
+  const before = order.slice(0, insertIndex).filter(id => !moving.has(id));
+  const after = order.slice(insertIndex).filter(id => !moving.has(id));
+  return [...before, ...order.filter(id => moving.has(id)), ...after];
+};
@@ -0,0 +1,69 @@
+import { Track, ReplayGainMode } from '../types';
+
+/** ReplayGain 2.0 reference loudness: a gain of 0 dB means the track measures this. */
+export const REFERENCE_LUFS = -18;
+export const PRE_AMP_RANGE = 12;
+
+interface AlbumGain {
+  gain: number;
+  peak?: number;
+}
+
+const getAlbumKey = (track: Track): string | null =>
+  track.album ? `${(track.albumArtist ?? track.artist ?? '').toLowerCase()}\0${track.album.toLowerCase()}` : null;
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Album gains for albums without ReplayGain album tags, derived from the
+ * per-track measurements: loudness is averaged in the energy domain and
+ * weighted by duration, which approximates measuring the album as one file.
+ */
+export const computeAlbumGains = (tracks: Track[]): Map<string, AlbumGain> => {
+  const sums = new Map<string, { energy: number; weight: number; peak?: number }>();
+  for (const track of tracks) {
+    const key = getAlbumKey(track);
+    const loudness = track.loudness;
+    if (!key || !loudness) continue;
+    const weight = loudness.duration ?? 1;
+    const lufs = REFERENCE_LUFS - loudness.trackGain;
+    const sum = sums.get(key) ?? { energy: 0, weight: 0 };
+    sum.energy += weight * Math.pow(10, lufs / 10);
+    sum.weight += weight;
+    if (loudness.trackPeak !== undefined) sum.peak = Math.max(sum.peak ?? 0, loudness.trackPeak);
+    sums.set(key, sum);
+  }
+
+  const gains = new Map<string, AlbumGain>();
+  sums.forEach(({ energy, weight, peak }, key) => {
+    gains.set(key, { gain: REFERENCE_LUFS - 10 * Math.log10(energy / weight), peak });
+  });
+  return gains;
+};
+
+/**
+ * Linear gain to apply to `track`. Album mode falls back to the track gain
+ * for singles; tracks without any loudness data play unchanged. The result
+ * is capped so the known peak never exceeds full scale.
+ */
+export const getReplayGain = (track: Track, mode: ReplayGainMode, preAmp: number, albumGains: Map<string, AlbumGain>): number => {
+  const loudness = track.loudness;
+  if (mode === 'off' || !loudness) return 1;
+
+  let db = loudness.trackGain;
+  let peak = loudness.trackPeak;
+  if (mode === 'album') {
+    const key = getAlbumKey(track);
+    const derived = key ? albumGains.get(key) : undefined;
+    if (loudness.albumGain !== undefined) {
+      db = loudness.albumGain;
+      peak = loudness.albumPeak ?? peak;
+    } else if (derived) {
+      db = derived.gain;
+      peak = derived.peak ?? peak;
+    }
+  }
+
+  const gain = dbToLinear(db + preAmp);
+  return peak && gain * peak > 1 ? 1 / peak : gain;
+};
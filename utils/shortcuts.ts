@@ -0,0 +1,114 @@
+// Key combos are stored as strings such as "Space", "Shift+ArrowRight" or
+// "Ctrl+K". Ctrl and ⌘ are treated as the same modifier so one binding
+// works on every platform.
+
+import { MessageKey, Translate } from '../i18n';
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'next'
+  | 'previous'
+  | 'mute'
+  | 'shuffle'
+  | 'repeat'
+  | 'toggleLyrics'
+  | 'toggleQueue'
+  | 'loopStart'
+  | 'loopEnd'
+  | 'clearLoop'
+  | 'commandPalette'
+  | 'showShortcuts';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+/** Every action in display order, with the label used in the overlay and palette. */
+export const SHORTCUT_ACTIONS: { id: ShortcutAction; labelKey: MessageKey }[] = [
+  { id: 'togglePlay', labelKey: 'shortcut.togglePlay' },
+  { id: 'seekBackward', labelKey: 'shortcut.seekBackward' },
+  { id: 'seekForward', labelKey: 'shortcut.seekForward' },
+  { id: 'volumeUp', labelKey: 'shortcut.volumeUp' },
+  { id: 'volumeDown', labelKey: 'shortcut.volumeDown' },
+  { id: 'next', labelKey: 'shortcut.next' },
+  { id: 'previous', labelKey: 'shortcut.previous' },
+  { id: 'mute', labelKey: 'shortcut.mute' },
+  { id: 'shuffle', labelKey: 'shortcut.shuffle' },
+  { id: 'repeat', labelKey: 'shortcut.repeat' },
+  { id: 'toggleLyrics', labelKey: 'shortcut.toggleLyrics' },
+  { id: 'toggleQueue', labelKey: 'shortcut.toggleQueue' },
+  { id: 'loopStart', labelKey: 'shortcut.loopStart' },
+  { id: 'loopEnd', labelKey: 'shortcut.loopEnd' },
+  { id: 'clearLoop', labelKey: 'shortcut.clearLoop' },
+  { id: 'commandPalette', labelKey: 'shortcut.commandPalette' },
+  { id: 'showShortcuts', labelKey: 'shortcut.showShortcuts' },
+];
+
+export const DEFAULT_BINDINGS: ShortcutBindings = {
+  togglePlay: 'Space',
+  seekBackward: 'ArrowLeft',
+  seekForward: 'ArrowRight',
+  volumeUp: 'ArrowUp',
+  volumeDown: 'ArrowDown',
+  next: 'N',
+  previous: 'P',
+  mute: 'M',
+  shuffle: 'S',
+  repeat: 'R',
+  toggleLyrics: 'L',
+  toggleQueue: 'Q',
+  loopStart: '[',
+  loopEnd: ']',
+  clearLoop: '\\',
+  commandPalette: 'Ctrl+K',
+  showShortcuts: '?',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta']);
+
+/** The combo a keydown stands for, or null for a bare modifier press. */
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const isCharacter = e.key.length === 1 && e.key !== ' ';
+  const key = e.key === ' ' ? 'Space' : isCharacter ? e.key.toUpperCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  // Shift is already part of a typed character ("?" rather than "Shift+/")
+  if (e.shiftKey && !isCharacter) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+// Keys shown as symbols, the same in every language
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+const KEY_NAMES: Record<string, MessageKey> = {
+  Space: 'key.space',
+};
+
+export const formatCombo = (combo: string, t: Translate): string =>
+  combo
+    .split('+')
+    .map(part => (KEY_NAMES[part] ? t(KEY_NAMES[part]) : KEY_SYMBOLS[part] ?? part))
+    .join(' + ');
+
+/**
+ * Keys typed into a text field belong to the field. Space and Enter on a
+ * focused button already activate it, so handling them again would act twice.
+ */
+export const isEditableTarget = (target: EventTarget | null, combo: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) return !['button', 'checkbox', 'radio', 'submit', 'reset'].includes(target.type);
+  if (combo === 'Space' || combo === 'Enter') return target.closest('button, a, [role="button"]') !== null;
+  return false;
+};
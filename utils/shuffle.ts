@@ -0,0 +1,76 @@
+/** Fisher-Yates: every permutation is equally likely. */
+export const shuffle = <T>(items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * A new shuffle cycle over `ids`. The track that is already playing leads, so
+ * the rest of the cycle covers every other track exactly once.
+ */
+export const createShuffleOrder = (ids: string[], firstId?: string | null): string[] => {
+  const rest = shuffle(ids.filter(id => id !== firstId));
+  return firstId && ids.includes(firstId) ? [firstId, ...rest] : rest;
+};
+
+/**
+ * The cycle that follows a finished one. Its first track is never the one that
+ * just ended, so wrapping around can't play the same song twice in a row.
+ */
+export const createNextCycle = (ids: string[], lastId: string | null): string[] => {
+  const order = shuffle(ids);
+  if (order.length > 1 && order[0] === lastId) {
+    const swap = 1 + Math.floor(Math.random() * (order.length - 1));
+    [order[0], order[swap]] = [order[swap], order[0]];
+  }
+  return order;
+};
+
+/**
+ * Keeps a running cycle valid after the list changed: removed tracks are
+ * dropped and new ones are spread at random over the part of the cycle that
+ * has not played yet (everything after `cursorId`).
+ */
+export const reconcileShuffleOrder = (order: string[], ids: string[], cursorId: string | null): string[] => {
+  const present = new Set(ids);
+  const cursorPosition = cursorId ? order.indexOf(cursorId) : -1;
+  const kept = order.filter(id => present.has(id));
+  const known = new Set(kept);
+  const added = ids.filter(id => !known.has(id));
+  if (added.length === 0 && kept.length === order.length) return order;
+
+  // Entries up to and including the cursor have been played this cycle
+  const played = order.slice(0, cursorPosition + 1).filter(id => present.has(id)).length;
+  const result = [...kept];
+  for (const id of added) {
+    const index = played + Math.floor(Math.random() * (result.length - played + 1));
+    result.splice(index, 0, id);
+  }
+  return result;
+};
+
+// Candidates weighed for each next track: more is smoother but less random
+const SMOOTH_LOOKAHEAD = 4;
+
+/**
+ * Reorders a shuffled cycle so consecutive tracks go well together: each next
+ * track is the closest (by `distance`) of the next few in the random order.
+ * The first track stays first.
+ */
+export const smoothOrder = (order: string[], distance: (fromId: string, toId: string) => number): string[] => {
+  const rest = order.slice(1);
+  const result = order.slice(0, 1);
+  while (rest.length > 0) {
+    const last = result[result.length - 1];
+    let best = 0;
+    for (let i = 1; i < Math.min(SMOOTH_LOOKAHEAD, rest.length); i++) {
+      if (distance(last, rest[i]) < distance(last, rest[best])) best = i;
+    }
+    result.push(...rest.splice(best, 1));
+  }
+  return result;
+};
@@ -0,0 +1,47 @@
+import { Track, SmartRules } from '../types';
+import { Translate } from '../i18n';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SMART_RULES: SmartRules = {
+  genre: '',
+  maxMinutes: null,
+  notPlayedDays: 30,
+};
+
+/** Genres in the library, most common first. */
+export const getGenres = (tracks: Track[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const track of tracks) {
+    const genre = track.genre?.trim();
+    if (genre) counts.set(genre, (counts.get(genre) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([genre]) => genre);
+};
+
+/**
+ * Tracks passing every rule that is set, in library order. Tracks whose
+ * length is not known yet never pass a duration rule.
+ */
+export const applySmartRules = (
+  tracks: Track[],
+  rules: SmartRules,
+  lastPlayed: Map<string, number>,
+  now = Date.now()
+): Track[] =>
+  tracks.filter(track => {
+    if (rules.genre && track.genre?.trim() !== rules.genre) return false;
+    if (rules.maxMinutes !== null && !(track.duration !== undefined && track.duration < rules.maxMinutes * 60)) return false;
+    if (rules.notPlayedDays !== null && (lastPlayed.get(track.id) ?? 0) > now - rules.notPlayedDays * DAY) return false;
+    return true;
+  });
+
+/** Default name for a rule-based playlist, e.g. "摇滚 · 5 分钟以内 · 30 天未听". */
+export const describeSmartRules = (rules: SmartRules, t: Translate): string =>
+  [
+    rules.genre,
+    rules.maxMinutes !== null && t('smart.ruleMaxMinutes', { count: rules.maxMinutes }),
+    rules.notPlayedDays !== null && t('smart.ruleNotPlayed', { count: rules.notPlayedDays }),
+  ]
+    .filter(Boolean)
+    .join(' · ') || t('smart.ruleAll');
@@ -0,0 +1,27 @@
+const PREFIX = 'vinyl-vibe:';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Small settings live in localStorage so they are available synchronously on
+// first render; audio data goes through services/libraryDb instead.
+export const loadSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    if (raw === null) return fallback;
+    const parsed = JSON.parse(raw);
+    // Merge objects over the fallback so settings saved by an older version
+    // still pick up fields added since.
+    return isPlainObject(fallback) && isPlainObject(parsed) ? { ...fallback, ...parsed } : parsed;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSetting = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save setting "${key}":`, err);
+  }
+};
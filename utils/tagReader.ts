@@ -0,0 +1,749 @@
+// Minimal readers for the tag formats we meet in local music libraries:
+// ID3v2.2-2.4 (MP3), Vorbis comments (FLAC, Ogg Vorbis, Opus) and iTunes
+// ilst atoms (M4A/MP4). Every format is normalised to Vorbis-style keys
+// (TITLE, ARTIST, ...) before being mapped onto TrackTags. Chapters come
+// from ID3 CHAP frames, CHAPTERnnn comments, cue sheets and Nero chpl atoms.
+
+import { TrackLoudness, Chapter } from '../types';
+import { formatLrcTime } from './lrc';
+
+export interface TrackTags {
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  trackNumber?: number;
+  year?: number;
+  genre?: string;
+  picture?: Blob;
+  loudness?: TrackLoudness;
+  /** LRC or plain text */
+  lyrics?: string;
+  chapters?: Chapter[];
+}
+
+interface Picture {
+  type: number;
+  blob: Blob;
+}
+
+interface TagCollector {
+  tags: TrackTags;
+  pictures: Picture[];
+  // Gains arrive one field at a time; only a track gain makes them usable
+  gain: Partial<Omit<TrackLoudness, 'source'>>;
+  // SYLT converted to LRC; preferred over unsynced lyrics
+  syncedLyrics?: string;
+  // Keyed by source so CHAPTERnnn and CHAPTERnnnNAME land on the same entry
+  chapters: Map<string, Partial<Chapter>>;
+}
+
+// Front cover in both the ID3 APIC and FLAC PICTURE type tables
+const FRONT_COVER = 3;
+// Guard against reading whole files when a container is malformed
+const MAX_TAG_BYTES = 16 * 1024 * 1024;
+
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+  'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebob', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+  'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening', 'Acoustic',
+  'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove',
+  'Satire', 'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+  'Duet', 'Punk Rock', 'Drum Solo', 'A capella', 'Euro-House', 'Dance Hall',
+];
+
+// --- Byte helpers ---------------------------------------------------------
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const uint32BE = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+const uint32LE = (b: Uint8Array, o: number) => ((b[o + 3] << 24) | (b[o + 2] << 16) | (b[o + 1] << 8) | b[o]) >>> 0;
+const uint24BE = (b: Uint8Array, o: number) => (b[o] << 16) | (b[o + 1] << 8) | b[o + 2];
+const syncsafe = (b: Uint8Array, o: number) => (b[o] << 21) | (b[o + 1] << 14) | (b[o + 2] << 7) | b[o + 3];
+
+const utf8 = new TextDecoder('utf-8');
+
+const stripNulls = (text: string) => text.replace(/\0+$/, '').trim();
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// --- Normalised key -> TrackTags ------------------------------------------
+
+const parseGenre = (value: string): string => {
+  // ID3 allows "(17)", "(17)Rock" and bare "17" references into the v1 table
+  const ref = value.match(/^\((\d+)\)(.*)$/);
+  if (ref) return ref[2].trim() || ID3V1_GENRES[Number(ref[1])] || value;
+  if (/^\d+$/.test(value)) return ID3V1_GENRES[Number(value)] || value;
+  return value;
+};
+
+// "-6.54 dB" -> -6.54, "0.988" -> 0.988
+const parseNumber = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return isFinite(number) ? number : undefined;
+};
+
+// Opus R128 gains are Q7.8 integers relative to -23 LUFS; ReplayGain uses -18
+const parseR128 = (value: string): number | undefined => {
+  const q78 = parseInt(value, 10);
+  return isNaN(q78) ? undefined : q78 / 256 + 5;
+};
+
+// "01:02:03.500" or "02:03.5" -> seconds
+const parseClockTime = (value: string): number | undefined => {
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length < 2 || parts.some(isNaN)) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const CD_FRAMES_PER_SECOND = 75;
+
+// Text cue sheet (CUESHEET comment): one chapter per TRACK at its INDEX 01
+const parseCueSheet = (collector: TagCollector, text: string) => {
+  let track: string | null = null;
+  let title: string | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    const command = line.trim().match(/^(\w+)\s+(.*)$/);
+    if (!command) continue;
+    const [, name, args] = command;
+    if (name === 'TRACK') {
+      track = args.split(/\s+/)[0];
+      title = undefined;
+    } else if (name === 'TITLE' && track) {
+      title = args.replace(/^"(.*)"$/, '$1');
+    } else if (name === 'INDEX' && track) {
+      const index = args.match(/^01\s+(\d+):(\d+):(\d+)/);
+      if (index) {
+        const time = Number(index[1]) * 60 + Number(index[2]) + Number(index[3]) / CD_FRAMES_PER_SECOND;
+        collector.chapters.set(`cue:${track}`, { time, title });
+      }
+    }
+  }
+};
+
+const assignField = (collector: TagCollector, key: string, rawValue: string) => {
+  const { tags, gain } = collector;
+  const value = stripNulls(rawValue);
+  if (!value) return;
+
+  const chapter = key.match(/^CHAPTER(\d+)(NAME)?$/);
+  if (chapter) {
+    const entry = collector.chapters.get(`vorbis:${chapter[1]}`) ?? {};
+    if (chapter[2]) entry.title = value;
+    else entry.time = parseClockTime(value);
+    collector.chapters.set(`vorbis:${chapter[1]}`, entry);
+    return;
+  }
+
+  switch (key) {
+    case 'TITLE':
+      tags.title ??= value;
+      break;
+    case 'ARTIST':
+      tags.artist ??= value;
+      break;
+    case 'ALBUMARTIST':
+      tags.albumArtist ??= value;
+      // Only a fallback: the track artist is what people expect to see
+      tags.artist ??= value;
+      break;
+    case 'ALBUM':
+      tags.album ??= value;
+      break;
+    case 'TRACKNUMBER': {
+      const track = parseInt(value, 10);
+      if (!isNaN(track)) tags.trackNumber ??= track;
+      break;
+    }
+    case 'DATE':
+    case 'YEAR': {
+      const year = value.match(/\d{4}/);
+      if (year) tags.year ??= Number(year[0]);
+      break;
+    }
+    case 'GENRE':
+      tags.genre ??= parseGenre(value);
+      break;
+    case 'CUESHEET':
+      parseCueSheet(collector, value);
+      break;
+    case 'LYRICS':
+    case 'UNSYNCEDLYRICS':
+      tags.lyrics ??= value;
+      break;
+    case 'REPLAYGAIN_TRACK_GAIN':
+      gain.trackGain ??= parseNumber(value);
+      break;
+    case 'REPLAYGAIN_TRACK_PEAK':
+      gain.trackPeak ??= parseNumber(value);
+      break;
+    case 'REPLAYGAIN_ALBUM_GAIN':
+      gain.albumGain ??= parseNumber(value);
+      break;
+    case 'REPLAYGAIN_ALBUM_PEAK':
+      gain.albumPeak ??= parseNumber(value);
+      break;
+    case 'R128_TRACK_GAIN':
+      gain.trackGain ??= parseR128(value);
+      break;
+    case 'R128_ALBUM_GAIN':
+      gain.albumGain ??= parseR128(value);
+      break;
+  }
+};
+
+// FLAC METADATA_BLOCK_PICTURE layout, shared by native FLAC and Vorbis comments
+const parseFlacPicture = (bytes: Uint8Array): Picture | null => {
+  if (bytes.length < 32) return null;
+  let offset = 0;
+  const type = uint32BE(bytes, offset);
+  const mimeLength = uint32BE(bytes, offset + 4);
+  const mime = ascii(bytes, offset + 8, mimeLength);
+  offset += 8 + mimeLength;
+  const descriptionLength = uint32BE(bytes, offset);
+  // Skip description, width, height, depth and colour count
+  offset += 4 + descriptionLength + 16;
+  const dataLength = uint32BE(bytes, offset);
+  offset += 4;
+  if (offset + dataLength > bytes.length) return null;
+  return { type, blob: new Blob([bytes.slice(offset, offset + dataLength)], { type: mime || 'image/jpeg' }) };
+};
+
+// --- ID3v2 ----------------------------------------------------------------
+
+// ID3v2.2 uses three-letter frame ids; map the ones we read onto v2.3 names
+const ID3V22_FRAMES: Record<string, string> = {
+  TT2: 'TIT2', TP1: 'TPE1', TP2: 'TPE2', TAL: 'TALB', TRK: 'TRCK', TYE: 'TYER', TCO: 'TCON', TXX: 'TXXX', PIC: 'APIC',
+  ULT: 'USLT', SLT: 'SYLT',
+};
+
+const ID3_TEXT_FRAMES: Record<string, string> = {
+  TIT2: 'TITLE', TPE1: 'ARTIST', TPE2: 'ALBUMARTIST', TALB: 'ALBUM', TRCK: 'TRACKNUMBER',
+  TYER: 'DATE', TDRC: 'DATE', TCON: 'GENRE',
+};
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number): string => {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with BOM; default to little endian when the BOM is missing
+      if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+      if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+      return new TextDecoder('utf-16le').decode(bytes);
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(bytes);
+    case 3:
+      return utf8.decode(bytes);
+    default:
+      return new TextDecoder('iso-8859-1').decode(bytes);
+  }
+};
+
+// Returns the index of the null terminator of a string that starts at
+// `offset`, honouring the two-byte terminator of the UTF-16 encodings.
+const findTerminator = (bytes: Uint8Array, offset: number, encoding: number): number => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+};
+
+const removeUnsynchronisation = (bytes: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+};
+
+const parseId3Picture = (body: Uint8Array, isV22: boolean): Picture | null => {
+  const encoding = body[0];
+  let offset = 1;
+  let mime: string;
+  if (isV22) {
+    const format = ascii(body, 1, 3).toUpperCase();
+    mime = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const mimeEnd = findTerminator(body, offset, 0);
+    mime = ascii(body, offset, mimeEnd - offset) || 'image/jpeg';
+    if (!mime.includes('/')) mime = `image/${mime.toLowerCase()}`;
+    offset = mimeEnd + 1;
+  }
+  const type = body[offset];
+  const descriptionEnd = findTerminator(body, offset + 1, encoding);
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= body.length) return null;
+  return { type, blob: new Blob([body.slice(offset)], { type: mime }) };
+};
+
+const terminatorLength = (encoding: number) => (encoding === 1 || encoding === 2 ? 2 : 1);
+
+// USLT: encoding, language, content descriptor, then the lyrics text
+const parseId3Lyrics = (body: Uint8Array): string => {
+  const encoding = body[0];
+  const descriptorEnd = findTerminator(body, 4, encoding);
+  return decodeId3Text(body.subarray(descriptorEnd + terminatorLength(encoding)), encoding);
+};
+
+// SYLT: encoding, language, timestamp format, content type, descriptor, then
+// (text, 32-bit timestamp) pairs. Taggers either store one entry per line or
+// one per syllable with a leading newline marking each new line; syllables
+// become enhanced-LRC word timings. Only millisecond timestamps are
+// supported; MPEG frame counts are skipped.
+const parseId3SyncedLyrics = (body: Uint8Array): string | undefined => {
+  const encoding = body[0];
+  if (body[4] !== 2) return undefined;
+  const terminator = terminatorLength(encoding);
+  let offset = findTerminator(body, 6, encoding) + terminator;
+
+  const entries: { text: string; time: string }[] = [];
+  while (offset < body.length) {
+    const textEnd = findTerminator(body, offset, encoding);
+    if (textEnd + terminator + 4 > body.length) break;
+    entries.push({
+      text: decodeId3Text(body.subarray(offset, textEnd), encoding),
+      time: formatLrcTime(uint32BE(body, textEnd + terminator) / 1000),
+    });
+    offset = textEnd + terminator + 4;
+  }
+
+  const isSyllabic = entries.some((entry, i) => i > 0 && /^[\r\n]/.test(entry.text));
+  const lines: string[] = [];
+  entries.forEach(({ text, time }, i) => {
+    if (!isSyllabic || i === 0 || /^[\r\n]/.test(text)) {
+      lines.push(`[${time}]${text.replace(/^[\r\n]+/, '')}`);
+    } else {
+      lines[lines.length - 1] += `<${time}>${text}`;
+    }
+  });
+  return lines.length > 0 ? lines.join('\n') : undefined;
+};
+
+// CHAP: element id, start/end ms, start/end byte offsets, then embedded frames (TIT2)
+const parseId3Chapter = (collector: TagCollector, body: Uint8Array, major: number) => {
+  const idEnd = findTerminator(body, 0, 0);
+  let offset = idEnd + 1;
+  if (offset + 16 > body.length) return;
+  const time = uint32BE(body, offset) / 1000;
+  offset += 16;
+
+  let title: string | undefined;
+  while (offset + 10 <= body.length) {
+    const id = ascii(body, offset, 4);
+    const size = major === 4 ? syncsafe(body, offset + 4) : uint32BE(body, offset + 4);
+    const frame = body.subarray(offset + 10, offset + 10 + size);
+    offset += 10 + size;
+    if (id === 'TIT2' && frame.length > 1) title = stripNulls(decodeId3Text(frame.subarray(1), frame[0])) || undefined;
+  }
+  collector.chapters.set(`id3:${ascii(body, 0, idEnd)}`, { time, title });
+};
+
+const handleId3Frame = (collector: TagCollector, id: string, body: Uint8Array, major: number) => {
+  if (body.length === 0) return;
+  const isV22 = major === 2;
+
+  if (id === 'APIC') {
+    const picture = parseId3Picture(body, isV22);
+    if (picture) collector.pictures.push(picture);
+    return;
+  }
+
+  if (id === 'USLT') {
+    assignField(collector, 'LYRICS', parseId3Lyrics(body));
+    return;
+  }
+
+  if (id === 'SYLT') {
+    collector.syncedLyrics ??= parseId3SyncedLyrics(body);
+    return;
+  }
+
+  if (id === 'CHAP') {
+    parseId3Chapter(collector, body, major);
+    return;
+  }
+
+  if (id === 'TXXX') {
+    const encoding = body[0];
+    const descriptionEnd = findTerminator(body, 1, encoding);
+    const description = decodeId3Text(body.subarray(1, descriptionEnd), encoding);
+    const valueStart = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+    assignField(collector, stripNulls(description).toUpperCase(), decodeId3Text(body.subarray(valueStart), encoding));
+    return;
+  }
+
+  const key = ID3_TEXT_FRAMES[id];
+  if (key) {
+    // v2.4 separates multiple values with nulls; the first one is enough here
+    const text = decodeId3Text(body.subarray(1), body[0]);
+    assignField(collector, key, text.split('\0')[0]);
+  }
+};
+
+/** Parses an ID3v2 tag at the start of the file and returns its total size. */
+const readId3v2 = async (file: Blob, collector: TagCollector): Promise<number> => {
+  const header = await readBytes(file, 0, 10);
+  const major = header[3];
+  const flags = header[5];
+  const tagSize = syncsafe(header, 6);
+  const footerSize = flags & 0x10 ? 10 : 0;
+  if (major < 2 || major > 4) return 10 + tagSize + footerSize;
+
+  let data = await readBytes(file, 10, 10 + Math.min(tagSize, MAX_TAG_BYTES));
+  if (major < 4 && flags & 0x80) data = removeUnsynchronisation(data);
+
+  let offset = 0;
+  if (major >= 3 && flags & 0x40) {
+    // v2.3's extended header size excludes itself, v2.4's includes itself
+    offset = major === 3 ? 4 + uint32BE(data, 0) : syncsafe(data, 0);
+  }
+
+  const isV22 = major === 2;
+  const headerLength = isV22 ? 6 : 10;
+  while (offset + headerLength <= data.length) {
+    const rawId = ascii(data, offset, isV22 ? 3 : 4);
+    if (!/^[A-Z0-9]+$/.test(rawId)) break; // padding
+
+    const size = isV22 ? uint24BE(data, offset + 3) : major === 4 ? syncsafe(data, offset + 4) : uint32BE(data, offset + 4);
+    const formatFlags = isV22 ? 0 : data[offset + 9];
+    let body = data.subarray(offset + headerLength, offset + headerLength + size);
+    offset += headerLength + size;
+
+    if (major === 3) {
+      if (formatFlags & 0xc0) continue; // compressed or encrypted
+      if (formatFlags & 0x20) body = body.subarray(1); // grouping id
+    } else if (major === 4) {
+      if (formatFlags & 0x0c) continue;
+      if (formatFlags & 0x40) body = body.subarray(1);
+      if (formatFlags & 0x01) body = body.subarray(4); // data length indicator
+      if (formatFlags & 0x02) body = removeUnsynchronisation(body);
+    }
+
+    const id = isV22 ? ID3V22_FRAMES[rawId] ?? rawId : rawId;
+    handleId3Frame(collector, id, body, major);
+  }
+
+  return 10 + tagSize + footerSize;
+};
+
+// --- Vorbis comments (FLAC, Ogg) --------------------------------------------
+
+const parseVorbisComments = (collector: TagCollector, bytes: Uint8Array) => {
+  let offset = 0;
+  const vendorLength = uint32LE(bytes, offset);
+  offset += 4 + vendorLength;
+  const count = uint32LE(bytes, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = uint32LE(bytes, offset);
+    offset += 4;
+    const comment = utf8.decode(bytes.subarray(offset, offset + length));
+    offset += length;
+
+    const separator = comment.indexOf('=');
+    if (separator <= 0) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const picture = parseFlacPicture(base64ToBytes(value));
+        if (picture) collector.pictures.push(picture);
+      } catch {
+        // Ignore undecodable pictures, the text tags are still useful
+      }
+    } else {
+      assignField(collector, key, value);
+    }
+  }
+};
+
+// FLAC CUESHEET block: track offsets are in samples and carry no titles
+const parseFlacCueSheet = (collector: TagCollector, bytes: Uint8Array, sampleRate: number) => {
+  const uint64BE = (o: number) => uint32BE(bytes, o) * 2 ** 32 + uint32BE(bytes, o + 4);
+  const trackCount = bytes[395];
+  let offset = 396;
+  for (let i = 0; i < trackCount && offset + 36 <= bytes.length; i++) {
+    const trackOffset = uint64BE(offset);
+    const number = bytes[offset + 8];
+    const indexCount = bytes[offset + 35];
+    offset += 36;
+    for (let j = 0; j < indexCount && offset + 12 <= bytes.length; j++) {
+      // 170 is the lead-out, which marks the end rather than a track
+      if (bytes[offset + 8] === 1 && number !== 170) {
+        collector.chapters.set(`cue:${number}`, { time: (trackOffset + uint64BE(offset)) / sampleRate });
+      }
+      offset += 12;
+    }
+  }
+};
+
+const readFlac = async (file: Blob, start: number, collector: TagCollector) => {
+  let offset = start + 4; // "fLaC"
+  const limit = Math.min(file.size, start + MAX_TAG_BYTES);
+  let sampleRate = 0;
+  while (offset + 4 <= limit) {
+    const header = await readBytes(file, offset, offset + 4);
+    const isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = uint24BE(header, 1);
+    offset += 4;
+
+    if (type === 0) {
+      // STREAMINFO: 20-bit sample rate after the block and frame size fields
+      const info = await readBytes(file, offset + 10, offset + 13);
+      sampleRate = (info[0] << 12) | (info[1] << 4) | (info[2] >> 4);
+    } else if (type === 4) {
+      parseVorbisComments(collector, await readBytes(file, offset, offset + length));
+    } else if (type === 5 && sampleRate > 0) {
+      parseFlacCueSheet(collector, await readBytes(file, offset, offset + length), sampleRate);
+    } else if (type === 6) {
+      const picture = parseFlacPicture(await readBytes(file, offset, offset + length));
+      if (picture) collector.pictures.push(picture);
+    }
+
+    offset += length;
+    if (isLast) break;
+  }
+};
+
+/** Reassembles the first `count` packets of the first logical Ogg stream. */
+const readOggPackets = async (file: Blob, count: number): Promise<Uint8Array[]> => {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let offset = 0;
+  let serial: number | null = null;
+
+  while (packets.length < count && offset + 27 <= Math.min(file.size, MAX_TAG_BYTES)) {
+    const header = await readBytes(file, offset, offset + 27);
+    if (ascii(header, 0, 4) !== 'OggS') break;
+    const pageSerial = uint32LE(header, 14);
+    const segmentCount = header[26];
+    const segments = await readBytes(file, offset + 27, offset + 27 + segmentCount);
+    const bodyLength = segments.reduce((sum, size) => sum + size, 0);
+    const body = await readBytes(file, offset + 27 + segmentCount, offset + 27 + segmentCount + bodyLength);
+    offset += 27 + segmentCount + bodyLength;
+
+    serial ??= pageSerial;
+    if (pageSerial !== serial) continue;
+
+    let bodyOffset = 0;
+    for (const size of segments) {
+      pending.push(body.subarray(bodyOffset, bodyOffset + size));
+      bodyOffset += size;
+      // A lacing value below 255 terminates the packet
+      if (size < 255) {
+        const length = pending.reduce((sum, part) => sum + part.length, 0);
+        const packet = new Uint8Array(length);
+        let position = 0;
+        for (const part of pending) {
+          packet.set(part, position);
+          position += part.length;
+        }
+        packets.push(packet);
+        pending = [];
+        if (packets.length >= count) break;
+      }
+    }
+  }
+
+  return packets;
+};
+
+const readOgg = async (file: Blob, collector: TagCollector) => {
+  const [, commentPacket] = await readOggPackets(file, 2);
+  if (!commentPacket) return;
+
+  if (commentPacket[0] === 0x03 && ascii(commentPacket, 1, 6) === 'vorbis') {
+    parseVorbisComments(collector, commentPacket.subarray(7));
+  } else if (ascii(commentPacket, 0, 8) === 'OpusTags') {
+    parseVorbisComments(collector, commentPacket.subarray(8));
+  }
+};
+
+// --- MP4 / M4A ----------------------------------------------------------------
+
+const MP4_TEXT_ATOMS: Record<string, string> = {
+  '©nam': 'TITLE', '©ART': 'ARTIST', 'aART': 'ALBUMARTIST', '©alb': 'ALBUM',
+  '©day': 'DATE', '©gen': 'GENRE', '©lyr': 'LYRICS',
+};
+
+interface Atom {
+  type: string;
+  start: number; // payload start
+  end: number;
+}
+
+const listAtoms = (bytes: Uint8Array, start: number, end: number): Atom[] => {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32BE(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(bytes, offset + 8) * 2 ** 32 + uint32BE(bytes, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    atoms.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+};
+
+const childAtom = (bytes: Uint8Array, parent: Atom, type: string, skip = 0) =>
+  listAtoms(bytes, parent.start + skip, parent.end).find(atom => atom.type === type);
+
+const readIlstItem = (collector: TagCollector, bytes: Uint8Array, item: Atom) => {
+  const children = listAtoms(bytes, item.start, item.end);
+  const data = children.find(atom => atom.type === 'data');
+  if (!data || data.end - data.start < 8) return;
+  const dataType = uint24BE(bytes, data.start + 1);
+  const payload = bytes.subarray(data.start + 8, data.end);
+
+  if (item.type === '----') {
+    // iTunes freeform atom: mean + name + data
+    const name = children.find(atom => atom.type === 'name');
+    if (name) assignField(collector, utf8.decode(bytes.subarray(name.start + 4, name.end)).toUpperCase(), utf8.decode(payload));
+  } else if (item.type === 'covr') {
+    const mime = dataType === 14 ? 'image/png' : 'image/jpeg';
+    collector.pictures.push({ type: FRONT_COVER, blob: new Blob([payload.slice()], { type: mime }) });
+  } else if (item.type === 'trkn' && payload.length >= 4) {
+    assignField(collector, 'TRACKNUMBER', String((payload[2] << 8) | payload[3]));
+  } else if (item.type === 'gnre' && payload.length >= 2) {
+    // Stored as the ID3v1 genre index plus one
+    const index = ((payload[0] << 8) | payload[1]) - 1;
+    if (ID3V1_GENRES[index]) assignField(collector, 'GENRE', ID3V1_GENRES[index]);
+  } else if (MP4_TEXT_ATOMS[item.type]) {
+    assignField(collector, MP4_TEXT_ATOMS[item.type], utf8.decode(payload));
+  }
+};
+
+// Nero chapter list: start times in 100 ns units, Pascal-string titles
+const readChplAtom = (collector: TagCollector, bytes: Uint8Array, atom: Atom) => {
+  const version = bytes[atom.start];
+  let offset = atom.start + 4 + (version === 1 ? 4 : 0);
+  const count = bytes[offset++];
+  for (let i = 0; i < count && offset + 9 <= atom.end; i++) {
+    const time = (uint32BE(bytes, offset) * 2 ** 32 + uint32BE(bytes, offset + 4)) / 1e7;
+    const length = bytes[offset + 8];
+    const title = utf8.decode(bytes.subarray(offset + 9, offset + 9 + length)).trim() || undefined;
+    collector.chapters.set(`chpl:${i}`, { time, title });
+    offset += 9 + length;
+  }
+};
+
+const readMp4 = async (file: Blob, collector: TagCollector) => {
+  // moov can sit after a huge mdat, so walk top-level headers instead of
+  // reading the file front to back
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    let size = uint32BE(header, 0);
+    const type = ascii(header, 4, 4);
+    if (size === 1) size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return;
+
+    if (type === 'moov') {
+      if (size > MAX_TAG_BYTES) return;
+      const moovBytes = await readBytes(file, offset, offset + size);
+      const moov = listAtoms(moovBytes, 0, moovBytes.length)[0];
+      if (!moov) return;
+      const udta = childAtom(moovBytes, moov, 'udta');
+      const chpl = udta && childAtom(moovBytes, udta, 'chpl');
+      if (chpl) readChplAtom(collector, moovBytes, chpl);
+      // "meta" is a full box: four bytes of version/flags precede its children
+      const meta = udta ? childAtom(moovBytes, udta, 'meta') : childAtom(moovBytes, moov, 'meta');
+      const ilst = meta && childAtom(moovBytes, meta, 'ilst', 4);
+      if (ilst) {
+        listAtoms(moovBytes, ilst.start, ilst.end).forEach(item => readIlstItem(collector, moovBytes, item));
+      }
+      return;
+    }
+    offset += size;
+  }
+};
+
+// --- Entry point ----------------------------------------------------------------
+
+// Sorted, and with near-duplicates from overlapping sources (say a FLAC cue
+// block plus a CUESHEET comment) merged, keeping whichever has a title
+const collectChapters = (chapters: Map<string, Partial<Chapter>>): Chapter[] => {
+  const sorted = [...chapters.values()]
+    .filter((chapter): chapter is Chapter => chapter.time !== undefined && isFinite(chapter.time) && chapter.time >= 0)
+    .sort((a, b) => a.time - b.time);
+  const merged: Chapter[] = [];
+  for (const chapter of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && chapter.time - previous.time < 0.5) {
+      previous.title ??= chapter.title;
+    } else {
+      merged.push({ ...chapter });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Reads whatever tags the file carries. Never throws: a damaged or unknown
+ * container simply yields fewer fields and the caller falls back to the
+ * file name.
+ */
+export const readTags = async (file: Blob): Promise<TrackTags> => {
+  const collector: TagCollector = { tags: {}, pictures: [], gain: {}, chapters: new Map() };
+
+  try {
+    const head = await readBytes(file, 0, 12);
+    let offset = 0;
+
+    if (ascii(head, 0, 3) === 'ID3') {
+      offset = await readId3v2(file, collector);
+    }
+
+    // FLAC files are sometimes prefixed with an ID3 tag by older rippers
+    const magic = offset === 0 ? head : await readBytes(file, offset, offset + 12);
+    if (ascii(magic, 0, 4) === 'fLaC') {
+      await readFlac(file, offset, collector);
+    } else if (ascii(magic, 0, 4) === 'OggS') {
+      await readOgg(file, collector);
+    } else if (ascii(magic, 4, 4) === 'ftyp') {
+      await readMp4(file, collector);
+    }
+  } catch (err) {
+    console.warn("Tag read error:", err);
+  }
+
+  const { tags, pictures, gain, syncedLyrics, chapters } = collector;
+  if (syncedLyrics) tags.lyrics = syncedLyrics;
+  const chapterList = collectChapters(chapters);
+  if (chapterList.length > 0) tags.chapters = chapterList;
+  const cover = pictures.find(picture => picture.type === FRONT_COVER) ?? pictures[0];
+  if (cover) tags.picture = cover.blob;
+  if (gain.trackGain !== undefined) tags.loudness = { ...gain, trackGain: gain.trackGain, source: 'tags' };
+  return tags;
+};
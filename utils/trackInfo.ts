@@ -0,0 +1,8 @@
+import { Track } from '../types';
+
+/** Display title: the embedded tag when present, otherwise the file name. */
+export const getTrackTitle = (track: Track): string => track.title || track.name;
+
+/** "Artist — Album" style subtitle, empty when the file carried no tags. */
+export const getTrackSubtitle = (track: Track): string =>
+  [track.artist, track.album].filter(Boolean).join(' — ');
@@ -0,0 +1,213 @@
+import { Track, ListViewSettings, TrackSortKey, TrackGroupKey } from '../types';
+import { getTrackTitle } from './trackInfo';
+import { getKeyOrder } from './audioFeatures';
+import { MessageKey } from '../i18n';
+
+export const SORT_OPTIONS: { key: TrackSortKey; labelKey: MessageKey }[] = [
+  { key: 'manual', labelKey: 'sort.manual' },
+  { key: 'title', labelKey: 'sort.title' },
+  { key: 'artist', labelKey: 'sort.artist' },
+  { key: 'album', labelKey: 'sort.album' },
+  { key: 'year', labelKey: 'sort.year' },
+  { key: 'genre', labelKey: 'sort.genre' },
+  { key: 'fileName', labelKey: 'sort.fileName' },
+  { key: 'duration', labelKey: 'sort.duration' },
+  { key: 'addedAt', labelKey: 'sort.addedAt' },
+  { key: 'playCount', labelKey: 'sort.playCount' },
+  { key: 'bpm', labelKey: 'sort.bpm' },
+  { key: 'key', labelKey: 'sort.key' },
+  { key: 'energy', labelKey: 'sort.energy' },
+];
+
+export const GROUP_OPTIONS: { key: TrackGroupKey; labelKey: MessageKey }[] = [
+  { key: 'none', labelKey: 'group.none' },
+  { key: 'artist', labelKey: 'group.artist' },
+  { key: 'album', labelKey: 'group.album' },
+];
+
+// Chinese collation orders Han characters by pinyin; numeric so "Track 2" < "Track 10"
+const collator = new Intl.Collator(['zh-Hans-CN', 'en'], { numeric: true, sensitivity: 'base' });
+
+// --- Search ---
+
+const KATAKANA = /[\u30a1-\u30f6]/g;
+// Han, kana and Hangul: scripts written without spaces between words
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+/g;
+const CJK_TERM = new RegExp(`^${CJK_RUN.source}$`);
+
+/**
+ * Folds text for matching: full-width forms become ASCII (NFKC), Latin
+ * accents are dropped ("Beyoncé" matches "beyonce"), katakana becomes
+ * hiragana and everything is lower-cased. Kana voicing marks and Hangul are
+ * recomposed, so only Latin diacritics are ignored.
+ */
+export const foldSearchText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(KATAKANA, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .toLowerCase();
+
+/**
+ * Query terms. Besides spaces, terms are split where CJK meets other text, so
+ * "jay晴天" finds 晴天 by Jay without the user typing a space.
+ */
+const getTerms = (query: string): string[] =>
+  foldSearchText(query)
+    .replace(CJK_RUN, run => ` ${run} `)
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Tracks are replaced rather than mutated, so the folded text can be cached per object
+const searchTextCache = new WeakMap<Track, string>();
+
+const getSearchText = (track: Track): string => {
+  let text = searchTextCache.get(track);
+  if (text === undefined) {
+    text = foldSearchText(
+      [track.title, track.artist, track.albumArtist, track.album, track.file.name, ...(track.aiTags ?? [])].filter(Boolean).join('\n')
+    );
+    searchTextCache.set(track, text);
+  }
+  return text;
+};
+
+/**
+ * Whether `text` contains `term`. A CJK term may also be spread over fields
+ * ("周杰伦晴天" is artist + title): it is then taken apart greedily into the
+ * longest pieces found, each at least two characters except a final one.
+ */
+const containsTerm = (text: string, term: string): boolean => {
+  if (text.includes(term)) return true;
+  if (!CJK_TERM.test(term)) return false;
+  let rest = term;
+  while (rest.length > 1) {
+    let length = rest.length;
+    while (length >= 2 && !text.includes(rest.slice(0, length))) length--;
+    if (length < 2) return false;
+    rest = rest.slice(length);
+  }
+  return rest === '' || text.includes(rest);
+};
+
+/** Tracks whose title, artist, album or file name contain every query term, in list order. */
+export const filterTracks = (tracks: Track[], query: string): Track[] => {
+  const terms = getTerms(query);
+  if (terms.length === 0) return tracks;
+  return tracks.filter(track => {
+    const text = getSearchText(track);
+    return terms.every(term => containsTerm(text, term));
+  });
+};
+
+// --- Sorting and grouping ---
+
+type SortValue = string | number | undefined;
+
+const getSortValue = (track: Track, key: TrackSortKey, playCounts?: Map<string, number>): SortValue => {
+  switch (key) {
+    case 'title': return getTrackTitle(track);
+    case 'artist': return track.artist || track.albumArtist;
+    case 'album': return track.album;
+    case 'year': return track.year;
+    case 'genre': return track.genre;
+    case 'fileName': return track.file.name;
+    case 'duration': return track.duration;
+    case 'addedAt': return track.addedAt;
+    case 'playCount': return playCounts?.get(track.id) ?? 0;
+    case 'bpm': return track.features?.bpm;
+    case 'key': return track.features && getKeyOrder(track.features);
+    case 'energy': return track.features?.energy;
+    case 'manual': return undefined;
+  }
+};
+
+const compareValues = (a: SortValue, b: SortValue): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return collator.compare(String(a), String(b));
+};
+
+const byTrackNumber = (a: Track, b: Track) => (a.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.trackNumber ?? Number.MAX_SAFE_INTEGER);
+
+// Tie-breakers that keep albums in track order under the artist and album sorts
+const TIE_BREAKERS: Partial<Record<TrackSortKey, ((a: Track, b: Track) => number)[]>> = {
+  artist: [(a, b) => compareValues(a.album ?? '', b.album ?? ''), byTrackNumber],
+  album: [byTrackNumber],
+};
+
+/** Header shown for the tracks missing the grouped field, whose group `key` is ''. */
+export const UNKNOWN_GROUP_LABELS: Record<Exclude<TrackGroupKey, 'none'>, MessageKey> = {
+  artist: 'group.unknownArtist',
+  album: 'group.unknownAlbum',
+};
+
+/**
+ * Group a track falls under; `key` tells same-named albums by different
+ * artists apart and is '' for the unknown group (see UNKNOWN_GROUP_LABELS).
+ */
+export const getTrackGroup = (track: Track, group: TrackGroupKey): { key: string; label: string } | null => {
+  if (group === 'none') return null;
+  if (group === 'artist') {
+    const artist = track.artist || track.albumArtist;
+    return { key: artist ?? '', label: artist ?? '' };
+  }
+  const artist = track.albumArtist || track.artist || '';
+  return {
+    key: track.album ? `${artist}\u0000${track.album}` : '',
+    label: track.album ? (artist ? `${track.album} — ${artist}` : track.album) : '',
+  };
+};
+
+/**
+ * The list in display (and playback) order. Tracks missing the sort value go
+ * last in either direction; ties keep their list order. When grouped, groups
+ * are ordered by name with unknowns last, and the sort applies inside each.
+ * `playCounts` (from the listening history) is only needed for that sort.
+ */
+export const arrangeTracks = (
+  tracks: Track[],
+  { sort, descending, group }: ListViewSettings,
+  playCounts?: Map<string, number>
+): Track[] => {
+  if (sort === 'manual' && group === 'none') return tracks;
+
+  const direction = descending ? -1 : 1;
+  const position = new Map(tracks.map((track, i) => [track.id, i]));
+  const byPosition = (a: Track, b: Track) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0);
+  const values = new Map(tracks.map(track => [track.id, getSortValue(track, sort, playCounts)]));
+  const groups = new Map(tracks.map(track => [track.id, getTrackGroup(track, group)]));
+
+  const compare = (a: Track, b: Track): number => {
+    const groupA = groups.get(a.id);
+    const groupB = groups.get(b.id);
+    if (groupA && groupB && groupA.key !== groupB.key) {
+      if (!groupA.key || !groupB.key) return groupA.key ? -1 : 1;
+      const byName = collator.compare(groupA.label, groupB.label) || collator.compare(groupA.key, groupB.key);
+      // Sorting by the grouped field itself reverses the groups too
+      return sort === group ? byName * direction : byName;
+    }
+
+    if (sort === 'manual') {
+      // Inside an album, track order is the only sensible "list order"
+      if (group === 'album') return byTrackNumber(a, b) || byPosition(a, b);
+      return byPosition(a, b);
+    }
+
+    const valueA = values.get(a.id);
+    const valueB = values.get(b.id);
+    const missingA = valueA === undefined || valueA === '';
+    const missingB = valueB === undefined || valueB === '';
+    if (missingA !== missingB) return missingA ? 1 : -1;
+    const byValue = missingA ? 0 : compareValues(valueA, valueB) * direction;
+    if (byValue !== 0) return byValue;
+    for (const tieBreaker of TIE_BREAKERS[sort] ?? []) {
+      const result = tieBreaker(a, b);
+      if (result !== 0) return result;
+    }
+    return byPosition(a, b);
+  };
+
+  return [...tracks].sort(compare);
+};
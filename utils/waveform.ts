@@ -0,0 +1,23 @@
+// Seek bar waveform from decoded channels. Pure so it can run in a worker
+// (services/analysis.worker.ts); the caller decodes.
+
+/** The peak level of each slice across all channels, scaled so the loudest slice is 1. */
+export const computePeaks = (channels: Float32Array[], slices: number): number[] => {
+  const peaks = new Float32Array(slices);
+  const sliceLength = (channels[0]?.length ?? 0) / slices;
+  for (const samples of channels) {
+    for (let slice = 0; slice < slices; slice++) {
+      const end = Math.min(samples.length, Math.floor((slice + 1) * sliceLength));
+      let peak = peaks[slice];
+      for (let i = Math.floor(slice * sliceLength); i < end; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[slice] = peak;
+    }
+  }
+
+  const max = Math.max(...peaks) || 1;
+  // Two decimals is plenty for drawing and keeps the stored track small
+  return Array.from(peaks, peak => Math.round((peak / max) * 100) / 100);
+};
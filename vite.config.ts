@@ -1,7 +1,54 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const listFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory() ? listFiles(path.join(dir, entry.name)).map(name => `${entry.name}/${name}`) : [entry.name]
+      )
+    : [];
+
+// Builds sw.js from sw.js.template at the root: every emitted file (and
+// everything in public/) is precached, under a cache version that changes
+// whenever any of them does. The template's name doesn't end in .js, so the
+// dev server can never hand out the unfilled worker as a script.
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'vinyl-vibe-service-worker',
+    apply: 'build',
+    // After index.html has been emitted
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256');
+      const urls = ['/'];
+      for (const item of Object.values(bundle)) {
+        if (item.fileName.endsWith('.map')) continue;
+        urls.push(`/${item.fileName}`);
+        hash.update(item.fileName).update(item.type === 'chunk' ? item.code : item.source);
+      }
+      for (const name of listFiles(publicDir)) {
+        urls.push(`/${name}`);
+        hash.update(name).update(fs.readFileSync(path.join(publicDir, name)));
+      }
+      const template = fs.readFileSync(path.resolve(__dirname, 'sw.js.template'), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__PRECACHE_URLS__', JSON.stringify(urls))
+          .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12))),
+      });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +56,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)